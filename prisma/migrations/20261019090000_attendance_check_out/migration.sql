@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "checkOutPhotoUrl" TEXT,
+ADD COLUMN     "checkOutTime" TIMESTAMP(3),
+ADD COLUMN     "workedMinutes" INTEGER;
@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "PunchType" AS ENUM ('IN', 'OUT', 'BREAK_START', 'BREAK_END');
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "breakMinutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "attendance_punches" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "employeeId" UUID NOT NULL,
+    "attendanceId" UUID NOT NULL,
+    "type" "PunchType" NOT NULL,
+    "punchTime" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "photoUrl" TEXT NOT NULL,
+    "matchConfidence" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_punches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_punches_tenantId_idx" ON "attendance_punches"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "attendance_punches_employeeId_idx" ON "attendance_punches"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "attendance_punches_attendanceId_idx" ON "attendance_punches"("attendanceId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "attendances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill IN/OUT punches for existing attendance records
+INSERT INTO "attendance_punches" ("id", "tenantId", "employeeId", "attendanceId", "type", "punchTime", "photoUrl", "matchConfidence")
+SELECT gen_random_uuid(), "tenantId", "employeeId", "id", 'IN', "checkInTime", "photoUrl", "matchConfidence"
+FROM "attendances";
+
+INSERT INTO "attendance_punches" ("id", "tenantId", "employeeId", "attendanceId", "type", "punchTime", "photoUrl")
+SELECT gen_random_uuid(), "tenantId", "employeeId", "id", 'OUT', "checkOutTime", COALESCE("checkOutPhotoUrl", "photoUrl")
+FROM "attendances"
+WHERE "checkOutTime" IS NOT NULL;
+
+-- Check-out photos now live on the OUT punches
+ALTER TABLE "attendances" DROP COLUMN "checkOutPhotoUrl";
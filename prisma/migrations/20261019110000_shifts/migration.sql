@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "AttendanceStatus" AS ENUM ('ON_TIME', 'LATE', 'HALF_DAY');
+
+-- AlterTable
+ALTER TABLE "employees" ADD COLUMN     "shiftId" UUID;
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "isEarlyDeparture" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "status" "AttendanceStatus";
+
+-- CreateTable
+CREATE TABLE "shifts" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "lateGraceMinutes" INTEGER NOT NULL DEFAULT 0,
+    "earlyExitGraceMinutes" INTEGER NOT NULL DEFAULT 0,
+    "halfDayAfterMinutes" INTEGER,
+    "weeklyOffs" INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "employees_shiftId_idx" ON "employees"("shiftId");
+
+-- CreateIndex
+CREATE INDEX "attendances_status_idx" ON "attendances"("status");
+
+-- CreateIndex
+CREATE INDEX "shifts_tenantId_idx" ON "shifts"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shifts_tenantId_name_key" ON "shifts"("tenantId", "name");
+
+-- AddForeignKey
+ALTER TABLE "employees" ADD CONSTRAINT "employees_shiftId_fkey" FOREIGN KEY ("shiftId") REFERENCES "shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shifts" ADD CONSTRAINT "shifts_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "tenant_locations" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "radiusMeters" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "employee_locations" (
+    "employeeId" UUID NOT NULL,
+    "locationId" UUID NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "employee_locations_pkey" PRIMARY KEY ("employeeId","locationId")
+);
+
+-- CreateIndex
+CREATE INDEX "tenant_locations_tenantId_idx" ON "tenant_locations"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_locations_tenantId_name_key" ON "tenant_locations"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "employee_locations_locationId_idx" ON "employee_locations"("locationId");
+
+-- AddForeignKey
+ALTER TABLE "tenant_locations" ADD CONSTRAINT "tenant_locations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "employee_locations" ADD CONSTRAINT "employee_locations_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "employee_locations" ADD CONSTRAINT "employee_locations_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "tenant_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
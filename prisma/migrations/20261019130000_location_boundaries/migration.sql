@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "tenant_locations" ADD COLUMN     "boundary" JSONB;
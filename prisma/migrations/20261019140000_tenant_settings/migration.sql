@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "tenant_settings" (
+    "tenantId" UUID NOT NULL,
+    "checkInRadiusMeters" INTEGER,
+    "faceSimilarityThreshold" DOUBLE PRECISION,
+    "locationTokenExpiry" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_settings_pkey" PRIMARY KEY ("tenantId")
+);
+
+-- AddForeignKey
+ALTER TABLE "tenant_settings" ADD CONSTRAINT "tenant_settings_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "EmbeddingMetric" AS ENUM ('COSINE', 'EUCLIDEAN');
+
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN     "embeddingMetric" "EmbeddingMetric",
+ADD COLUMN     "embeddingThreshold" DOUBLE PRECISION;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "FaceVerifierProvider" AS ENUM ('REKOGNITION', 'LOCAL', 'FAKE');
+
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN     "faceVerifier" "FaceVerifierProvider";
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "LivenessPrompt" AS ENUM ('TURN_LEFT', 'TURN_RIGHT', 'LOOK_UP', 'LOOK_DOWN', 'BLINK');
+
+-- CreateEnum
+CREATE TYPE "LivenessChallengeStatus" AS ENUM ('PENDING', 'PASSED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN     "requireLiveness" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "livenessPassed" BOOLEAN,
+ADD COLUMN     "livenessScore" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "liveness_challenges" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "employeeId" UUID NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "prompts" "LivenessPrompt"[],
+    "status" "LivenessChallengeStatus" NOT NULL DEFAULT 'PENDING',
+    "score" DOUBLE PRECISION,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "liveness_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "liveness_challenges_employeeId_idx" ON "liveness_challenges"("employeeId");
+
+-- CreateIndex
+CREATE INDEX "liveness_challenges_expiresAt_idx" ON "liveness_challenges"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "liveness_challenges" ADD CONSTRAINT "liveness_challenges_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "liveness_challenges" ADD CONSTRAINT "liveness_challenges_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "SecurityEventType" AS ENUM ('LOCATION_TOKEN_REPLAY');
+
+-- CreateTable
+CREATE TABLE "used_location_tokens" (
+    "jti" TEXT NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "employeeId" UUID NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "used_location_tokens_pkey" PRIMARY KEY ("jti")
+);
+
+-- CreateTable
+CREATE TABLE "security_events" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "employeeId" UUID,
+    "type" "SecurityEventType" NOT NULL,
+    "details" JSONB,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "security_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "used_location_tokens_expiresAt_idx" ON "used_location_tokens"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "security_events_tenantId_createdAt_idx" ON "security_events"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "security_events_employeeId_idx" ON "security_events"("employeeId");
+
+-- AddForeignKey
+ALTER TABLE "used_location_tokens" ADD CONSTRAINT "used_location_tokens_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "security_events" ADD CONSTRAINT "security_events_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterEnum
+ALTER TYPE "SecurityEventType" ADD VALUE 'LOCATION_CHECK_REJECTED';
+
+-- CreateEnum
+CREATE TYPE "LocationCheckVerdict" AS ENUM ('ALLOW', 'FLAG', 'REJECT');
+
+-- CreateEnum
+CREATE TYPE "LocationRuleFlag" AS ENUM ('MOCK_LOCATION', 'IMPOSSIBLE_TRAVEL', 'ROUND_COORDINATES', 'POOR_ACCURACY', 'STALE_FIX');
+
+-- CreateTable
+CREATE TABLE "location_checks" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "employeeId" UUID NOT NULL,
+    "latitude" DOUBLE PRECISION NOT NULL,
+    "longitude" DOUBLE PRECISION NOT NULL,
+    "accuracy" DOUBLE PRECISION,
+    "altitude" DOUBLE PRECISION,
+    "isMocked" BOOLEAN,
+    "fixTimestamp" TIMESTAMP(3),
+    "locationId" UUID,
+    "distanceMeters" DOUBLE PRECISION,
+    "verdict" "LocationCheckVerdict" NOT NULL,
+    "flags" "LocationRuleFlag"[],
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "location_checks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "location_checks_tenantId_createdAt_idx" ON "location_checks"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "location_checks_employeeId_createdAt_idx" ON "location_checks"("employeeId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "location_checks_verdict_idx" ON "location_checks"("verdict");
+
+-- AddForeignKey
+ALTER TABLE "location_checks" ADD CONSTRAINT "location_checks_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "location_checks" ADD CONSTRAINT "location_checks_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "location_checks" ADD CONSTRAINT "location_checks_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "tenant_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
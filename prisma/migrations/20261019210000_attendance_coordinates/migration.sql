@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "distanceMeters" DOUBLE PRECISION,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "locationId" UUID,
+ADD COLUMN     "locationTokenIssuedAt" TIMESTAMP(3),
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "attendance_punches" ADD COLUMN     "distanceMeters" DOUBLE PRECISION,
+ADD COLUMN     "latitude" DOUBLE PRECISION,
+ADD COLUMN     "locationId" UUID,
+ADD COLUMN     "locationTokenIssuedAt" TIMESTAMP(3),
+ADD COLUMN     "longitude" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "attendances_locationId_idx" ON "attendances"("locationId");
+
+-- AddForeignKey
+ALTER TABLE "attendances" ADD CONSTRAINT "attendances_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "tenant_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "tenant_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
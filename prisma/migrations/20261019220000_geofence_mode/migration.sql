@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "GeofenceMode" AS ENUM ('ON_SITE_ONLY', 'FIELD_ONLY', 'ANYWHERE');
+
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN     "geofenceMode" "GeofenceMode";
+
+-- AlterTable
+ALTER TABLE "employees" ADD COLUMN     "geofenceMode" "GeofenceMode";
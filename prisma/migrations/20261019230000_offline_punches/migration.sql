@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "PunchSource" AS ENUM ('ONLINE', 'OFFLINE');
+
+-- AlterEnum
+ALTER TYPE "SecurityEventType" ADD VALUE 'OFFLINE_SIGNATURE_INVALID';
+
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN     "allowOfflinePunches" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "source" "PunchSource" NOT NULL DEFAULT 'ONLINE';
+
+-- AlterTable
+ALTER TABLE "attendance_punches" ADD COLUMN     "clientPunchId" TEXT,
+ADD COLUMN     "deviceId" UUID,
+ADD COLUMN     "source" "PunchSource" NOT NULL DEFAULT 'ONLINE',
+ADD COLUMN     "syncedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "employee_devices" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "employeeId" UUID NOT NULL,
+    "name" TEXT,
+    "publicKey" TEXT NOT NULL,
+    "lastSyncedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "employee_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "employee_devices_tenantId_idx" ON "employee_devices"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "employee_devices_employeeId_idx" ON "employee_devices"("employeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_punches_deviceId_clientPunchId_key" ON "attendance_punches"("deviceId", "clientPunchId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "employee_devices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "employee_devices" ADD CONSTRAINT "employee_devices_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "employee_devices" ADD CONSTRAINT "employee_devices_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "RegularizationStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterEnum
+ALTER TYPE "PunchSource" ADD VALUE 'REGULARIZED';
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "regularizationId" UUID;
+
+-- CreateTable
+CREATE TABLE "attendance_regularizations" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "employeeId" UUID NOT NULL,
+    "date" DATE NOT NULL,
+    "checkInTime" TIMESTAMP(3) NOT NULL,
+    "checkOutTime" TIMESTAMP(3),
+    "reason" TEXT NOT NULL,
+    "evidenceUrl" TEXT,
+    "status" "RegularizationStatus" NOT NULL DEFAULT 'PENDING',
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_regularizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_regularizations_tenantId_status_idx" ON "attendance_regularizations"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "attendance_regularizations_employeeId_date_idx" ON "attendance_regularizations"("employeeId", "date");
+
+-- CreateIndex
+CREATE INDEX "attendances_regularizationId_idx" ON "attendances"("regularizationId");
+
+-- AddForeignKey
+ALTER TABLE "attendances" ADD CONSTRAINT "attendances_regularizationId_fkey" FOREIGN KEY ("regularizationId") REFERENCES "attendance_regularizations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_regularizations" ADD CONSTRAINT "attendance_regularizations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_regularizations" ADD CONSTRAINT "attendance_regularizations_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
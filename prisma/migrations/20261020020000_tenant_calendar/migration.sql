@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "tenant_holidays" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "uid" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tenant_holidays_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "weekly_off_rules" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "weeks" INTEGER[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "weekly_off_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tenant_holidays_tenantId_idx" ON "tenant_holidays"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_holidays_tenantId_date_key" ON "tenant_holidays"("tenantId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "weekly_off_rules_tenantId_weekday_key" ON "weekly_off_rules"("tenantId", "weekday");
+
+-- AddForeignKey
+ALTER TABLE "tenant_holidays" ADD CONSTRAINT "tenant_holidays_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "weekly_off_rules" ADD CONSTRAINT "weekly_off_rules_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,105 @@
+-- CreateEnum
+CREATE TYPE "PayComponentType" AS ENUM ('ALLOWANCE', 'DEDUCTION');
+
+-- CreateEnum
+CREATE TYPE "PayComponentCalculation" AS ENUM ('FIXED', 'PERCENT_OF_BASE');
+
+-- CreateEnum
+CREATE TYPE "PayrollRunStatus" AS ENUM ('DRAFT', 'FINALIZED');
+
+-- CreateTable
+CREATE TABLE "pay_components" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "PayComponentType" NOT NULL,
+    "calculation" "PayComponentCalculation" NOT NULL DEFAULT 'FIXED',
+    "amount" DECIMAL(10,2) NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pay_components_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_runs" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "periodStart" DATE NOT NULL,
+    "periodEnd" DATE NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "PayrollRunStatus" NOT NULL DEFAULT 'DRAFT',
+    "employeeCount" INTEGER NOT NULL,
+    "basePay" DECIMAL(14,2) NOT NULL,
+    "allowances" DECIMAL(14,2) NOT NULL,
+    "deductions" DECIMAL(14,2) NOT NULL,
+    "netPay" DECIMAL(14,2) NOT NULL,
+    "components" JSONB NOT NULL,
+    "finalizedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payroll_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_items" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "payrollRunId" UUID NOT NULL,
+    "employeeId" UUID,
+    "employeeName" TEXT NOT NULL,
+    "monthlySalary" DECIMAL(10,2) NOT NULL,
+    "periodDays" INTEGER NOT NULL,
+    "employedDays" INTEGER NOT NULL,
+    "workingDays" INTEGER NOT NULL,
+    "presentDays" INTEGER NOT NULL,
+    "paidLeaveDays" DOUBLE PRECISION NOT NULL,
+    "unpaidLeaveDays" DOUBLE PRECISION NOT NULL,
+    "absentDays" DOUBLE PRECISION NOT NULL,
+    "holidays" INTEGER NOT NULL,
+    "weeklyOffs" INTEGER NOT NULL,
+    "payableDays" DOUBLE PRECISION NOT NULL,
+    "basePay" DECIMAL(12,2) NOT NULL,
+    "allowances" DECIMAL(12,2) NOT NULL,
+    "deductions" DECIMAL(12,2) NOT NULL,
+    "netPay" DECIMAL(12,2) NOT NULL,
+    "components" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payroll_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pay_components_tenantId_idx" ON "pay_components"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pay_components_tenantId_name_key" ON "pay_components"("tenantId", "name");
+
+-- CreateIndex
+CREATE INDEX "payroll_runs_tenantId_status_idx" ON "payroll_runs"("tenantId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_runs_tenantId_periodStart_version_key" ON "payroll_runs"("tenantId", "periodStart", "version");
+
+-- CreateIndex
+CREATE INDEX "payroll_items_employeeId_idx" ON "payroll_items"("employeeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_items_payrollRunId_employeeId_key" ON "payroll_items"("payrollRunId", "employeeId");
+
+-- AddForeignKey
+ALTER TABLE "pay_components" ADD CONSTRAINT "pay_components_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_items" ADD CONSTRAINT "payroll_items_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_items" ADD CONSTRAINT "payroll_items_payrollRunId_fkey" FOREIGN KEY ("payrollRunId") REFERENCES "payroll_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_items" ADD CONSTRAINT "payroll_items_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "OvertimeDayType" AS ENUM ('WORKING_DAY', 'WEEKLY_OFF', 'HOLIDAY');
+
+-- CreateEnum
+CREATE TYPE "OvertimeStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "payroll_runs" ADD COLUMN "overtimePay" DECIMAL(14,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "payroll_items" ADD COLUMN "overtimeMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "overtimePay" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "overtime_policies" (
+    "tenantId" UUID NOT NULL,
+    "dailyThresholdMinutes" INTEGER NOT NULL DEFAULT 480,
+    "weeklyThresholdMinutes" INTEGER,
+    "weekStartsOn" INTEGER NOT NULL DEFAULT 1,
+    "overtimeMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 1.5,
+    "weekendMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 2,
+    "holidayMultiplier" DECIMAL(4,2) NOT NULL DEFAULT 2,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "overtime_policies_pkey" PRIMARY KEY ("tenantId")
+);
+
+-- CreateTable
+CREATE TABLE "overtime_records" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "employeeId" UUID NOT NULL,
+    "date" DATE NOT NULL,
+    "dayType" "OvertimeDayType" NOT NULL,
+    "workedMinutes" INTEGER NOT NULL,
+    "dailyMinutes" INTEGER NOT NULL,
+    "weeklyMinutes" INTEGER NOT NULL,
+    "overtimeMinutes" INTEGER NOT NULL,
+    "multiplier" DECIMAL(4,2) NOT NULL,
+    "status" "OvertimeStatus" NOT NULL DEFAULT 'PENDING',
+    "approvedMinutes" INTEGER,
+    "reviewNote" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "overtime_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "overtime_records_employeeId_date_key" ON "overtime_records"("employeeId", "date");
+
+-- CreateIndex
+CREATE INDEX "overtime_records_tenantId_date_idx" ON "overtime_records"("tenantId", "date");
+
+-- CreateIndex
+CREATE INDEX "overtime_records_tenantId_status_idx" ON "overtime_records"("tenantId", "status");
+
+-- AddForeignKey
+ALTER TABLE "overtime_policies" ADD CONSTRAINT "overtime_policies_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "overtime_records" ADD CONSTRAINT "overtime_records_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "overtime_records" ADD CONSTRAINT "overtime_records_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- AlterEnum
+ALTER TYPE "PunchSource" ADD VALUE 'MANUAL';
+
+-- CreateEnum
+CREATE TYPE "AttendanceRevisionAction" AS ENUM ('CREATE', 'UPDATE', 'VOID');
+
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN "voidedAt" TIMESTAMP(3),
+ADD COLUMN "voidReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "attendance_revisions" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "attendanceId" UUID NOT NULL,
+    "employeeId" UUID NOT NULL,
+    "action" "AttendanceRevisionAction" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB NOT NULL,
+    "changedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_revisions_tenantId_idx" ON "attendance_revisions"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "attendance_revisions_attendanceId_idx" ON "attendance_revisions"("attendanceId");
+
+-- CreateIndex
+CREATE INDEX "attendance_revisions_employeeId_idx" ON "attendance_revisions"("employeeId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_revisions" ADD CONSTRAINT "attendance_revisions_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_revisions" ADD CONSTRAINT "attendance_revisions_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "attendances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_revisions" ADD CONSTRAINT "attendance_revisions_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Revisions are append-only; deletes only happen through cascades
+CREATE FUNCTION "attendance_revisions_immutable"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'attendance_revisions rows cannot be modified';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "attendance_revisions_no_update"
+BEFORE UPDATE ON "attendance_revisions"
+FOR EACH ROW EXECUTE FUNCTION "attendance_revisions_immutable"();
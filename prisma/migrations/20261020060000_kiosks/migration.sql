@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "PunchSource" ADD VALUE 'KIOSK';
+
+-- AlterTable
+ALTER TABLE "tenant_settings" ADD COLUMN "kioskAmbiguityMargin" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "attendance_punches" ADD COLUMN "kioskId" UUID;
+
+-- CreateTable
+CREATE TABLE "kiosks" (
+    "id" UUID NOT NULL,
+    "tenantId" UUID NOT NULL,
+    "locationId" UUID,
+    "name" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "lastSeenAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "kiosks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "kiosks_keyHash_key" ON "kiosks"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "kiosks_tenantId_idx" ON "kiosks"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_kioskId_fkey" FOREIGN KEY ("kioskId") REFERENCES "kiosks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kiosks" ADD CONSTRAINT "kiosks_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kiosks" ADD CONSTRAINT "kiosks_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "tenant_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "attendances" ADD COLUMN     "correctedAt" TIMESTAMP(3);
+
+-- Backfill sessions corrected before the column existed
+UPDATE "attendances" a
+SET "correctedAt" = r."lastCorrectedAt"
+FROM (
+    SELECT "attendanceId", MAX("createdAt") AS "lastCorrectedAt"
+    FROM "attendance_revisions"
+    WHERE "action" = 'UPDATE'
+    GROUP BY "attendanceId"
+) r
+WHERE r."attendanceId" = a."id";
@@ -0,0 +1,49 @@
+-- Revisions outlive the sessions and employees they describe
+ALTER TABLE "attendance_revisions" DROP CONSTRAINT "attendance_revisions_attendanceId_fkey";
+
+ALTER TABLE "attendance_revisions" DROP CONSTRAINT "attendance_revisions_employeeId_fkey";
+
+-- AlterTable
+ALTER TABLE "attendance_revisions" ALTER COLUMN "attendanceId" DROP NOT NULL,
+ALTER COLUMN "employeeId" DROP NOT NULL,
+ADD COLUMN     "employeeName" TEXT;
+
+-- Backfill the snapshots of existing revisions
+ALTER TABLE "attendance_revisions" DISABLE TRIGGER "attendance_revisions_no_update";
+
+UPDATE "attendance_revisions" r
+SET "employeeName" = e."name"
+FROM "employees" e
+WHERE e."id" = r."employeeId";
+
+UPDATE "attendance_revisions"
+SET "after" = "after" || jsonb_build_object('id', "attendanceId", 'employeeId', "employeeId"),
+    "before" = CASE
+        WHEN "before" IS NULL THEN NULL
+        ELSE "before" || jsonb_build_object('id', "attendanceId", 'employeeId', "employeeId")
+    END;
+
+ALTER TABLE "attendance_revisions" ENABLE TRIGGER "attendance_revisions_no_update";
+
+ALTER TABLE "attendance_revisions" ALTER COLUMN "employeeName" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "attendance_revisions" ADD CONSTRAINT "attendance_revisions_attendanceId_fkey" FOREIGN KEY ("attendanceId") REFERENCES "attendances"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_revisions" ADD CONSTRAINT "attendance_revisions_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Revisions stay append-only; the only change allowed is clearing a
+-- reference when its session or employee is deleted
+CREATE OR REPLACE FUNCTION "attendance_revisions_immutable"() RETURNS trigger AS $$
+BEGIN
+    IF (NEW."attendanceId" IS NULL OR NEW."attendanceId" = OLD."attendanceId")
+        AND (NEW."employeeId" IS NULL OR NEW."employeeId" = OLD."employeeId")
+        AND (to_jsonb(NEW) - 'attendanceId' - 'employeeId')
+            = (to_jsonb(OLD) - 'attendanceId' - 'employeeId') THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'attendance_revisions rows cannot be modified';
+END;
+$$ LANGUAGE plpgsql;
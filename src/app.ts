@@ -10,6 +10,13 @@ import { logger } from './utils/logger';
 import tenantRoutes from './modules/tenants/tenant.routes';
 import employeeRoutes from './modules/employees/employee.routes';
 import attendanceRoutes from './modules/attendance/attendance.routes';
+import shiftRoutes from './modules/shifts/shift.routes';
+import securityRoutes from './modules/security/security.routes';
+import regularizationRoutes from './modules/regularizations/regularization.routes';
+import leaveRoutes from './modules/leaves/leave.routes';
+import overtimeRoutes from './modules/overtime/overtime.routes';
+import payrollRoutes from './modules/payroll/payroll.routes';
+import kioskRoutes from './modules/kiosks/kiosk.routes';
 
 export const createApp = (): Application => {
   const app = express();
@@ -23,7 +30,7 @@ export const createApp = (): Application => {
       origin: config.cors.origin,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Kiosk-Key'],
     })
   );
 
@@ -56,6 +63,13 @@ export const createApp = (): Application => {
   app.use('/api/tenants', tenantRoutes);
   app.use('/api/employees', employeeRoutes);
   app.use('/api/attendance', attendanceRoutes);
+  app.use('/api/shifts', shiftRoutes);
+  app.use('/api/security', securityRoutes);
+  app.use('/api/regularizations', regularizationRoutes);
+  app.use('/api/leaves', leaveRoutes);
+  app.use('/api/overtime', overtimeRoutes);
+  app.use('/api/payroll', payrollRoutes);
+  app.use('/api/kiosks', kioskRoutes);
 
   // 404 handler
   app.use(notFoundHandler);
@@ -17,6 +17,10 @@ export const config = {
     accessExpiry: process.env.JWT_ACCESS_EXPIRY || '15m',
     refreshExpiry: process.env.JWT_REFRESH_EXPIRY || '7d',
     locationExpiry: process.env.JWT_LOCATION_EXPIRY || '5m',
+    locationTokenCleanupIntervalMs: parseInt(
+      process.env.LOCATION_TOKEN_CLEANUP_INTERVAL_MS || '600000',
+      10
+    ),
   },
   aws: {
     region: process.env.AWS_REGION || 'us-east-1',
@@ -29,11 +33,30 @@ export const config = {
       process.env.REKOGNITION_SIMILARITY_THRESHOLD || '85.0'
     ),
   },
+  embedding: {
+    metric: (process.env.EMBEDDING_METRIC || 'COSINE') as
+      | 'COSINE'
+      | 'EUCLIDEAN',
+    // Empty means the metric's default (see utils/embedding)
+    threshold: process.env.EMBEDDING_MATCH_THRESHOLD
+      ? parseFloat(process.env.EMBEDDING_MATCH_THRESHOLD)
+      : null,
+  },
   geoLocation: {
     allowedCheckInRadius: parseInt(
       process.env.ALLOWED_CHECKIN_RADIUS || '100',
       10
     ), // in meters
+    // ON_SITE_ONLY, FIELD_ONLY or ANYWHERE; tenants and employees can override
+    geofenceMode: (process.env.GEOFENCE_MODE || 'FIELD_ONLY') as
+      | 'ON_SITE_ONLY'
+      | 'FIELD_ONLY'
+      | 'ANYWHERE',
+    maxTravelSpeedKmh: parseFloat(process.env.MAX_TRAVEL_SPEED_KMH || '300'),
+    maxFixAgeSeconds: parseInt(
+      process.env.MAX_LOCATION_FIX_AGE_SECONDS || '120',
+      10
+    ),
   },
   security: {
     bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
@@ -46,6 +69,39 @@ export const config = {
       10
     ),
   },
+  faceVerification: {
+    // Forces one provider for every tenant; empty picks per tenant
+    provider: (process.env.FACE_VERIFIER || null) as
+      | 'REKOGNITION'
+      | 'LOCAL'
+      | 'FAKE'
+      | null,
+  },
+  liveness: {
+    required: process.env.LIVENESS_REQUIRED === 'true',
+    challengeTtlSeconds: parseInt(
+      process.env.LIVENESS_CHALLENGE_TTL_SECONDS || '120',
+      10
+    ),
+    promptCount: parseInt(process.env.LIVENESS_PROMPT_COUNT || '2', 10),
+  },
+  attendance: {
+    // How long an open session stays current, e.g. for overnight shifts
+    maxSessionHours: parseInt(process.env.MAX_SESSION_HOURS || '16', 10),
+  },
+  offline: {
+    // Tenants can override with the allowOfflinePunches setting
+    enabled: process.env.OFFLINE_PUNCHES_ENABLED === 'true',
+    maxAgeHours: parseInt(process.env.OFFLINE_PUNCH_MAX_AGE_HOURS || '72', 10),
+    maxBatchSize: parseInt(process.env.OFFLINE_SYNC_MAX_BATCH || '50', 10),
+  },
+  kiosk: {
+    // Tenants can override with the kioskAmbiguityMargin setting
+    ambiguityMargin: parseFloat(process.env.KIOSK_AMBIGUITY_MARGIN || '5'),
+  },
+  tenant: {
+    defaultTimezone: process.env.DEFAULT_TIMEZONE || 'Asia/Kolkata',
+  },
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:3001',
   },
@@ -72,4 +128,37 @@ export const validateConfig = () => {
       `Missing required environment variables: ${missing.join(', ')}`
     );
   }
+
+  if (
+    !['ON_SITE_ONLY', 'FIELD_ONLY', 'ANYWHERE'].includes(
+      config.geoLocation.geofenceMode
+    )
+  ) {
+    throw new Error(
+      'GEOFENCE_MODE must be one of ON_SITE_ONLY, FIELD_ONLY, ANYWHERE'
+    );
+  }
+
+  const { provider } = config.faceVerification;
+
+  if (provider && !['REKOGNITION', 'LOCAL', 'FAKE'].includes(provider)) {
+    throw new Error('FACE_VERIFIER must be one of REKOGNITION, LOCAL, FAKE');
+  }
+
+  if (provider === 'FAKE' && config.server.nodeEnv === 'production') {
+    throw new Error('FACE_VERIFIER=FAKE is not allowed in production');
+  }
+
+  // LIVENESS_REQUIRED applies to every tenant, and FREE tenants default to
+  // the local verifier, which cannot pass liveness checks
+  if (
+    config.liveness.required &&
+    provider !== 'REKOGNITION' &&
+    provider !== 'FAKE'
+  ) {
+    throw new Error(
+      'LIVENESS_REQUIRED=true needs FACE_VERIFIER=REKOGNITION (or FAKE ' +
+        'outside production)'
+    );
+  }
 };
@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AppError } from './error.middleware';
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png'];
+
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5 MB
+    files: 1,
+  },
+  fileFilter: (_req, file, callback) => {
+    callback(null, IMAGE_TYPES.includes(file.mimetype));
+  },
+});
+
+/**
+ * Accept a single JPEG or PNG image in a multipart field
+ * Other files are dropped, leaving req.file unset
+ */
+export const uploadImage =
+  (field: string) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    imageUpload.single(field)(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        next(new AppError(error.message, 400));
+        return;
+      }
+      next(error);
+    });
+  };
@@ -1,8 +1,96 @@
 import { Request, Response } from 'express';
-import { AttendanceService } from './attendance.service';
+import type { AttendanceStatus } from '@prisma/client';
+import {
+  AttendanceService,
+  type AttendanceReportRow,
+  type ReportStatus,
+} from './attendance.service';
+import { LivenessService } from './liveness.service';
+import {
+  AttendanceSummaryService,
+  type EmployeeAttendanceSummary,
+} from './attendanceSummary.service';
 import { logger } from '../../utils/logger';
+import { formatInZone } from '../../utils/timezone';
+import {
+  resolveExportFormat,
+  streamExport,
+  toLocalCell,
+  type ExportColumn,
+} from '../../utils/tableExport';
+import type { RequestContext } from '../security/securityEvent.service';
 
 const attendanceService = new AttendanceService();
+const livenessService = new LivenessService();
+const attendanceSummaryService = new AttendanceSummaryService();
+
+/**
+ * Client details recorded with security events
+ */
+const getRequestContext = (req: Request): RequestContext => ({
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+/**
+ * Spreadsheet columns of an exported attendance report
+ */
+const getReportColumns = (
+  timeZone: string
+): ExportColumn<AttendanceReportRow>[] => [
+  { header: 'Date', value: (row) => row.date },
+  { header: 'Employee ID', value: (row) => row.employeeId, width: 38 },
+  { header: 'Employee Name', value: (row) => row.employeeName, width: 24 },
+  { header: 'Status', value: (row) => row.status },
+  {
+    header: 'Check-In',
+    value: (row) => toLocalCell(row.checkInTime, timeZone),
+    width: 20,
+  },
+  {
+    header: 'Check-Out',
+    value: (row) => toLocalCell(row.checkOutTime, timeZone),
+    width: 20,
+  },
+  { header: 'Worked Minutes', value: (row) => row.workedMinutes },
+  { header: 'Break Minutes', value: (row) => row.breakMinutes },
+  { header: 'Early Departure', value: (row) => row.isEarlyDeparture },
+  { header: 'Source', value: (row) => row.source },
+  {
+    header: 'Corrected At',
+    value: (row) => toLocalCell(row.correctedAt, timeZone),
+    width: 20,
+  },
+  { header: 'Location', value: (row) => row.locationName, width: 24 },
+  { header: 'Match Confidence', value: (row) => row.matchConfidence },
+  { header: 'Leave Type', value: (row) => row.leaveType, width: 20 },
+  { header: 'Half Day', value: (row) => row.halfDay },
+  { header: 'Overtime Minutes', value: (row) => row.overtimeMinutes },
+  {
+    header: 'Approved Overtime Minutes',
+    value: (row) => row.approvedOvertimeMinutes,
+  },
+  { header: 'Overtime Status', value: (row) => row.overtimeStatus },
+];
+
+/**
+ * Spreadsheet columns of an exported attendance summary
+ */
+const SUMMARY_COLUMNS: ExportColumn<EmployeeAttendanceSummary>[] = [
+  { header: 'Employee ID', value: (row) => row.employeeId, width: 38 },
+  { header: 'Employee Name', value: (row) => row.employeeName, width: 24 },
+  { header: 'Working Days', value: (row) => row.workingDays },
+  { header: 'Present Days', value: (row) => row.presentDays },
+  { header: 'Absent Days', value: (row) => row.absentDays },
+  { header: 'Late Days', value: (row) => row.lateDays },
+  { header: 'Half Days', value: (row) => row.halfDays },
+  { header: 'Leave Days', value: (row) => row.leaveDays },
+  { header: 'Unpaid Leave Days', value: (row) => row.unpaidLeaveDays },
+  { header: 'Holidays', value: (row) => row.holidays },
+  { header: 'Weekly Offs', value: (row) => row.weeklyOffs },
+  { header: 'Worked Hours', value: (row) => row.workedHours },
+  { header: 'Overtime Minutes', value: (row) => row.overtimeMinutes },
+];
 
 export class AttendanceController {
   /**
@@ -10,12 +98,25 @@ export class AttendanceController {
    */
   async checkLocation(req: Request, res: Response): Promise<void> {
     try {
-      const { employeeId, latitude, longitude } = req.body;
+      const {
+        employeeId,
+        latitude,
+        longitude,
+        accuracy,
+        altitude,
+        isMocked,
+        fixTimestamp,
+      } = req.body;
 
       const result = await attendanceService.checkEmployeeLocation({
         employeeId,
         latitude,
         longitude,
+        accuracy,
+        altitude,
+        isMocked,
+        fixTimestamp,
+        context: getRequestContext(req),
       });
 
       res.status(200).json(result);
@@ -28,18 +129,80 @@ export class AttendanceController {
     }
   }
 
+  /**
+   * Issue a liveness challenge (requires location token)
+   */
+  async createLivenessChallenge(req: Request, res: Response): Promise<void> {
+    try {
+      const { employeeId, locationToken } = req.body;
+
+      const challenge = await livenessService.createChallenge({
+        employeeId,
+        locationToken,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Liveness challenge issued',
+        data: challenge,
+      });
+    } catch (error: any) {
+      logger.error('Error in liveness challenge controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create liveness challenge',
+      });
+    }
+  }
+
+  /**
+   * Upload a liveness frame for a pending challenge
+   */
+  async uploadLivenessFrame(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.file) {
+        res.status(400).json({
+          success: false,
+          message: 'A JPEG or PNG photo is required',
+        });
+        return;
+      }
+
+      const frame = await livenessService.uploadFrame({
+        challengeId: req.params.challengeId,
+        nonce: req.body.nonce,
+        file: req.file,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Liveness frame uploaded',
+        data: frame,
+      });
+    } catch (error: any) {
+      logger.error('Error in liveness frame controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to upload liveness frame',
+      });
+    }
+  }
+
   /**
    * Process attendance check-in
    */
   async checkIn(req: Request, res: Response): Promise<void> {
     try {
-      const { employeeId, photoUrl, embedding, locationToken } = req.body;
+      const { employeeId, photoUrl, embedding, locationToken, liveness } =
+        req.body;
 
-      const attendance = await attendanceService.checkIn({
+      const { attendance, punch, timezone } = await attendanceService.checkIn({
         employeeId,
         photoUrl,
         embedding,
         locationToken,
+        liveness,
+        context: getRequestContext(req),
       });
 
       res.status(201).json({
@@ -47,8 +210,14 @@ export class AttendanceController {
         message: 'Check-in successful',
         data: {
           attendanceId: attendance.id,
+          punchId: punch.id,
           checkInTime: attendance.checkInTime,
-          matchConfidence: attendance.matchConfidence,
+          checkInTimeLocal: formatInZone(attendance.checkInTime, timezone),
+          punchTime: punch.punchTime,
+          punchTimeLocal: formatInZone(punch.punchTime, timezone),
+          matchConfidence: punch.matchConfidence,
+          livenessPassed: attendance.livenessPassed,
+          livenessScore: attendance.livenessScore,
         },
       });
     } catch (error: any) {
@@ -60,6 +229,148 @@ export class AttendanceController {
     }
   }
 
+  /**
+   * Process attendance check-out
+   */
+  async checkOut(req: Request, res: Response): Promise<void> {
+    try {
+      const { employeeId, photoUrl, embedding, locationToken } = req.body;
+
+      const { attendance, punch, timezone } = await attendanceService.checkOut({
+        employeeId,
+        photoUrl,
+        embedding,
+        locationToken,
+        context: getRequestContext(req),
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Check-out successful',
+        data: {
+          attendanceId: attendance.id,
+          punchId: punch.id,
+          checkInTime: attendance.checkInTime,
+          checkInTimeLocal: formatInZone(attendance.checkInTime, timezone),
+          checkOutTime: attendance.checkOutTime,
+          checkOutTimeLocal: formatInZone(punch.punchTime, timezone),
+          workedMinutes: attendance.workedMinutes,
+          breakMinutes: attendance.breakMinutes,
+        },
+      });
+    } catch (error: any) {
+      logger.error('Error in check-out controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Check-out failed',
+      });
+    }
+  }
+
+  /**
+   * Start a break
+   */
+  async startBreak(req: Request, res: Response): Promise<void> {
+    try {
+      const { employeeId, photoUrl, embedding, locationToken } = req.body;
+
+      const { attendance, punch, timezone } = await attendanceService.recordPunch(
+        'BREAK_START',
+        {
+          employeeId,
+          photoUrl,
+          embedding,
+          locationToken,
+          context: getRequestContext(req),
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Break started',
+        data: {
+          attendanceId: attendance.id,
+          punchId: punch.id,
+          punchTime: punch.punchTime,
+          punchTimeLocal: formatInZone(punch.punchTime, timezone),
+        },
+      });
+    } catch (error: any) {
+      logger.error('Error in break start controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to start break',
+      });
+    }
+  }
+
+  /**
+   * End a break
+   */
+  async endBreak(req: Request, res: Response): Promise<void> {
+    try {
+      const { employeeId, photoUrl, embedding, locationToken } = req.body;
+
+      const { attendance, punch, timezone } = await attendanceService.recordPunch(
+        'BREAK_END',
+        {
+          employeeId,
+          photoUrl,
+          embedding,
+          locationToken,
+          context: getRequestContext(req),
+        }
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Break ended',
+        data: {
+          attendanceId: attendance.id,
+          punchId: punch.id,
+          punchTime: punch.punchTime,
+          punchTimeLocal: formatInZone(punch.punchTime, timezone),
+          breakMinutes: attendance.breakMinutes,
+        },
+      });
+    } catch (error: any) {
+      logger.error('Error in break end controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to end break',
+      });
+    }
+  }
+
+  /**
+   * Sync punches captured offline (requires device signature)
+   * Responds 200 with a result per punch; rejected punches do not fail the batch
+   */
+  async syncOfflinePunches(req: Request, res: Response): Promise<void> {
+    try {
+      const { employeeId, deviceId, punches } = req.body;
+
+      const result = await attendanceService.syncOfflinePunches({
+        employeeId,
+        deviceId,
+        punches,
+        context: getRequestContext(req),
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Offline punches synced',
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in offline sync controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to sync offline punches',
+      });
+    }
+  }
+
   /**
    * Get attendance records for an employee
    */
@@ -74,15 +385,16 @@ export class AttendanceController {
       }
 
       const { employeeId } = req.params;
-      const { startDate, endDate, page, limit } = req.query;
+      const { startDate, endDate, page, limit, status } = req.query;
 
       const result = await attendanceService.getEmployeeAttendance(
         employeeId,
         req.tenant.tenantId,
-        startDate ? new Date(startDate as string) : undefined,
-        endDate ? new Date(endDate as string) : undefined,
+        startDate as string | undefined,
+        endDate as string | undefined,
         page ? parseInt(page as string) : 1,
-        limit ? parseInt(limit as string) : 10
+        limit ? parseInt(limit as string) : 10,
+        status as AttendanceStatus | undefined
       );
 
       res.status(200).json({
@@ -111,7 +423,7 @@ export class AttendanceController {
         return;
       }
 
-      const { startDate, endDate, employeeId } = req.query;
+      const { startDate, endDate, employeeId, status } = req.query;
 
       if (!startDate || !endDate) {
         res.status(400).json({
@@ -121,11 +433,39 @@ export class AttendanceController {
         return;
       }
 
-      const attendances = await attendanceService.getAttendanceReport(
+      const format = resolveExportFormat(req);
+      if (format !== 'json') {
+        const { timezone, rows } =
+          await attendanceService.exportAttendanceReport(
+            req.tenant.tenantId,
+            startDate as string,
+            endDate as string,
+            employeeId as string,
+            status as ReportStatus | undefined
+          );
+
+        await streamExport(
+          res,
+          format,
+          `attendance-report-${startDate}-${endDate}`,
+          getReportColumns(timezone),
+          rows
+        );
+        return;
+      }
+
+      const {
+        timezone,
+        attendances,
+        leaveDays,
+        overtimeDays,
+        nonWorkingDays,
+      } = await attendanceService.getAttendanceReport(
         req.tenant.tenantId,
-        new Date(startDate as string),
-        new Date(endDate as string),
-        employeeId as string
+        startDate as string,
+        endDate as string,
+        employeeId as string,
+        status as ReportStatus | undefined
       );
 
       res.status(200).json({
@@ -133,8 +473,37 @@ export class AttendanceController {
         data: {
           startDate,
           endDate,
+          timezone,
           totalRecords: attendances.length,
+          totalManualRecords: attendances.filter(
+            (attendance) => attendance.source === 'MANUAL'
+          ).length,
+          totalCorrectedRecords: attendances.filter(
+            (attendance) => attendance.correctedAt !== null
+          ).length,
+          totalWorkedMinutes: attendances.reduce(
+            (sum, attendance) => sum + (attendance.workedMinutes || 0),
+            0
+          ),
+          totalBreakMinutes: attendances.reduce(
+            (sum, attendance) => sum + attendance.breakMinutes,
+            0
+          ),
+          totalLeaveDays: leaveDays.reduce(
+            (sum, leaveDay) => sum + (leaveDay.halfDay ? 0.5 : 1),
+            0
+          ),
+          totalApprovedOvertimeMinutes: overtimeDays.reduce(
+            (sum, overtimeDay) => sum + (overtimeDay.approvedMinutes ?? 0),
+            0
+          ),
+          totalHolidays: nonWorkingDays.filter(
+            (day) => day.reason === 'HOLIDAY'
+          ).length,
           attendances,
+          leaveDays,
+          overtimeDays,
+          nonWorkingDays,
         },
       });
     } catch (error: any) {
@@ -145,4 +514,67 @@ export class AttendanceController {
       });
     }
   }
+
+  /**
+   * Get per-employee attendance day counts for a period
+   */
+  async getAttendanceSummary(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { month, startDate, endDate, employeeId, page, limit } = req.query;
+
+      const format = resolveExportFormat(req);
+      if (format !== 'json') {
+        const summaryExport = await attendanceSummaryService.exportSummary(
+          req.tenant.tenantId,
+          {
+            month: month as string | undefined,
+            startDate: startDate as string | undefined,
+            endDate: endDate as string | undefined,
+            employeeId: employeeId as string | undefined,
+          }
+        );
+
+        const { startDate: from, endDate: to, rows } = summaryExport;
+        await streamExport(
+          res,
+          format,
+          `attendance-summary-${from}-${to}`,
+          SUMMARY_COLUMNS,
+          rows
+        );
+        return;
+      }
+
+      const summary = await attendanceSummaryService.getSummary(
+        req.tenant.tenantId,
+        {
+          month: month as string | undefined,
+          startDate: startDate as string | undefined,
+          endDate: endDate as string | undefined,
+          employeeId: employeeId as string | undefined,
+          page: page ? parseInt(page as string) : undefined,
+          limit: limit ? parseInt(limit as string) : undefined,
+        }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error: any) {
+      logger.error('Error in attendance summary controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to generate attendance summary',
+      });
+    }
+  }
 }
@@ -1,16 +1,40 @@
 import { Router } from 'express';
 import { AttendanceController } from './attendance.controller';
+import {
+  AttendanceAnalyticsController,
+} from './attendanceAnalytics.controller';
+import { AttendanceEntryController } from './attendanceEntry.controller';
 import { validate } from '../../middlewares/validate.middleware';
 import {
   locationCheckSchema,
+  livenessChallengeSchema,
+  livenessFrameSchema,
   checkInSchema,
+  checkOutSchema,
+  breakSchema,
+  offlineSyncSchema,
   getAttendanceSchema,
   getAttendanceReportSchema,
+  getAttendanceSummarySchema,
 } from './attendance.validation';
+import {
+  getAnalyticsSchema,
+  getTopLateEmployeesSchema,
+  getMatchConfidenceSchema,
+} from './attendanceAnalytics.validation';
+import {
+  createEntrySchema,
+  getEntrySchema,
+  correctEntrySchema,
+  voidEntrySchema,
+} from './attendanceEntry.validation';
 import { authenticateTenant } from '../../middlewares/auth.middleware';
+import { uploadImage } from '../../middlewares/upload.middleware';
 
 const router = Router();
 const attendanceController = new AttendanceController();
+const analyticsController = new AttendanceAnalyticsController();
+const entryController = new AttendanceEntryController();
 
 /**
  * @route   POST /api/attendance/location-check
@@ -23,6 +47,29 @@ router.post(
   attendanceController.checkLocation.bind(attendanceController)
 );
 
+/**
+ * @route   POST /api/attendance/liveness/challenge
+ * @desc    Issue head-pose/blink prompts to complete before check-in
+ * @access  Public (requires location token)
+ */
+router.post(
+  '/liveness/challenge',
+  validate(livenessChallengeSchema),
+  attendanceController.createLivenessChallenge.bind(attendanceController)
+);
+
+/**
+ * @route   POST /api/attendance/liveness/challenge/:challengeId/frames
+ * @desc    Upload a frame (multipart "photo") for a pending challenge
+ * @access  Public (requires challenge nonce)
+ */
+router.post(
+  '/liveness/challenge/:challengeId/frames',
+  uploadImage('photo'),
+  validate(livenessFrameSchema),
+  attendanceController.uploadLivenessFrame.bind(attendanceController)
+);
+
 /**
  * @route   POST /api/attendance/check-in
  * @desc    Process attendance check-in
@@ -34,6 +81,50 @@ router.post(
   attendanceController.checkIn.bind(attendanceController)
 );
 
+/**
+ * @route   POST /api/attendance/check-out
+ * @desc    Process attendance check-out
+ * @access  Public (requires location token)
+ */
+router.post(
+  '/check-out',
+  validate(checkOutSchema),
+  attendanceController.checkOut.bind(attendanceController)
+);
+
+/**
+ * @route   POST /api/attendance/break-start
+ * @desc    Start a break within today's attendance session
+ * @access  Public (requires location token)
+ */
+router.post(
+  '/break-start',
+  validate(breakSchema),
+  attendanceController.startBreak.bind(attendanceController)
+);
+
+/**
+ * @route   POST /api/attendance/break-end
+ * @desc    End the current break
+ * @access  Public (requires location token)
+ */
+router.post(
+  '/break-end',
+  validate(breakSchema),
+  attendanceController.endBreak.bind(attendanceController)
+);
+
+/**
+ * @route   POST /api/attendance/offline-sync
+ * @desc    Sync punches captured offline, signed by an enrolled device
+ * @access  Public (requires device signature)
+ */
+router.post(
+  '/offline-sync',
+  validate(offlineSyncSchema),
+  attendanceController.syncOfflinePunches.bind(attendanceController)
+);
+
 /**
  * @route   GET /api/attendance/employee/:employeeId
  * @desc    Get attendance records for an employee
@@ -58,4 +149,124 @@ router.get(
   attendanceController.getAttendanceReport.bind(attendanceController)
 );
 
+/**
+ * @route   GET /api/attendance/summary
+ * @desc    Get per-employee attendance day counts for a period
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/summary',
+  authenticateTenant,
+  validate(getAttendanceSummarySchema),
+  attendanceController.getAttendanceSummary.bind(attendanceController)
+);
+
+/**
+ * @route   GET /api/attendance/analytics/headcount
+ * @desc    Daily headcount present, grouped by day, week or month
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/analytics/headcount',
+  authenticateTenant,
+  validate(getAnalyticsSchema),
+  analyticsController.getHeadcount.bind(analyticsController)
+);
+
+/**
+ * @route   GET /api/attendance/analytics/punctuality
+ * @desc    Share of first arrivals on time, grouped by day, week or month
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/analytics/punctuality',
+  authenticateTenant,
+  validate(getAnalyticsSchema),
+  analyticsController.getPunctuality.bind(analyticsController)
+);
+
+/**
+ * @route   GET /api/attendance/analytics/arrival-times
+ * @desc    Average local arrival time, grouped by day, week or month
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/analytics/arrival-times',
+  authenticateTenant,
+  validate(getAnalyticsSchema),
+  analyticsController.getArrivalTimes.bind(analyticsController)
+);
+
+/**
+ * @route   GET /api/attendance/analytics/late-employees
+ * @desc    Employees with the most late or half-day arrivals
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/analytics/late-employees',
+  authenticateTenant,
+  validate(getTopLateEmployeesSchema),
+  analyticsController.getTopLateEmployees.bind(analyticsController)
+);
+
+/**
+ * @route   GET /api/attendance/analytics/match-confidence
+ * @desc    Distribution of check-in face-match confidence
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/analytics/match-confidence',
+  authenticateTenant,
+  validate(getMatchConfidenceSchema),
+  analyticsController.getMatchConfidence.bind(analyticsController)
+);
+
+/**
+ * @route   POST /api/attendance/entries
+ * @desc    Create a manual attendance entry for an employee
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/entries',
+  authenticateTenant,
+  validate(createEntrySchema),
+  entryController.createEntry.bind(entryController)
+);
+
+/**
+ * @route   GET /api/attendance/entries/:attendanceId
+ * @desc    Get an attendance entry, voided or not, with its revision history
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/entries/:attendanceId',
+  authenticateTenant,
+  validate(getEntrySchema),
+  entryController.getEntry.bind(entryController)
+);
+
+/**
+ * @route   PATCH /api/attendance/entries/:attendanceId
+ * @desc    Correct the check-in and/or check-out of an attendance entry
+ * @access  Private (Tenant)
+ */
+router.patch(
+  '/entries/:attendanceId',
+  authenticateTenant,
+  validate(correctEntrySchema),
+  entryController.correctEntry.bind(entryController)
+);
+
+/**
+ * @route   POST /api/attendance/entries/:attendanceId/void
+ * @desc    Void an attendance entry, leaving it out of reports and payroll
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/entries/:attendanceId/void',
+  authenticateTenant,
+  validate(voidEntrySchema),
+  entryController.voidEntry.bind(entryController)
+);
+
 export default router;
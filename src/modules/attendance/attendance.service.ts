@@ -1,20 +1,101 @@
-import type { Attendance } from "@prisma/client";
+import {
+  Prisma,
+  type Attendance,
+  type AttendancePunch,
+  type AttendanceRegularization,
+  type AttendanceStatus,
+  type Employee,
+  type EmployeeDevice,
+  type GeofenceMode,
+  type Kiosk,
+  type OvertimeStatus,
+  type PunchSource,
+  type PunchType,
+  type Shift,
+  type Tenant,
+  type TenantLocation,
+} from "@prisma/client";
 import prisma from '../../config/database';
+import { config } from '../../config';
 import { AppError } from '../../middlewares/error.middleware';
 import { logger } from '../../utils/logger';
 import { EmployeeService } from '../employees/employee.service';
-import { isWithinRadius, validateCoordinates } from '../../utils/geoLocation';
-import { config } from '../../config';
-import { generateLocationToken, verifyLocationToken } from '../../utils/jwt';
-import { compareFaces } from '../../utils/rekognition';
+import { TenantLocationService } from '../tenants/tenantLocation.service';
+import { LivenessService, type LivenessInput } from './liveness.service';
+import { LocationTokenService } from './locationToken.service';
+import {
+  SecurityEventService,
+  type RequestContext,
+} from '../security/securityEvent.service';
+import { LocationCheckService } from '../security/locationCheck.service';
+import { LeaveService, type LeaveDay } from '../leaves/leave.service';
+import {
+  OvertimeService,
+  type OvertimeDay,
+} from '../overtime/overtime.service';
+import {
+  TenantSettingsService,
+  type TenantSettingsValues,
+} from '../tenants/tenantSettings.service';
+import {
+  TenantCalendarService,
+  type NonWorkingDay,
+} from '../tenants/tenantCalendar.service';
+import {
+  calculateDistance,
+  validateCoordinates,
+} from '../../utils/geoLocation';
+import { evaluateLocationRules } from '../../utils/locationRules';
+import {
+  buildGeofence,
+  distanceToGeofence,
+  isWithinGeofence,
+  type Geofence,
+} from '../../utils/geofence';
+import { getGeofenceOutcome } from '../../utils/geofenceMode';
+import {
+  generateLocationToken,
+  verifyLocationToken,
+  type LocationTokenClaims,
+} from '../../utils/jwt';
 import { isValidEmbedding } from '../../utils/validators';
+import {
+  buildSignedPunchMessage,
+  verifyDeviceSignature,
+} from '../../utils/deviceSignature';
+import {
+  resolveFaceVerifier,
+  type FaceVerifier,
+} from '../../utils/faceVerifier';
+import { classifyCheckIn, isEarlyDeparture } from '../../utils/shiftTiming';
+import {
+  addDaysInZone,
+  parseDateBoundary,
+  startOfDayInZone,
+  toLocalDateString,
+  withLocalTimestamps,
+} from '../../utils/timezone';
 
 const employeeService = new EmployeeService();
+const tenantLocationService = new TenantLocationService();
+const tenantSettingsService = new TenantSettingsService();
+const livenessService = new LivenessService();
+const locationTokenService = new LocationTokenService();
+const securityEventService = new SecurityEventService();
+const locationCheckService = new LocationCheckService();
+const leaveService = new LeaveService();
+const overtimeService = new OvertimeService();
+const tenantCalendarService = new TenantCalendarService();
 
 export interface LocationCheckInput {
   employeeId: string;
   latitude: number;
   longitude: number;
+  accuracy?: number; // Meters
+  altitude?: number; // Meters
+  isMocked?: boolean; // Device reports a mock location provider
+  fixTimestamp?: string; // ISO 8601 time of the GPS fix
+  context?: RequestContext;
 }
 
 export interface LocationCheckResponse {
@@ -22,21 +103,302 @@ export interface LocationCheckResponse {
   tenantId?: string;
   tenantName?: string;
   address?: string;
+  geofenceMode?: GeofenceMode;
+  locationId?: string | null;
+  locationName?: string;
   locationToken?: string;
   message: string;
 }
 
-export interface CheckInInput {
+/**
+ * A site an employee may check in against
+ * id is null for the tenant's registered address
+ */
+interface CheckInSite {
+  id: string | null;
+  name: string;
+  address: string;
+  latitude: number; // Centre, distances are measured from here
+  longitude: number;
+  geofence: Geofence;
+}
+
+interface EvaluatedSite {
+  site: CheckInSite;
+  isWithin: boolean;
+  distance: number; // Meters to the geofence, 0 inside
+}
+
+export interface PunchInput {
   employeeId: string;
   photoUrl: string;
   embedding: number[];
   locationToken: string;
+  liveness?: LivenessInput; // Completed challenge, checked on IN punches
+  context?: RequestContext;
+}
+
+export type CheckInInput = PunchInput;
+
+export type CheckOutInput = PunchInput;
+
+/**
+ * Punch of an employee identified on a shared kiosk
+ */
+export interface KioskPunchInput {
+  kiosk: Kiosk & { location: TenantLocation | null };
+  employee: Employee;
+  tenant: Tenant;
+  settings: TenantSettingsValues;
+  photoUrl: string;
+  embedding: number[];
+}
+
+/**
+ * Punch captured on a device without connectivity, signed with its enrolled key
+ */
+export interface OfflinePunchInput {
+  clientPunchId: string;
+  type: PunchType;
+  capturedAt: string; // ISO 8601, signed as sent
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  isMocked?: boolean;
+  photoUrl: string;
+  embedding: number[];
+  signature: string; // Base64
+}
+
+export interface OfflineSyncInput {
+  employeeId: string;
+  deviceId: string;
+  punches: OfflinePunchInput[];
+  context?: RequestContext;
+}
+
+export interface OfflinePunchResult {
+  clientPunchId: string;
+  status: 'ACCEPTED' | 'DUPLICATE' | 'REJECTED';
+  punchId?: string;
+  attendanceId?: string;
+  reason?: string;
+}
+
+export interface OfflineSyncResult {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  results: OfflinePunchResult[];
+}
+
+export interface AttendanceWithPunches extends Attendance {
+  punches: AttendancePunch[];
+}
+
+export interface LocalAttendance extends AttendanceWithPunches {
+  checkInTimeLocal: string | null;
+  checkOutTimeLocal: string | null;
+  correctedAtLocal: string | null;
+  punches: (AttendancePunch & { punchTimeLocal: string | null })[];
+}
+
+/**
+ * Report status filter: a session status, LEAVE for approved leave days or
+ * OVERTIME for overtime records
+ */
+export type ReportStatus = AttendanceStatus | 'LEAVE' | 'OVERTIME';
+
+/**
+ * One row of an exported attendance report: a session, a day of leave or a
+ * day of overtime
+ */
+export interface AttendanceReportRow {
+  date: string; // YYYY-MM-DD, tenant-local
+  employeeId: string;
+  employeeName: string;
+  status: ReportStatus | null;
+  checkInTime: Date | null;
+  checkOutTime: Date | null;
+  workedMinutes: number | null;
+  breakMinutes: number | null;
+  isEarlyDeparture: boolean | null;
+  source: PunchSource | null;
+  correctedAt: Date | null; // Last admin correction of the session
+  locationName: string | null;
+  matchConfidence: number | null;
+  leaveType: string | null;
+  halfDay: boolean | null;
+  overtimeMinutes: number | null;
+  approvedOvertimeMinutes: number | null;
+  overtimeStatus: OvertimeStatus | null;
+}
+
+export interface AttendanceReportExport {
+  timezone: string;
+  rows: AsyncIterable<AttendanceReportRow[]>;
+}
+
+// Sessions read per query when exporting a report
+const REPORT_EXPORT_BATCH_SIZE = 500;
+
+export interface PunchResult {
+  attendance: Attendance;
+  punch: AttendancePunch;
+  timezone: string;
+}
+
+/**
+ * Where a punch was made, stored on the punch and on a new session
+ */
+interface PunchPosition {
+  latitude: number;
+  longitude: number;
+  distanceMeters: number | null;
+  locationId: string | null;
+  locationTokenIssuedAt: Date | null; // Null for offline and kiosk punches
+}
+
+/**
+ * A verified punch ready to be written to a session
+ */
+interface NewPunch {
+  employee: Employee;
+  tenant: Tenant;
+  shift: Shift | null;
+  type: PunchType;
+  punchTime: Date;
+  photoUrl: string;
+  embedding: number[];
+  matchConfidence: number;
+  position: PunchPosition;
+  source: PunchSource;
+  liveness?: { passed: boolean; score: number } | null;
+  device?: { deviceId: string; clientPunchId: string; syncedAt: Date };
+  kioskId?: string;
 }
 
+/**
+ * Rejection of a single offline punch; the rest of the batch continues
+ */
+class OfflinePunchRejection extends Error {}
+
+const CONCURRENT_PUNCH_MESSAGE =
+  'Another punch was recorded at the same time, please retry';
+
+/**
+ * Check if an error is a conflict between concurrent transactions
+ */
+const isConcurrentWriteError = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === 'P2034';
+
+/**
+ * Add tenant-local timestamps to an attendance record and its punches
+ */
+const toLocalAttendance = <T extends AttendanceWithPunches>(
+  attendance: T,
+  timeZone: string
+): T & LocalAttendance => ({
+  ...withLocalTimestamps(
+    attendance,
+    ['checkInTime', 'checkOutTime', 'correctedAt'],
+    timeZone
+  ),
+  punches: attendance.punches.map((punch) =>
+    withLocalTimestamps(punch, ['punchTime'], timeZone)
+  ),
+});
+
+/**
+ * Validate that a punch may follow the previous punch of the session
+ * Returns an error message, or null if the order is valid
+ */
+const getPunchOrderError = (
+  lastType: PunchType | undefined,
+  nextType: PunchType
+): string | null => {
+  switch (nextType) {
+    case 'IN':
+      if (lastType === undefined || lastType === 'OUT') return null;
+      return 'Already checked in. Please check out first.';
+    case 'OUT':
+      if (lastType === 'IN' || lastType === 'BREAK_END') return null;
+      if (lastType === 'BREAK_START') {
+        return 'Please end your break before checking out';
+      }
+      if (lastType === 'OUT') return 'Already checked out';
+      return 'No check-in found for today';
+    case 'BREAK_START':
+      if (lastType === 'IN' || lastType === 'BREAK_END') return null;
+      if (lastType === 'BREAK_START') return 'Break already in progress';
+      return 'You must be checked in to start a break';
+    case 'BREAK_END':
+      if (lastType === 'BREAK_START') return null;
+      return 'No break in progress';
+  }
+};
+
+/**
+ * Split a session's punches into working and break minutes
+ * Only closed intervals are counted
+ */
+const summarizePunches = (
+  punches: Pick<AttendancePunch, 'type' | 'punchTime'>[]
+): { workedMinutes: number; breakMinutes: number } => {
+  let workedMs = 0;
+  let breakMs = 0;
+  let workStart: Date | null = null;
+  let breakStart: Date | null = null;
+
+  for (const punch of punches) {
+    switch (punch.type) {
+      case 'IN':
+      case 'BREAK_END':
+        if (breakStart) {
+          breakMs += punch.punchTime.getTime() - breakStart.getTime();
+          breakStart = null;
+        }
+        workStart = punch.punchTime;
+        break;
+      case 'BREAK_START':
+      case 'OUT':
+        if (workStart) {
+          workedMs += punch.punchTime.getTime() - workStart.getTime();
+          workStart = null;
+        }
+        if (punch.type === 'BREAK_START') {
+          breakStart = punch.punchTime;
+        }
+        break;
+    }
+  }
+
+  return {
+    workedMinutes: Math.floor(workedMs / 60000),
+    breakMinutes: Math.floor(breakMs / 60000),
+  };
+};
+
+/**
+ * Picks the face verifier for a punch; injectable for development and tests
+ */
+export type FaceVerifierResolver = (
+  tenant: Tenant,
+  settings: TenantSettingsValues
+) => FaceVerifier;
+
+const defaultFaceVerifierResolver: FaceVerifierResolver = (tenant, settings) =>
+  resolveFaceVerifier(tenant.planType, settings.faceVerifier);
+
 export class AttendanceService {
+  constructor(
+    private readonly getFaceVerifier: FaceVerifierResolver = defaultFaceVerifierResolver
+  ) {}
+
   /**
-   * Check employee location against tenant office location
-   * Returns location token if outside allowed radius
+   * Check employee location against the permitted sites
+   * Returns a location token when the employee's geofence mode allows it
    */
   async checkEmployeeLocation(
     input: LocationCheckInput
@@ -67,43 +429,78 @@ export class AttendanceService {
         throw new AppError('Tenant not found', 404);
       }
 
-      // Check if employee is within allowed radius
-      const isWithin = isWithinRadius(
+      const settings = await tenantSettingsService.getSettings(tenant.id);
+
+      // Evaluate every site the employee is permitted to use, nearest first
+      const sites = await this.getCheckInSites(
+        employee.id,
+        tenant,
+        settings.checkInRadiusMeters
+      );
+      const evaluatedSites = this.evaluateSites(
+        sites,
         input.latitude,
-        input.longitude,
-        tenant.latitude,
-        tenant.longitude,
-        config.geoLocation.allowedCheckInRadius
+        input.longitude
+      );
+
+      const nearest = evaluatedSites[0];
+
+      await this.applyLocationRules(input, employee.tenantId, {
+        siteId: nearest.site.id,
+        distance: nearest.distance,
+        geofenceRadiusMeters:
+          nearest.site.geofence.type === 'circle'
+            ? nearest.site.geofence.radiusMeters
+            : settings.checkInRadiusMeters,
+      });
+
+      const geofenceMode = employee.geofenceMode ?? settings.geofenceMode;
+      const matched = evaluatedSites.find(({ isWithin }) => isWithin);
+      const outcome = getGeofenceOutcome(
+        geofenceMode,
+        matched?.site ?? null,
+        nearest
       );
 
-      if (isWithin) {
-        // Employee is within allowed radius - deny location check
+      if (!outcome.allowed) {
         return {
           success: false,
-          message: 'You are within the office premises. Please proceed with check-in.',
+          geofenceMode,
+          locationId: outcome.site.id,
+          locationName: outcome.site.name,
+          message: outcome.message,
         };
       }
 
-      // Employee is outside allowed radius - issue location token
-      const locationToken = generateLocationToken({
-        tenantId: tenant.id,
-        employeeId: employee.id,
-        latitude: input.latitude,
-        longitude: input.longitude,
-      });
+      const locationToken = generateLocationToken(
+        {
+          tenantId: tenant.id,
+          employeeId: employee.id,
+          latitude: input.latitude,
+          longitude: input.longitude,
+          locationId: outcome.site.id,
+        },
+        settings.locationTokenExpiry
+      );
 
-      logger.info('Location check successful - outside radius', {
+      logger.info('Location check successful', {
         employeeId: employee.id,
         tenantId: tenant.id,
+        geofenceMode,
+        locationId: outcome.site.id,
+        isWithin: matched !== undefined,
       });
 
       return {
         success: true,
         tenantId: tenant.id,
         tenantName: tenant.tenantName,
-        address: tenant.address,
+        address: outcome.site.address,
+        geofenceMode,
+        locationId: outcome.site.id,
+        locationName: outcome.site.name,
         locationToken,
-        message: 'Location verified. You are outside office premises.',
+        message: outcome.message,
       };
     } catch (error) {
       if (error instanceof AppError) {
@@ -117,247 +514,1492 @@ export class AttendanceService {
   /**
    * Process attendance check-in
    */
-  async checkIn(input: CheckInInput): Promise<Attendance> {
-    try {
-      // Verify location token
-      let locationPayload;
-      try {
-        locationPayload = verifyLocationToken(input.locationToken);
-      } catch (error) {
-        throw new AppError('Invalid or expired location token', 401);
-      }
+  async checkIn(input: CheckInInput): Promise<PunchResult> {
+    return this.recordPunch('IN', input);
+  }
 
-      // Validate employee ID matches location token
-      if (locationPayload.employeeId !== input.employeeId) {
-        throw new AppError('Employee ID mismatch with location token', 403);
-      }
+  /**
+   * Process attendance check-out
+   */
+  async checkOut(input: CheckOutInput): Promise<PunchResult> {
+    return this.recordPunch('OUT', input);
+  }
 
-      // Validate embedding
-      if (!isValidEmbedding(input.embedding)) {
-        throw new AppError('Invalid embedding format', 400);
-      }
+  /**
+   * Record a punch against the employee's current attendance session
+   * The first IN of the day opens the session; later punches must follow
+   * the IN -> BREAK_START -> BREAK_END -> OUT order
+   */
+  async recordPunch(type: PunchType, input: PunchInput): Promise<PunchResult> {
+    try {
+      const { employee, tenant, settings, locationToken } =
+        await this.resolvePunchContext(input);
 
-      // Fetch employee and tenant
-      const employee = await employeeService.getEmployeeById(input.employeeId);
+      // Checked early to fail fast, and again in the transaction below
+      await this.assertPunchOrder(prisma, employee.id, tenant.timezone, type);
 
-      if (!employee) {
-        throw new AppError('Employee not found', 404);
-      }
+      const verifier = this.getFaceVerifier(tenant, settings);
 
-      if (employee.tenantId !== locationPayload.tenantId) {
-        throw new AppError('Tenant mismatch', 403);
-      }
+      const matchConfidence = await this.verifyFace(
+        verifier,
+        employee,
+        input,
+        settings
+      );
 
-      const tenant = await prisma.tenant.findUnique({
-        where: { id: employee.tenantId },
-      });
+      const liveness =
+        type === 'IN'
+          ? await this.verifyLiveness(verifier, employee, input, settings)
+          : null;
 
-      if (!tenant) {
-        throw new AppError('Tenant not found', 404);
-      }
+      const shift = employee.shiftId
+        ? await prisma.shift.findUnique({ where: { id: employee.shiftId } })
+        : null;
 
-      let matchConfidence: number | null = null;
+      const position = await this.resolvePunchPosition(tenant, locationToken);
 
-      // For PAID plan, use AWS Rekognition
-      if (tenant.planType === 'PAID') {
-        try {
-          const comparisonResult = await compareFaces(
-            employee.photoUrl,
-            input.photoUrl
+      const result = await prisma.$transaction(
+        async (tx) => {
+          const session = await this.assertPunchOrder(
+            tx,
+            employee.id,
+            tenant.timezone,
+            type
           );
 
-          if (!comparisonResult.isMatch) {
-            throw new AppError(
-              'Face verification failed. Please try again with a clear photo.',
-              400
-            );
+          // Consume the location token; a concurrent request may have won
+          if (!(await locationTokenService.consume(tx, locationToken))) {
+            throw await this.rejectReplayedToken(locationToken, input.context);
           }
 
-          matchConfidence = comparisonResult.similarity || 0;
-
-          logger.info('Rekognition face match successful', {
-            employeeId: employee.id,
-            confidence: matchConfidence,
+          return this.appendPunch(tx, session, {
+            employee,
+            tenant,
+            shift,
+            type,
+            punchTime: new Date(),
+            photoUrl: input.photoUrl,
+            embedding: input.embedding,
+            matchConfidence,
+            position,
+            source: 'ONLINE',
+            liveness,
           });
-        } catch (error) {
-          if (error instanceof AppError) {
-            throw error;
-          }
-          logger.error('Rekognition error', error);
-          throw new AppError(
-            'Face verification failed. Please try again.',
-            500
-          );
-        }
-      }
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
 
-      // For FREE plan, embedding comparison happens on frontend
-      // Backend just validates that embedding is provided
+      logger.info('Attendance punch recorded', {
+        attendanceId: result.attendance.id,
+        punchId: result.punch.id,
+        type,
+        employeeId: employee.id,
+        tenantId: employee.tenantId,
+      });
 
-      // Check if already checked in today
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      return { ...result, timezone: tenant.timezone };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (isConcurrentWriteError(error)) {
+        throw new AppError(CONCURRENT_PUNCH_MESSAGE, 409);
+      }
+      logger.error('Error recording attendance punch', error);
+      throw new AppError('Failed to record punch', 500);
+    }
+  }
 
-      const existingCheckIn = await prisma.attendance.findFirst({
-        where: {
-          employeeId: input.employeeId,
-          checkInTime: {
-            gte: today,
-          },
-        },
-      });
+  /**
+   * Record a punch for an employee identified on a kiosk
+   * The kiosk stands at a known site, so no location token is needed; the
+   * identified face is still verified 1:1 against the employee's enrolment
+   */
+  async recordKioskPunch(
+    type: PunchType,
+    input: KioskPunchInput
+  ): Promise<PunchResult> {
+    try {
+      const { kiosk, employee, tenant, settings } = input;
 
-      if (existingCheckIn) {
-        throw new AppError('Already checked in today', 409);
+      // Liveness needs a challenge issued to a known employee beforehand
+      if (type === 'IN' && settings.requireLiveness) {
+        throw new AppError(
+          'Liveness check is required for check-in; kiosk check-in is not allowed',
+          400
+        );
       }
 
-      // Create attendance record
-      const attendance = await prisma.attendance.create({
-        data: {
-          tenantId: employee.tenantId,
-          employeeId: employee.id,
-          photoUrl: input.photoUrl,
-          embedding: input.embedding,
-          matchConfidence,
+      // Checked early to fail fast, and again in the transaction below
+      await this.assertPunchOrder(prisma, employee.id, tenant.timezone, type);
+
+      const matchConfidence = await this.verifyFace(
+        this.getFaceVerifier(tenant, settings),
+        employee,
+        input,
+        settings
+      );
+
+      const shift = employee.shiftId
+        ? await prisma.shift.findUnique({ where: { id: employee.shiftId } })
+        : null;
+
+      const site = kiosk.location ?? tenant;
+
+      const result = await prisma.$transaction(
+        async (tx) => {
+          const session = await this.assertPunchOrder(
+            tx,
+            employee.id,
+            tenant.timezone,
+            type
+          );
+
+          return this.appendPunch(tx, session, {
+            employee,
+            tenant,
+            shift,
+            type,
+            punchTime: new Date(),
+            photoUrl: input.photoUrl,
+            embedding: input.embedding,
+            matchConfidence,
+            position: {
+              latitude: site.latitude,
+              longitude: site.longitude,
+              distanceMeters: 0,
+              locationId: kiosk.locationId,
+              locationTokenIssuedAt: null,
+            },
+            source: 'KIOSK',
+            kioskId: kiosk.id,
+          });
         },
-      });
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
 
-      logger.info('Attendance check-in successful', {
-        attendanceId: attendance.id,
+      logger.info('Kiosk punch recorded', {
+        attendanceId: result.attendance.id,
+        punchId: result.punch.id,
+        type,
         employeeId: employee.id,
-        tenantId: employee.tenantId,
+        kioskId: kiosk.id,
+        tenantId: tenant.id,
       });
 
-      return attendance;
+      return { ...result, timezone: tenant.timezone };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
       }
-      logger.error('Error processing check-in', error);
-      throw new AppError('Failed to process check-in', 500);
+      if (isConcurrentWriteError(error)) {
+        throw new AppError(CONCURRENT_PUNCH_MESSAGE, 409);
+      }
+      logger.error('Error recording kiosk punch', error);
+      throw new AppError('Failed to record punch', 500);
     }
   }
 
   /**
-   * Get attendance records for an employee
+   * Sync punches captured offline by an enrolled device
+   * Punches are processed in capture order and judged individually; a
+   * rejected punch does not stop the batch. Re-sending a punch is reported
+   * as DUPLICATE, so clients can retry a batch safely.
    */
-  async getEmployeeAttendance(
-    employeeId: string,
-    tenantId: string,
-    startDate?: Date,
-    endDate?: Date,
-    page: number = 1,
-    limit: number = 10
-  ): Promise<{
-    attendances: Attendance[];
-    total: number;
-    page: number;
-    totalPages: number;
-  }> {
+  async syncOfflinePunches(input: OfflineSyncInput): Promise<OfflineSyncResult> {
     try {
-      // Verify employee belongs to tenant
-      const employee = await prisma.employee.findFirst({
+      const employee = await employeeService.getEmployeeById(input.employeeId);
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const device = await prisma.employeeDevice.findFirst({
         where: {
-          id: employeeId,
-          tenantId,
+          id: input.deviceId,
+          employeeId: employee.id,
         },
       });
 
-      if (!employee) {
-        throw new AppError('Employee not found', 404);
+      if (!device) {
+        throw new AppError('Device not found', 404);
       }
 
-      const skip = (page - 1) * limit;
+      if (device.revokedAt) {
+        throw new AppError('Device has been revoked', 403);
+      }
 
-      const where: any = {
-        employeeId,
-        tenantId,
-      };
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: employee.tenantId },
+      });
 
-      if (startDate || endDate) {
-        where.checkInTime = {};
-        if (startDate) where.checkInTime.gte = startDate;
-        if (endDate) where.checkInTime.lte = endDate;
+      if (!tenant) {
+        throw new AppError('Tenant not found', 404);
       }
 
-      const [attendances, total] = await Promise.all([
-        prisma.attendance.findMany({
-          where,
-          skip,
-          take: limit,
-          orderBy: {
-            checkInTime: 'desc',
-          },
-        }),
-        prisma.attendance.count({ where }),
-      ]);
+      const settings = await tenantSettingsService.getSettings(tenant.id);
 
-      return {
-        attendances,
-        total,
-        page,
-        totalPages: Math.ceil(total / limit),
+      if (!settings.allowOfflinePunches) {
+        throw new AppError('Offline punches are not enabled', 403);
+      }
+
+      const verifier = this.getFaceVerifier(tenant, settings);
+      const sites = await this.getCheckInSites(
+        employee.id,
+        tenant,
+        settings.checkInRadiusMeters
+      );
+      const shift = employee.shiftId
+        ? await prisma.shift.findUnique({ where: { id: employee.shiftId } })
+        : null;
+
+      const punches = [...input.punches].sort(
+        (a, b) =>
+          new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime()
+      );
+
+      const results: OfflinePunchResult[] = [];
+
+      for (const offlinePunch of punches) {
+        try {
+          results.push(
+            await this.syncOfflinePunch(offlinePunch, {
+              employee,
+              tenant,
+              device,
+              settings,
+              verifier,
+              sites,
+              shift,
+              context: input.context,
+            })
+          );
+        } catch (error) {
+          if (
+            !(error instanceof OfflinePunchRejection) &&
+            !(error instanceof AppError && error.statusCode < 500)
+          ) {
+            throw error;
+          }
+          results.push({
+            clientPunchId: offlinePunch.clientPunchId,
+            status: 'REJECTED',
+            reason: error.message,
+          });
+        }
+      }
+
+      await prisma.employeeDevice.update({
+        where: { id: device.id },
+        data: { lastSyncedAt: new Date() },
+      });
+
+      const summary = {
+        accepted: results.filter(({ status }) => status === 'ACCEPTED').length,
+        duplicates: results.filter(({ status }) => status === 'DUPLICATE')
+          .length,
+        rejected: results.filter(({ status }) => status === 'REJECTED').length,
       };
+
+      logger.info('Offline punches synced', {
+        employeeId: employee.id,
+        tenantId: tenant.id,
+        deviceId: device.id,
+        ...summary,
+      });
+
+      return { ...summary, results };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
       }
-      logger.error('Error fetching attendance records', error);
-      throw new AppError('Failed to fetch attendance records', 500);
+      logger.error('Error syncing offline punches', error);
+      throw new AppError('Failed to sync offline punches', 500);
     }
   }
 
   /**
-   * Get attendance report for a tenant
+   * Validate and store one offline punch
+   * Throws OfflinePunchRejection (or a client AppError) to reject it
    */
-  async getAttendanceReport(
-    tenantId: string,
-    startDate: Date,
-    endDate: Date,
-    employeeId?: string
-  ): Promise<Attendance[]> {
-    try {
-      const where: any = {
-        tenantId,
-        checkInTime: {
-          gte: startDate,
-          lte: endDate,
+  private async syncOfflinePunch(
+    offlinePunch: OfflinePunchInput,
+    batch: {
+      employee: Employee;
+      tenant: Tenant;
+      device: EmployeeDevice;
+      settings: TenantSettingsValues;
+      verifier: FaceVerifier;
+      sites: CheckInSite[];
+      shift: Shift | null;
+      context?: RequestContext;
+    }
+  ): Promise<OfflinePunchResult> {
+    const { employee, tenant, device, settings } = batch;
+    const { clientPunchId } = offlinePunch;
+
+    // Checked first, so an unsigned punch cannot probe for synced IDs
+    const message = buildSignedPunchMessage({
+      ...offlinePunch,
+      employeeId: employee.id,
+      deviceId: device.id,
+    });
+
+    if (
+      !verifyDeviceSignature(device.publicKey, message, offlinePunch.signature)
+    ) {
+      await securityEventService.record({
+        tenantId: tenant.id,
+        employeeId: employee.id,
+        type: 'OFFLINE_SIGNATURE_INVALID',
+        details: {
+          deviceId: device.id,
+          clientPunchId,
         },
+        context: batch.context,
+      });
+      throw new OfflinePunchRejection('Invalid device signature');
+    }
+
+    const existing = await prisma.attendancePunch.findUnique({
+      where: {
+        deviceId_clientPunchId: { deviceId: device.id, clientPunchId },
+      },
+    });
+
+    if (existing) {
+      return {
+        clientPunchId,
+        status: 'DUPLICATE',
+        punchId: existing.id,
+        attendanceId: existing.attendanceId,
       };
+    }
 
-      if (employeeId) {
-        // Verify employee belongs to tenant
-        const employee = await prisma.employee.findFirst({
-          where: {
-            id: employeeId,
-            tenantId,
-          },
-        });
+    // Liveness needs a server-issued challenge, which an offline device lacks
+    if (offlinePunch.type === 'IN' && settings.requireLiveness) {
+      throw new OfflinePunchRejection(
+        'Liveness check is required for check-in; offline check-in is not allowed'
+      );
+    }
 
-        if (!employee) {
-          throw new AppError('Employee not found', 404);
-        }
+    const punchTime = new Date(offlinePunch.capturedAt);
+    const now = new Date();
 
-        where.employeeId = employeeId;
-      }
+    if (punchTime.getTime() > now.getTime()) {
+      throw new OfflinePunchRejection('Capture time is in the future');
+    }
 
-      const attendances = await prisma.attendance.findMany({
-        where,
-        include: {
-          employee: {
-            select: {
-              id: true,
-              name: true,
-              contactNumber: true,
-            },
-          },
+    if (
+      now.getTime() - punchTime.getTime() >
+      config.offline.maxAgeHours * 3600000
+    ) {
+      throw new OfflinePunchRejection(
+        `Punch is older than ${config.offline.maxAgeHours} hours`
+      );
+    }
+
+    if (punchTime < device.createdAt) {
+      throw new OfflinePunchRejection(
+        'Punch was captured before the device was enrolled'
+      );
+    }
+
+    const coordValidation = validateCoordinates(
+      offlinePunch.latitude,
+      offlinePunch.longitude
+    );
+    if (!coordValidation.isValid) {
+      throw new OfflinePunchRejection(
+        coordValidation.error || 'Invalid coordinates'
+      );
+    }
+
+    const evaluatedSites = this.evaluateSites(
+      batch.sites,
+      offlinePunch.latitude,
+      offlinePunch.longitude
+    );
+    const nearest = evaluatedSites[0];
+
+    // Same spoofing rules as the location check, with the fix taken at
+    // capture time
+    await this.applyLocationRules(
+      {
+        employeeId: employee.id,
+        latitude: offlinePunch.latitude,
+        longitude: offlinePunch.longitude,
+        accuracy: offlinePunch.accuracy,
+        isMocked: offlinePunch.isMocked,
+        fixTimestamp: offlinePunch.capturedAt,
+        context: batch.context,
+      },
+      tenant.id,
+      {
+        siteId: nearest.site.id,
+        distance: nearest.distance,
+        geofenceRadiusMeters:
+          nearest.site.geofence.type === 'circle'
+            ? nearest.site.geofence.radiusMeters
+            : settings.checkInRadiusMeters,
+      },
+      punchTime
+    );
+
+    const geofenceMode = employee.geofenceMode ?? settings.geofenceMode;
+    const matched = evaluatedSites.find(({ isWithin }) => isWithin);
+    const outcome = getGeofenceOutcome(
+      geofenceMode,
+      matched?.site ?? null,
+      nearest
+    );
+
+    if (!outcome.allowed) {
+      throw new OfflinePunchRejection(outcome.message);
+    }
+
+    if (!isValidEmbedding(offlinePunch.embedding)) {
+      throw new OfflinePunchRejection('Invalid embedding format');
+    }
+
+    const matchConfidence = await this.verifyFace(
+      batch.verifier,
+      employee,
+      offlinePunch,
+      settings
+    );
+
+    // Session current at capture time, checked early to fail fast and again
+    // in the transaction below
+    const findSession = async (
+      db: Prisma.TransactionClient
+    ): Promise<AttendanceWithPunches | null> => {
+      const session = await this.findCurrentSession(
+        db,
+        employee.id,
+        punchTime,
+        tenant.timezone
+      );
+      const lastPunch = session?.punches[session.punches.length - 1];
+
+      if (lastPunch && lastPunch.punchTime > punchTime) {
+        throw new OfflinePunchRejection(
+          'Punch was captured before the latest punch of the day'
+        );
+      }
+
+      const orderError = getPunchOrderError(lastPunch?.type, offlinePunch.type);
+
+      if (orderError) {
+        throw new OfflinePunchRejection(orderError);
+      }
+
+      return session;
+    };
+
+    await findSession(prisma);
+
+    try {
+      const { attendance, punch } = await prisma.$transaction(
+        async (tx) =>
+          this.appendPunch(tx, await findSession(tx), {
+            employee,
+            tenant,
+            shift: batch.shift,
+            type: offlinePunch.type,
+            punchTime,
+            photoUrl: offlinePunch.photoUrl,
+            embedding: offlinePunch.embedding,
+            matchConfidence,
+            position: {
+              latitude: offlinePunch.latitude,
+              longitude: offlinePunch.longitude,
+              distanceMeters: calculateDistance(
+                offlinePunch.latitude,
+                offlinePunch.longitude,
+                outcome.site.latitude,
+                outcome.site.longitude
+              ),
+              locationId: outcome.site.id,
+              locationTokenIssuedAt: null,
+            },
+            source: 'OFFLINE',
+            device: { deviceId: device.id, clientPunchId, syncedAt: now },
+          }),
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+
+      return {
+        clientPunchId,
+        status: 'ACCEPTED',
+        punchId: punch.id,
+        attendanceId: attendance.id,
+      };
+    } catch (error) {
+      // A concurrent sync of the same batch stored it first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const stored = await prisma.attendancePunch.findUniqueOrThrow({
+          where: {
+            deviceId_clientPunchId: { deviceId: device.id, clientPunchId },
+          },
+        });
+        return {
+          clientPunchId,
+          status: 'DUPLICATE',
+          punchId: stored.id,
+          attendanceId: stored.attendanceId,
+        };
+      }
+      if (isConcurrentWriteError(error)) {
+        throw new AppError(CONCURRENT_PUNCH_MESSAGE, 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Session a punch at an instant belongs to
+   * The latest open session is current for up to MAX_SESSION_HOURS after its
+   * check-in, so overnight shifts check out on the next day. Otherwise it is
+   * the latest session checked in on the instant's local day, which a new
+   * IN reopens (split shifts).
+   */
+  private async findCurrentSession(
+    db: Prisma.TransactionClient,
+    employeeId: string,
+    at: Date,
+    timeZone: string
+  ): Promise<AttendanceWithPunches | null> {
+    const include = {
+      punches: {
+        orderBy: { punchTime: 'asc' as const },
+      },
+    };
+
+    const openSession = await db.attendance.findFirst({
+      where: {
+        employeeId,
+        checkInTime: {
+          gt: new Date(
+            at.getTime() - config.attendance.maxSessionHours * 3600000
+          ),
+          lte: at,
         },
-        orderBy: {
-          checkInTime: 'desc',
+        checkOutTime: null,
+        voidedAt: null,
+      },
+      include,
+      orderBy: {
+        checkInTime: 'desc',
+      },
+    });
+
+    if (openSession) {
+      return openSession;
+    }
+
+    return db.attendance.findFirst({
+      where: {
+        employeeId,
+        checkInTime: {
+          gte: startOfDayInZone(at, timeZone),
+          lte: at,
+        },
+        voidedAt: null,
+      },
+      include,
+      orderBy: {
+        checkInTime: 'desc',
+      },
+    });
+  }
+
+  /**
+   * Find the current session and check that the punch may follow its last one
+   */
+  private async assertPunchOrder(
+    db: Prisma.TransactionClient,
+    employeeId: string,
+    timeZone: string,
+    type: PunchType
+  ): Promise<AttendanceWithPunches | null> {
+    const session = await this.findCurrentSession(
+      db,
+      employeeId,
+      new Date(),
+      timeZone
+    );
+    const lastPunch = session?.punches[session.punches.length - 1];
+    const orderError = getPunchOrderError(lastPunch?.type, type);
+
+    if (orderError) {
+      throw new AppError(orderError, 409);
+    }
+
+    return session;
+  }
+
+  /**
+   * Write a verified punch, opening the session on the first IN, and
+   * recompute the session's totals
+   */
+  private async appendPunch(
+    tx: Prisma.TransactionClient,
+    session: AttendanceWithPunches | null,
+    punch: NewPunch
+  ): Promise<{ attendance: Attendance; punch: AttendancePunch }> {
+    const { employee, tenant, punchTime } = punch;
+    const shift = await this.getWorkingShift(
+      tx,
+      punch.shift,
+      tenant,
+      session?.checkInTime ?? punchTime
+    );
+
+    const attendance =
+      session ??
+      (await tx.attendance.create({
+        data: {
+          tenantId: employee.tenantId,
+          employeeId: employee.id,
+          photoUrl: punch.photoUrl,
+          embedding: punch.embedding,
+          checkInTime: punchTime,
+          status: shift
+            ? classifyCheckIn(shift, punchTime, tenant.timezone)
+            : null,
+          matchConfidence: punch.matchConfidence,
+          livenessPassed: punch.liveness?.passed ?? null,
+          livenessScore: punch.liveness?.score ?? null,
+          source: punch.source,
+          ...punch.position,
+        },
+      }));
+
+    const created = await tx.attendancePunch.create({
+      data: {
+        tenantId: employee.tenantId,
+        employeeId: employee.id,
+        attendanceId: attendance.id,
+        type: punch.type,
+        punchTime,
+        photoUrl: punch.photoUrl,
+        matchConfidence: punch.matchConfidence,
+        source: punch.source,
+        ...punch.position,
+        ...punch.device,
+        kioskId: punch.kioskId,
+      },
+    });
+
+    const { workedMinutes, breakMinutes } = summarizePunches([
+      ...(session?.punches ?? []),
+      created,
+    ]);
+
+    const updatedAttendance = await tx.attendance.update({
+      where: { id: attendance.id },
+      data: {
+        checkOutTime: punch.type === 'OUT' ? punchTime : null,
+        workedMinutes,
+        breakMinutes,
+        ...(punch.type === 'OUT' &&
+          shift && {
+            isEarlyDeparture: isEarlyDeparture(
+              shift,
+              attendance.checkInTime,
+              punchTime,
+              tenant.timezone
+            ),
+          }),
+      },
+    });
+
+    return { attendance: updatedAttendance, punch: created };
+  }
+
+  /**
+   * Apply an approved regularization to the sessions of its day
+   * Without a session, one is opened from the claimed times. Otherwise the
+   * day's first IN moves to the claimed check-in and, when a check-out is
+   * claimed, the last session's OUT moves to it (or is added if missing).
+   * Runs inside the approval transaction; returns the sessions it touched.
+   */
+  async applyRegularization(
+    tx: Prisma.TransactionClient,
+    regularization: AttendanceRegularization,
+    employee: Employee,
+    tenant: Tenant
+  ): Promise<Attendance[]> {
+    const { checkInTime, checkOutTime } = regularization;
+    const dayStart = startOfDayInZone(checkInTime, tenant.timezone);
+    const photoUrl = regularization.evidenceUrl ?? employee.photoUrl;
+
+    const sessions = await tx.attendance.findMany({
+      where: {
+        employeeId: employee.id,
+        checkInTime: {
+          gte: dayStart,
+          lt: addDaysInZone(checkInTime, 1, tenant.timezone),
+        },
+        voidedAt: null,
+      },
+      include: {
+        punches: {
+          orderBy: { punchTime: 'asc' },
+        },
+      },
+      orderBy: {
+        checkInTime: 'asc',
+      },
+    });
+
+    const shift = employee.shiftId
+      ? await tx.shift.findUnique({ where: { id: employee.shiftId } })
+      : null;
+
+    const regularizedPunch = {
+      tenantId: employee.tenantId,
+      employeeId: employee.id,
+      photoUrl,
+      source: 'REGULARIZED' as const,
+    };
+
+    if (sessions.length === 0) {
+      const attendance = await tx.attendance.create({
+        data: {
+          tenantId: employee.tenantId,
+          employeeId: employee.id,
+          photoUrl,
+          embedding: employee.embedding as Prisma.InputJsonValue,
+          checkInTime,
+          source: 'REGULARIZED',
+          regularizationId: regularization.id,
         },
       });
 
-      return attendances;
+      await tx.attendancePunch.createMany({
+        data: [
+          {
+            ...regularizedPunch,
+            attendanceId: attendance.id,
+            type: 'IN',
+            punchTime: checkInTime,
+          },
+          ...(checkOutTime
+            ? [
+                {
+                  ...regularizedPunch,
+                  attendanceId: attendance.id,
+                  type: 'OUT' as const,
+                  punchTime: checkOutTime,
+                },
+              ]
+            : []),
+        ],
+      });
+
+      return [
+        await this.recomputeSession(tx, attendance.id, shift, tenant, {
+          regularizationId: regularization.id,
+        }),
+      ];
+    }
+
+    const first = sessions[0];
+    const last = sessions[sessions.length - 1];
+    const touched = new Set<string>();
+
+    const firstIn = first.punches[0];
+    const afterFirstIn = first.punches[1];
+
+    if (firstIn.punchTime.getTime() !== checkInTime.getTime()) {
+      if (afterFirstIn && afterFirstIn.punchTime <= checkInTime) {
+        throw new AppError(
+          'Claimed check-in is after punches already recorded that day',
+          409
+        );
+      }
+
+      await tx.attendancePunch.update({
+        where: { id: firstIn.id },
+        data: { punchTime: checkInTime, source: 'REGULARIZED' },
+      });
+      touched.add(first.id);
+    }
+
+    // The first IN may also be the punch a check-out is compared against
+    const timeOf = (punch: AttendancePunch): Date =>
+      punch.id === firstIn.id ? checkInTime : punch.punchTime;
+
+    if (checkOutTime) {
+      const lastPunch = last.punches[last.punches.length - 1];
+      const beforeLast = last.punches[last.punches.length - 2];
+
+      switch (lastPunch.type) {
+        case 'OUT':
+          if (lastPunch.punchTime.getTime() === checkOutTime.getTime()) {
+            break;
+          }
+          if (beforeLast && timeOf(beforeLast) >= checkOutTime) {
+            throw new AppError(
+              'Claimed check-out is before punches already recorded that day',
+              409
+            );
+          }
+          await tx.attendancePunch.update({
+            where: { id: lastPunch.id },
+            data: { punchTime: checkOutTime, source: 'REGULARIZED' },
+          });
+          touched.add(last.id);
+          break;
+        case 'IN':
+        case 'BREAK_END':
+          if (timeOf(lastPunch) >= checkOutTime) {
+            throw new AppError(
+              'Claimed check-out is before punches already recorded that day',
+              409
+            );
+          }
+          await tx.attendancePunch.create({
+            data: {
+              ...regularizedPunch,
+              attendanceId: last.id,
+              type: 'OUT',
+              punchTime: checkOutTime,
+            },
+          });
+          touched.add(last.id);
+          break;
+        case 'BREAK_START':
+          throw new AppError(
+            'The day ends in an open break; it cannot be closed by a check-out',
+            409
+          );
+      }
+    }
+
+    return Promise.all(
+      [...touched].map((attendanceId) =>
+        this.recomputeSession(tx, attendanceId, shift, tenant, {
+          source: 'REGULARIZED',
+          regularizationId: regularization.id,
+        })
+      )
+    );
+  }
+
+  /**
+   * Recompute a session's times, totals and shift status from its punches
+   * Also used by admin corrections after they move or add punches
+   */
+  async recomputeSession(
+    tx: Prisma.TransactionClient,
+    attendanceId: string,
+    shift: Shift | null,
+    tenant: Tenant,
+    data: Prisma.AttendanceUncheckedUpdateInput = {}
+  ): Promise<Attendance> {
+    const punches = await tx.attendancePunch.findMany({
+      where: { attendanceId },
+      orderBy: { punchTime: 'asc' },
+    });
+
+    const checkInTime = punches[0].punchTime;
+    const lastPunch = punches[punches.length - 1];
+    const checkOutTime = lastPunch.type === 'OUT' ? lastPunch.punchTime : null;
+    const workingShift = await this.getWorkingShift(
+      tx,
+      shift,
+      tenant,
+      checkInTime
+    );
+
+    return tx.attendance.update({
+      where: { id: attendanceId },
+      data: {
+        ...data,
+        checkInTime,
+        checkOutTime,
+        ...summarizePunches(punches),
+        status: workingShift
+          ? classifyCheckIn(workingShift, checkInTime, tenant.timezone)
+          : null,
+        isEarlyDeparture:
+          workingShift && checkOutTime
+            ? isEarlyDeparture(
+                workingShift,
+                checkInTime,
+                checkOutTime,
+                tenant.timezone
+              )
+            : false,
+      },
+    });
+  }
+
+  /**
+   * The shift a session is held to, or null when its day is a holiday or
+   * tenant weekly off and neither lateness nor early departure applies
+   */
+  private async getWorkingShift(
+    tx: Prisma.TransactionClient,
+    shift: Shift | null,
+    tenant: Tenant,
+    sessionStart: Date
+  ): Promise<Shift | null> {
+    if (!shift) {
+      return null;
+    }
+
+    const isNonWorkingDay = await tenantCalendarService.isNonWorkingDay(
+      tx,
+      tenant.id,
+      toLocalDateString(sessionStart, tenant.timezone)
+    );
+
+    return isNonWorkingDay ? null : shift;
+  }
+
+  /**
+   * Evaluate a position against each site, nearest first
+   */
+  private evaluateSites(
+    sites: CheckInSite[],
+    latitude: number,
+    longitude: number
+  ): EvaluatedSite[] {
+    return sites
+      .map((site) => ({
+        site,
+        isWithin: isWithinGeofence(site.geofence, latitude, longitude),
+        distance: distanceToGeofence(site.geofence, latitude, longitude),
+      }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Run the spoofing rules on a location check and store the result
+   * Rejected checks are logged as security events and stop the check
+   * Offline punches pass their capture time: they are judged and stored as
+   * of then, so consecutive punches of a batch are checked for travel too
+   */
+  private async applyLocationRules(
+    input: LocationCheckInput,
+    tenantId: string,
+    nearest: {
+      siteId: string | null;
+      distance: number;
+      geofenceRadiusMeters: number;
+    },
+    capturedAt?: Date
+  ): Promise<void> {
+    const fixTimestamp = input.fixTimestamp
+      ? new Date(input.fixTimestamp)
+      : undefined;
+
+    const previous = await locationCheckService.getLastAccepted(
+      input.employeeId,
+      capturedAt
+    );
+
+    const { verdict, flags } = evaluateLocationRules(
+      { ...input, fixTimestamp },
+      previous,
+      {
+        geofenceRadiusMeters: nearest.geofenceRadiusMeters,
+        maxTravelSpeedKmh: config.geoLocation.maxTravelSpeedKmh,
+        maxFixAgeSeconds: config.geoLocation.maxFixAgeSeconds,
+      },
+      capturedAt
+    );
+
+    const check = await locationCheckService.record({
+      tenantId,
+      employeeId: input.employeeId,
+      latitude: input.latitude,
+      longitude: input.longitude,
+      accuracy: input.accuracy,
+      altitude: input.altitude,
+      isMocked: input.isMocked,
+      fixTimestamp,
+      locationId: nearest.siteId,
+      distanceMeters: nearest.distance,
+      verdict,
+      flags,
+      checkedAt: capturedAt,
+      context: input.context,
+    });
+
+    if (verdict !== 'REJECT') {
+      if (verdict === 'FLAG') {
+        logger.warn('Location check flagged', {
+          locationCheckId: check.id,
+          employeeId: input.employeeId,
+          flags,
+        });
+      }
+      return;
+    }
+
+    await securityEventService.record({
+      tenantId,
+      employeeId: input.employeeId,
+      type: 'LOCATION_CHECK_REJECTED',
+      details: {
+        locationCheckId: check.id,
+        flags,
+      },
+      context: input.context,
+    });
+
+    throw new AppError(
+      flags.includes('MOCK_LOCATION')
+        ? 'Mock locations are not allowed. Please disable them and try again.'
+        : 'Your location changed faster than possible since your last check. Please try again later.',
+      403
+    );
+  }
+
+  /**
+   * Get the sites an employee may check in against
+   * Falls back to the tenant's registered address when no locations exist
+   */
+  private async getCheckInSites(
+    employeeId: string,
+    tenant: Tenant,
+    defaultRadiusMeters: number
+  ): Promise<CheckInSite[]> {
+    const locations = await tenantLocationService.getPermittedLocations(
+      employeeId,
+      tenant.id
+    );
+
+    if (locations.length === 0) {
+      return [
+        {
+          id: null,
+          name: 'office',
+          address: tenant.address,
+          latitude: tenant.latitude,
+          longitude: tenant.longitude,
+          geofence: buildGeofence({
+            latitude: tenant.latitude,
+            longitude: tenant.longitude,
+            radiusMeters: defaultRadiusMeters,
+          }),
+        },
+      ];
+    }
+
+    return locations.map((location) => ({
+      id: location.id,
+      name: location.name,
+      address: location.address || tenant.address,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      geofence: buildGeofence({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        radiusMeters: location.radiusMeters ?? defaultRadiusMeters,
+        boundary: location.boundary,
+      }),
+    }));
+  }
+
+  /**
+   * Verify location token and embedding, then load employee and tenant
+   * Shared by all punch types
+   */
+  private async resolvePunchContext(
+    input: PunchInput
+  ): Promise<{
+    employee: Employee;
+    tenant: Tenant;
+    settings: TenantSettingsValues;
+    locationToken: LocationTokenClaims;
+  }> {
+    // Verify location token
+    let locationPayload;
+    try {
+      locationPayload = verifyLocationToken(input.locationToken);
+    } catch (error) {
+      throw new AppError('Invalid or expired location token', 401);
+    }
+
+    // Validate employee ID matches location token
+    if (locationPayload.employeeId !== input.employeeId) {
+      throw new AppError('Employee ID mismatch with location token', 403);
+    }
+
+    // Validate embedding
+    if (!isValidEmbedding(input.embedding)) {
+      throw new AppError('Invalid embedding format', 400);
+    }
+
+    // Fetch employee and tenant
+    const employee = await employeeService.getEmployeeById(input.employeeId);
+
+    if (!employee) {
+      throw new AppError('Employee not found', 404);
+    }
+
+    if (employee.tenantId !== locationPayload.tenantId) {
+      throw new AppError('Tenant mismatch', 403);
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: employee.tenantId },
+    });
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    // Reject replays before spending a face verification on them
+    if (await locationTokenService.isUsed(locationPayload.jti)) {
+      throw await this.rejectReplayedToken(locationPayload, input.context);
+    }
+
+    const settings = await tenantSettingsService.getSettings(tenant.id);
+
+    return { employee, tenant, settings, locationToken: locationPayload };
+  }
+
+  /**
+   * Position evidence for a punch, from its verified location token
+   * Distance is measured from the matched site's centre (or the tenant
+   * address); a site deleted since the check is recorded as null
+   */
+  private async resolvePunchPosition(
+    tenant: Tenant,
+    claims: LocationTokenClaims
+  ): Promise<PunchPosition> {
+    const location = claims.locationId
+      ? await prisma.tenantLocation.findFirst({
+          where: { id: claims.locationId, tenantId: tenant.id },
+        })
+      : null;
+
+    const site = claims.locationId ? location : tenant;
+
+    return {
+      latitude: claims.latitude,
+      longitude: claims.longitude,
+      distanceMeters: site
+        ? calculateDistance(
+            claims.latitude,
+            claims.longitude,
+            site.latitude,
+            site.longitude
+          )
+        : null,
+      locationId: location?.id ?? null,
+      locationTokenIssuedAt: new Date(claims.iat * 1000),
+    };
+  }
+
+  /**
+   * Log a location token replay and build the error to return
+   */
+  private async rejectReplayedToken(
+    claims: LocationTokenClaims,
+    context?: RequestContext
+  ): Promise<AppError> {
+    await securityEventService.record({
+      tenantId: claims.tenantId,
+      employeeId: claims.employeeId,
+      type: 'LOCATION_TOKEN_REPLAY',
+      details: {
+        jti: claims.jti,
+        locationId: claims.locationId,
+      },
+      context,
+    });
+
+    return new AppError(
+      'Location token has already been used. Please check your location again.',
+      409
+    );
+  }
+
+  /**
+   * Verify the punch against the employee's enrolled face
+   * Returns the match confidence as a percentage
+   */
+  private async verifyFace(
+    verifier: FaceVerifier,
+    employee: Employee,
+    probe: { photoUrl: string; embedding: number[] },
+    settings: TenantSettingsValues
+  ): Promise<number> {
+    let result;
+    try {
+      result = await verifier.verify(
+        { photoUrl: employee.photoUrl, embedding: employee.embedding },
+        probe,
+        settings
+      );
+    } catch (error) {
+      logger.error(`${verifier.provider} face verifier error`, error);
+      throw new AppError('Face verification failed. Please try again.', 500);
+    }
+
+    if (!result.isMatch) {
+      logger.warn('Face match failed', {
+        provider: verifier.provider,
+        employeeId: employee.id,
+        confidence: result.confidence,
+      });
+      throw new AppError(
+        result.reason ||
+          'Face verification failed. Please try again with a clear photo.',
+        400
+      );
+    }
+
+    logger.info('Face match successful', {
+      provider: verifier.provider,
+      employeeId: employee.id,
+      confidence: result.confidence,
+    });
+
+    return result.confidence;
+  }
+
+  /**
+   * Check the liveness challenge submitted with a check-in
+   * Required when the tenant enables requireLiveness; otherwise an optional
+   * challenge is recorded without blocking the check-in
+   */
+  private async verifyLiveness(
+    verifier: FaceVerifier,
+    employee: Employee,
+    input: PunchInput,
+    settings: TenantSettingsValues
+  ): Promise<{ passed: boolean; score: number } | null> {
+    if (!input.liveness) {
+      if (settings.requireLiveness) {
+        throw new AppError('Liveness check is required for check-in', 400);
+      }
+      return null;
+    }
+
+    const result = await livenessService.verifyChallenge(
+      employee.id,
+      input.liveness,
+      { photoUrl: employee.photoUrl, embedding: employee.embedding },
+      verifier,
+      settings
+    );
+
+    if (!result.passed && settings.requireLiveness) {
+      throw new AppError(
+        result.reason || 'Liveness check failed. Please try again.',
+        400
+      );
+    }
+
+    return { passed: result.passed, score: result.score };
+  }
+
+  /**
+   * Get attendance records for an employee
+   */
+  async getEmployeeAttendance(
+    employeeId: string,
+    tenantId: string,
+    startDate?: string,
+    endDate?: string,
+    page: number = 1,
+    limit: number = 10,
+    status?: AttendanceStatus
+  ): Promise<{
+    timezone: string;
+    attendances: LocalAttendance[];
+    total: number;
+    totalWorkedMinutes: number;
+    totalBreakMinutes: number;
+    page: number;
+    totalPages: number;
+  }> {
+    try {
+      // Verify employee belongs to tenant
+      const employee = await prisma.employee.findFirst({
+        where: {
+          id: employeeId,
+          tenantId,
+        },
+        include: {
+          tenant: {
+            select: { timezone: true },
+          },
+        },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const { timezone } = employee.tenant;
+      const skip = (page - 1) * limit;
+
+      const where: any = {
+        employeeId,
+        tenantId,
+        voidedAt: null,
+      };
+
+      if (startDate || endDate) {
+        where.checkInTime = {};
+        if (startDate) {
+          where.checkInTime.gte = parseDateBoundary(startDate, 'start', timezone);
+        }
+        if (endDate) {
+          where.checkInTime.lte = parseDateBoundary(endDate, 'end', timezone);
+        }
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      const [attendances, total, worked] = await Promise.all([
+        prisma.attendance.findMany({
+          where,
+          skip,
+          take: limit,
+          include: {
+            location: {
+              select: { id: true, name: true },
+            },
+            punches: {
+              orderBy: { punchTime: 'asc' },
+            },
+          },
+          orderBy: {
+            checkInTime: 'desc',
+          },
+        }),
+        prisma.attendance.count({ where }),
+        prisma.attendance.aggregate({
+          where,
+          _sum: { workedMinutes: true, breakMinutes: true },
+        }),
+      ]);
+
+      return {
+        timezone,
+        attendances: attendances.map((attendance) =>
+          toLocalAttendance(attendance, timezone)
+        ),
+        total,
+        totalWorkedMinutes: worked._sum.workedMinutes || 0,
+        totalBreakMinutes: worked._sum.breakMinutes || 0,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching attendance records', error);
+      throw new AppError('Failed to fetch attendance records', 500);
+    }
+  }
+
+  /**
+   * Get attendance report for a tenant
+   */
+  async getAttendanceReport(
+    tenantId: string,
+    startDate: string,
+    endDate: string,
+    employeeId?: string,
+    status?: ReportStatus
+  ): Promise<{
+    timezone: string;
+    attendances: LocalAttendance[];
+    leaveDays: LeaveDay[];
+    overtimeDays: OvertimeDay[];
+    nonWorkingDays: NonWorkingDay[];
+  }> {
+    try {
+      const { tenant, where, localStart, localEnd } =
+        await this.resolveReportScope(
+          tenantId,
+          startDate,
+          endDate,
+          employeeId,
+          status
+        );
+
+      // Approved leave days are listed alongside the sessions
+      const leaveDays =
+        !status || status === 'LEAVE'
+          ? await leaveService.getLeaveDays(
+              tenantId,
+              localStart,
+              localEnd,
+              employeeId ? [employeeId] : undefined
+            )
+          : [];
+
+      // Overtime records, whatever their review status
+      const overtimeDays =
+        !status || status === 'OVERTIME'
+          ? await overtimeService.getOvertimeDays(
+              tenantId,
+              localStart,
+              localEnd,
+              employeeId ? [employeeId] : undefined
+            )
+          : [];
+
+      // Holidays and tenant weekly offs are non-working, not absences
+      const nonWorkingDays = await tenantCalendarService.getNonWorkingDays(
+        tenantId,
+        localStart,
+        localEnd
+      );
+
+      const attendances =
+        status === 'LEAVE' || status === 'OVERTIME'
+          ? []
+          : await prisma.attendance.findMany({
+              where,
+              include: {
+                employee: {
+                  select: {
+                    id: true,
+                    name: true,
+                    contactNumber: true,
+                  },
+                },
+                location: {
+                  select: { id: true, name: true },
+                },
+                punches: {
+                  orderBy: { punchTime: 'asc' },
+                },
+              },
+              orderBy: {
+                checkInTime: 'desc',
+              },
+            });
+
+      return {
+        timezone: tenant.timezone,
+        attendances: attendances.map((attendance) =>
+          toLocalAttendance(attendance, tenant.timezone)
+        ),
+        leaveDays,
+        overtimeDays,
+        nonWorkingDays,
+      };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -366,4 +2008,245 @@ export class AttendanceService {
       throw new AppError('Failed to generate attendance report', 500);
     }
   }
+
+  /**
+   * Prepare an attendance report for streaming
+   * Sessions are read in batches, newest first, followed by leave and
+   * overtime days for a batch of employees at a time, so a long range is
+   * never held in memory at once.
+   */
+  async exportAttendanceReport(
+    tenantId: string,
+    startDate: string,
+    endDate: string,
+    employeeId?: string,
+    status?: ReportStatus
+  ): Promise<AttendanceReportExport> {
+    try {
+      const { tenant, where, localStart, localEnd } =
+        await this.resolveReportScope(
+          tenantId,
+          startDate,
+          endDate,
+          employeeId,
+          status
+        );
+      const { timezone } = tenant;
+
+      async function* readEmployeeBatches(): AsyncGenerator<string[]> {
+        if (employeeId) {
+          yield [employeeId];
+          return;
+        }
+
+        let cursor: string | undefined;
+        while (true) {
+          const batch = await prisma.employee.findMany({
+            where: { tenantId },
+            select: { id: true },
+            orderBy: { id: 'asc' },
+            take: REPORT_EXPORT_BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+          });
+
+          if (batch.length === 0) {
+            break;
+          }
+
+          yield batch.map(({ id }) => id);
+
+          if (batch.length < REPORT_EXPORT_BATCH_SIZE) {
+            break;
+          }
+          cursor = batch[batch.length - 1].id;
+        }
+      }
+
+      async function* readRows(): AsyncGenerator<AttendanceReportRow[]> {
+        if (status !== 'LEAVE' && status !== 'OVERTIME') {
+          let cursor: string | undefined;
+          while (true) {
+            const batch = await prisma.attendance.findMany({
+              where,
+              include: {
+                employee: { select: { name: true } },
+                location: { select: { name: true } },
+              },
+              orderBy: [{ checkInTime: 'desc' }, { id: 'desc' }],
+              take: REPORT_EXPORT_BATCH_SIZE,
+              ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+            });
+
+            if (batch.length === 0) {
+              break;
+            }
+
+            yield batch.map((attendance) => ({
+              date: toLocalDateString(attendance.checkInTime, timezone),
+              employeeId: attendance.employeeId,
+              employeeName: attendance.employee.name,
+              status: attendance.status,
+              checkInTime: attendance.checkInTime,
+              checkOutTime: attendance.checkOutTime,
+              workedMinutes: attendance.workedMinutes,
+              breakMinutes: attendance.breakMinutes,
+              isEarlyDeparture: attendance.isEarlyDeparture,
+              source: attendance.source,
+              correctedAt: attendance.correctedAt,
+              locationName: attendance.location?.name ?? null,
+              matchConfidence: attendance.matchConfidence,
+              leaveType: null,
+              halfDay: null,
+              overtimeMinutes: null,
+              approvedOvertimeMinutes: null,
+              overtimeStatus: null,
+            }));
+
+            if (batch.length < REPORT_EXPORT_BATCH_SIZE) {
+              break;
+            }
+            cursor = batch[batch.length - 1].id;
+          }
+        }
+
+        if (status && status !== 'LEAVE' && status !== 'OVERTIME') {
+          return;
+        }
+
+        // Leave and overtime days are read for a batch of employees at a time
+        for await (const employeeIds of readEmployeeBatches()) {
+          if (!status || status === 'LEAVE') {
+            const leaveDays = await leaveService.getLeaveDays(
+              tenantId,
+              localStart,
+              localEnd,
+              employeeIds
+            );
+
+            yield leaveDays.map((leaveDay) => ({
+              date: leaveDay.date,
+              employeeId: leaveDay.employeeId,
+              employeeName: leaveDay.employee.name,
+              status: leaveDay.status,
+              checkInTime: null,
+              checkOutTime: null,
+              workedMinutes: null,
+              breakMinutes: null,
+              isEarlyDeparture: null,
+              source: null,
+              correctedAt: null,
+              locationName: null,
+              matchConfidence: null,
+              leaveType: leaveDay.leaveType.name,
+              halfDay: leaveDay.halfDay,
+              overtimeMinutes: null,
+              approvedOvertimeMinutes: null,
+              overtimeStatus: null,
+            }));
+          }
+
+          if (!status || status === 'OVERTIME') {
+            const overtimeDays = await overtimeService.getOvertimeDays(
+              tenantId,
+              localStart,
+              localEnd,
+              employeeIds
+            );
+
+            yield overtimeDays.map((overtimeDay) => ({
+              date: overtimeDay.date,
+              employeeId: overtimeDay.employeeId,
+              employeeName: overtimeDay.employee.name,
+              status: overtimeDay.status,
+              checkInTime: null,
+              checkOutTime: null,
+              workedMinutes: null,
+              breakMinutes: null,
+              isEarlyDeparture: null,
+              source: null,
+              correctedAt: null,
+              locationName: null,
+              matchConfidence: null,
+              leaveType: null,
+              halfDay: null,
+              overtimeMinutes: overtimeDay.overtimeMinutes,
+              approvedOvertimeMinutes: overtimeDay.approvedMinutes,
+              overtimeStatus: overtimeDay.reviewStatus,
+            }));
+          }
+        }
+      }
+
+      return { timezone, rows: readRows() };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error exporting attendance report', error);
+      throw new AppError('Failed to export attendance report', 500);
+    }
+  }
+
+  /**
+   * Resolve a report's tenant, session filter and local date range
+   */
+  private async resolveReportScope(
+    tenantId: string,
+    startDate: string,
+    endDate: string,
+    employeeId?: string,
+    status?: ReportStatus
+  ): Promise<{
+    tenant: Tenant;
+    where: Prisma.AttendanceWhereInput;
+    localStart: string;
+    localEnd: string;
+  }> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+    });
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    const rangeStart = parseDateBoundary(startDate, 'start', tenant.timezone);
+    const rangeEnd = parseDateBoundary(endDate, 'end', tenant.timezone);
+
+    const where: Prisma.AttendanceWhereInput = {
+      tenantId,
+      checkInTime: {
+        gte: rangeStart,
+        lte: rangeEnd,
+      },
+      voidedAt: null,
+    };
+
+    if (employeeId) {
+      // Verify employee belongs to tenant
+      const employee = await prisma.employee.findFirst({
+        where: {
+          id: employeeId,
+          tenantId,
+        },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      where.employeeId = employeeId;
+    }
+
+    if (status && status !== 'LEAVE' && status !== 'OVERTIME') {
+      where.status = status;
+    }
+
+    return {
+      tenant,
+      where,
+      localStart: toLocalDateString(rangeStart, tenant.timezone),
+      localEnd: toLocalDateString(rangeEnd, tenant.timezone),
+    };
+  }
 }
@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { config } from '../../config';
 
 export const locationCheckSchema = Joi.object({
   body: Joi.object({
@@ -16,6 +17,40 @@ export const locationCheckSchema = Joi.object({
       'number.min': 'Longitude must be between -180 and 180',
       'number.max': 'Longitude must be between -180 and 180',
     }),
+    accuracy: Joi.number().min(0).optional().messages({
+      'number.base': 'Accuracy must be a number of meters',
+      'number.min': 'Accuracy cannot be negative',
+    }),
+    altitude: Joi.number().optional(),
+    isMocked: Joi.boolean().optional(),
+    fixTimestamp: Joi.string().isoDate().optional().messages({
+      'string.isoDate': 'Fix timestamp must be a valid date',
+    }),
+  }),
+});
+
+export const livenessChallengeSchema = Joi.object({
+  body: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+    locationToken: Joi.string().required().messages({
+      'string.empty': 'Location token is required',
+    }),
+  }),
+});
+
+export const livenessFrameSchema = Joi.object({
+  params: Joi.object({
+    challengeId: Joi.string().uuid().required().messages({
+      'string.uuid': 'Invalid challenge ID format',
+    }),
+  }),
+  body: Joi.object({
+    nonce: Joi.string().hex().required().messages({
+      'string.empty': 'Nonce is required',
+    }),
   }),
 });
 
@@ -40,6 +75,118 @@ export const checkInSchema = Joi.object({
     locationToken: Joi.string().required().messages({
       'string.empty': 'Location token is required',
     }),
+    liveness: Joi.object({
+      challengeId: Joi.string().uuid().required(),
+      nonce: Joi.string().hex().required(),
+      frames: Joi.array()
+        .items(
+          Joi.object({
+            prompt: Joi.string()
+              .valid('TURN_LEFT', 'TURN_RIGHT', 'LOOK_UP', 'LOOK_DOWN', 'BLINK')
+              .required(),
+            photoUrl: Joi.string().uri().required(),
+          })
+        )
+        .min(1)
+        .max(5)
+        .required(),
+    }).optional(),
+  }),
+});
+
+export const checkOutSchema = Joi.object({
+  body: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+    photoUrl: Joi.string().uri().required().messages({
+      'string.empty': 'Photo URL is required',
+      'string.uri': 'Invalid photo URL',
+    }),
+    embedding: Joi.array()
+      .items(Joi.number())
+      .min(1)
+      .required()
+      .messages({
+        'array.base': 'Embedding must be an array of numbers',
+        'array.min': 'Embedding array cannot be empty',
+      }),
+    locationToken: Joi.string().required().messages({
+      'string.empty': 'Location token is required',
+    }),
+  }),
+});
+
+export const breakSchema = Joi.object({
+  body: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+    photoUrl: Joi.string().uri().required().messages({
+      'string.empty': 'Photo URL is required',
+      'string.uri': 'Invalid photo URL',
+    }),
+    embedding: Joi.array()
+      .items(Joi.number())
+      .min(1)
+      .required()
+      .messages({
+        'array.base': 'Embedding must be an array of numbers',
+        'array.min': 'Embedding array cannot be empty',
+      }),
+    locationToken: Joi.string().required().messages({
+      'string.empty': 'Location token is required',
+    }),
+  }),
+});
+
+export const offlineSyncSchema = Joi.object({
+  body: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+    deviceId: Joi.string().uuid().required().messages({
+      'string.empty': 'Device ID is required',
+      'string.uuid': 'Invalid device ID format',
+    }),
+    punches: Joi.array()
+      .items(
+        Joi.object({
+          clientPunchId: Joi.string().max(100).required(),
+          type: Joi.string()
+            .valid('IN', 'OUT', 'BREAK_START', 'BREAK_END')
+            .required(),
+          // Signed as sent, so it must not be normalized
+          capturedAt: Joi.string()
+            .isoDate()
+            .prefs({ convert: false })
+            .required()
+            .messages({
+              'string.isoDate': 'Capture time must be a valid ISO 8601 date',
+            }),
+          latitude: Joi.number().min(-90).max(90).required(),
+          longitude: Joi.number().min(-180).max(180).required(),
+          accuracy: Joi.number().min(0).optional(),
+          isMocked: Joi.boolean().optional(),
+          photoUrl: Joi.string().uri().required(),
+          embedding: Joi.array().items(Joi.number()).min(1).required(),
+          signature: Joi.string().base64().required().messages({
+            'string.base64': 'Signature must be base64 encoded',
+          }),
+        })
+      )
+      .min(1)
+      .max(config.offline.maxBatchSize)
+      .unique('clientPunchId')
+      .required()
+      .messages({
+        'array.min': 'At least one punch is required',
+        'array.max': `A batch may contain at most ${config.offline.maxBatchSize} punches`,
+        'array.unique': 'Client punch IDs must be unique within a batch',
+      }),
   }),
 });
 
@@ -51,23 +198,59 @@ export const getAttendanceSchema = Joi.object({
     }),
   }),
   query: Joi.object({
-    startDate: Joi.date().iso().optional(),
-    endDate: Joi.date().iso().optional(),
+    startDate: Joi.string().isoDate().optional(),
+    endDate: Joi.string().isoDate().optional(),
     page: Joi.number().integer().min(1).default(1),
     limit: Joi.number().integer().min(1).max(100).default(10),
+    status: Joi.string().valid('ON_TIME', 'LATE', 'HALF_DAY').optional(),
   }),
 });
 
 export const getAttendanceReportSchema = Joi.object({
   query: Joi.object({
-    startDate: Joi.date().iso().required().messages({
-      'date.base': 'Start date must be a valid date',
+    startDate: Joi.string().isoDate().required().messages({
+      'string.isoDate': 'Start date must be a valid date',
       'any.required': 'Start date is required',
     }),
-    endDate: Joi.date().iso().required().messages({
-      'date.base': 'End date must be a valid date',
+    endDate: Joi.string().isoDate().required().messages({
+      'string.isoDate': 'End date must be a valid date',
       'any.required': 'End date is required',
     }),
     employeeId: Joi.string().uuid().optional(),
+    status: Joi.string()
+      .valid('ON_TIME', 'LATE', 'HALF_DAY', 'LEAVE', 'OVERTIME')
+      .optional(),
+    format: Joi.string().valid('json', 'csv', 'xlsx').optional(),
   }),
 });
+
+export const getAttendanceSummarySchema = Joi.object({
+  query: Joi.object({
+    month: Joi.string()
+      .pattern(/^\d{4}-(0[1-9]|1[0-2])$/)
+      .messages({
+        'string.pattern.base': 'Month must be in YYYY-MM format',
+      }),
+    startDate: Joi.string()
+      .pattern(/^\d{4}-\d{2}-\d{2}$/)
+      .messages({
+        'string.pattern.base': 'Start date must be in YYYY-MM-DD format',
+      }),
+    endDate: Joi.string()
+      .pattern(/^\d{4}-\d{2}-\d{2}$/)
+      .messages({
+        'string.pattern.base': 'End date must be in YYYY-MM-DD format',
+      }),
+    employeeId: Joi.string().uuid().optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(500).default(50),
+    format: Joi.string().valid('json', 'csv', 'xlsx').optional(),
+  })
+    .xor('month', 'startDate')
+    .and('startDate', 'endDate')
+    .messages({
+      'object.xor': 'Provide either a month or a start and end date',
+      'object.missing': 'Provide either a month or a start and end date',
+      'object.and': 'Start date and end date must be provided together',
+    }),
+});
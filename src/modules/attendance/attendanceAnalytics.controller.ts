@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import {
+  AttendanceAnalyticsService,
+  type AnalyticsFilters,
+  type AnalyticsGrouping,
+} from './attendanceAnalytics.service';
+import { logger } from '../../utils/logger';
+
+const attendanceAnalyticsService = new AttendanceAnalyticsService();
+
+/**
+ * Range, grouping and employee filter shared by the analytics routes
+ */
+const getAnalyticsFilters = (req: Request): AnalyticsFilters => {
+  const { startDate, endDate, groupBy, employeeId } = req.query;
+
+  return {
+    startDate: startDate as string,
+    endDate: endDate as string,
+    groupBy: groupBy as AnalyticsGrouping | undefined,
+    employeeId: employeeId as string | undefined,
+  };
+};
+
+export class AttendanceAnalyticsController {
+  /**
+   * Get daily headcount present
+   */
+  async getHeadcount(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const headcount = await attendanceAnalyticsService.getHeadcount(
+        req.tenant.tenantId,
+        getAnalyticsFilters(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: headcount,
+      });
+    } catch (error: any) {
+      logger.error('Error in headcount analytics controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to compute headcount analytics',
+      });
+    }
+  }
+
+  /**
+   * Get the punctuality rate over time
+   */
+  async getPunctuality(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const punctuality = await attendanceAnalyticsService.getPunctuality(
+        req.tenant.tenantId,
+        getAnalyticsFilters(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: punctuality,
+      });
+    } catch (error: any) {
+      logger.error('Error in punctuality analytics controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to compute punctuality analytics',
+      });
+    }
+  }
+
+  /**
+   * Get average arrival times
+   */
+  async getArrivalTimes(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const arrivals = await attendanceAnalyticsService.getArrivalTimes(
+        req.tenant.tenantId,
+        getAnalyticsFilters(req)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: arrivals,
+      });
+    } catch (error: any) {
+      logger.error('Error in arrival analytics controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to compute arrival analytics',
+      });
+    }
+  }
+
+  /**
+   * Get the employees late most often
+   */
+  async getTopLateEmployees(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { limit } = req.query;
+
+      const lateEmployees =
+        await attendanceAnalyticsService.getTopLateEmployees(
+          req.tenant.tenantId,
+          getAnalyticsFilters(req),
+          limit ? parseInt(limit as string) : undefined
+        );
+
+      res.status(200).json({
+        success: true,
+        data: lateEmployees,
+      });
+    } catch (error: any) {
+      logger.error('Error in late employees analytics controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to compute late employee analytics',
+      });
+    }
+  }
+
+  /**
+   * Get the distribution of face-match confidence
+   */
+  async getMatchConfidence(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { buckets } = req.query;
+
+      const confidence = await attendanceAnalyticsService.getMatchConfidence(
+        req.tenant.tenantId,
+        getAnalyticsFilters(req),
+        buckets ? parseInt(buckets as string) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: confidence,
+      });
+    } catch (error: any) {
+      logger.error('Error in match confidence analytics controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message:
+          error.message || 'Failed to compute match confidence analytics',
+      });
+    }
+  }
+}
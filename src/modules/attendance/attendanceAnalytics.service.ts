@@ -0,0 +1,522 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import {
+  countDates,
+  fromDateColumn,
+  toDateColumn,
+} from '../../utils/calendarDate';
+import { parseDateBoundary } from '../../utils/timezone';
+
+// Longest range analytics may cover, in days
+const MAX_ANALYTICS_DAYS = 366;
+
+export type AnalyticsGrouping = 'day' | 'week' | 'month';
+
+export interface AnalyticsFilters {
+  startDate: string; // YYYY-MM-DD, tenant-local
+  endDate: string;
+  groupBy?: AnalyticsGrouping;
+  employeeId?: string;
+}
+
+export interface AnalyticsResult<T> {
+  timezone: string;
+  startDate: string;
+  endDate: string;
+  groupBy: AnalyticsGrouping;
+  periods: T[];
+}
+
+/**
+ * Employees present per period
+ * Weeks start on Monday; each period is labeled by its first day.
+ */
+export interface HeadcountPeriod {
+  period: string; // YYYY-MM-DD
+  days: number; // Days of the range in the period
+  presentDays: number; // Employee-days with at least one session
+  averageHeadcount: number;
+  peakHeadcount: number;
+}
+
+export interface PunctualityPeriod {
+  period: string;
+  arrivals: number; // Days with a first session rated against a shift
+  onTime: number;
+  late: number;
+  halfDay: number;
+  punctualityRate: number | null; // Percentage on time, null without arrivals
+}
+
+export interface ArrivalPeriod {
+  period: string;
+  arrivals: number;
+  averageArrivalMinutes: number | null; // After local midnight
+  averageArrival: string | null; // HH:mm
+  earliestArrival: string | null;
+  latestArrival: string | null;
+}
+
+export interface LateEmployee {
+  employeeId: string;
+  employeeName: string;
+  arrivals: number;
+  lateDays: number;
+  halfDays: number;
+  lateRate: number; // Percentage of rated arrivals late or half day
+}
+
+export interface LateEmployeesResult {
+  timezone: string;
+  startDate: string;
+  endDate: string;
+  employees: LateEmployee[];
+}
+
+export interface ConfidenceBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface ConfidencePeriod {
+  period: string;
+  sessions: number;
+  average: number | null;
+  minimum: number | null;
+  p10: number | null;
+  median: number | null;
+}
+
+export interface MatchConfidenceResult
+  extends AnalyticsResult<ConfidencePeriod> {
+  histogram: ConfidenceBucket[];
+}
+
+interface AnalyticsScope {
+  timezone: string;
+  startDate: string;
+  endDate: string;
+  groupBy: AnalyticsGrouping;
+  sessions: Prisma.Sql; // Filter on the `attendances a` rows in range
+}
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const toPercentage = (part: number, whole: number): number | null =>
+  whole > 0 ? round((part / whole) * 100) : null;
+
+/**
+ * Format minutes after midnight as HH:mm
+ */
+const toTimeOfDay = (minutes: number | null): string | null => {
+  if (minutes === null) {
+    return null;
+  }
+  const rounded = Math.round(minutes);
+  const hours = String(Math.floor(rounded / 60) % 24).padStart(2, '0');
+  return `${hours}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Local time of a session's check-in
+ * Timestamps are stored as UTC without a zone, so the UTC value is shifted
+ * into the tenant's zone.
+ */
+const localCheckIn = (timeZone: string): Prisma.Sql =>
+  Prisma.sql`(a."checkInTime" AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})`;
+
+/**
+ * Each employee's first session of every local day in scope
+ * Local times are computed once in the inner query, as DISTINCT ON needs
+ * the same expressions as the ORDER BY.
+ */
+const firstArrivals = (scope: AnalyticsScope): Prisma.Sql => Prisma.sql`
+  SELECT DISTINCT ON (s.employee_id, s.day)
+    s.employee_id,
+    s.day,
+    s.arrived_at,
+    s."status"
+  FROM (
+    SELECT
+      a."employeeId" AS employee_id,
+      ${localCheckIn(scope.timezone)}::date AS day,
+      ${localCheckIn(scope.timezone)} AS arrived_at,
+      a."status",
+      a."checkInTime"
+    FROM attendances a
+    WHERE ${scope.sessions}
+  ) AS s
+  ORDER BY s.employee_id, s.day, s."checkInTime"
+`;
+
+export class AttendanceAnalyticsService {
+  /**
+   * Daily headcount present, per period
+   * Days without any session count as a headcount of zero.
+   */
+  async getHeadcount(
+    tenantId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsResult<HeadcountPeriod>> {
+    try {
+      const scope = await this.resolveScope(tenantId, filters);
+
+      const rows = await prisma.$queryRaw<
+        (Omit<HeadcountPeriod, 'period'> & { period: Date })[]
+      >`
+        WITH days AS (
+          SELECT day::date AS day
+          FROM generate_series(
+            ${scope.startDate}::date,
+            ${scope.endDate}::date,
+            interval '1 day'
+          ) AS day
+        ),
+        present AS (
+          SELECT
+            ${localCheckIn(scope.timezone)}::date AS day,
+            COUNT(DISTINCT a."employeeId")::int AS headcount
+          FROM attendances a
+          WHERE ${scope.sessions}
+          GROUP BY 1
+        )
+        SELECT
+          date_trunc(${scope.groupBy}, d.day::timestamp)::date AS period,
+          COUNT(*)::int AS days,
+          COALESCE(SUM(p.headcount), 0)::int AS "presentDays",
+          ROUND(COALESCE(SUM(p.headcount), 0)::numeric / COUNT(*), 2)::float8
+            AS "averageHeadcount",
+          COALESCE(MAX(p.headcount), 0)::int AS "peakHeadcount"
+        FROM days d
+        LEFT JOIN present p ON p.day = d.day
+        GROUP BY 1
+        ORDER BY 1
+      `;
+
+      return this.toResult(
+        scope,
+        rows.map((row) => ({ ...row, period: fromDateColumn(row.period) }))
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error computing headcount analytics', error);
+      throw new AppError('Failed to compute headcount analytics', 500);
+    }
+  }
+
+  /**
+   * Share of arrivals on time, per period
+   * Only each employee's first session of a day counts, and only when it
+   * was rated against a shift.
+   */
+  async getPunctuality(
+    tenantId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsResult<PunctualityPeriod>> {
+    try {
+      const scope = await this.resolveScope(tenantId, filters);
+
+      const rows = await prisma.$queryRaw<
+        (Omit<PunctualityPeriod, 'period' | 'punctualityRate'> & {
+          period: Date;
+        })[]
+      >`
+        WITH arrivals AS (${firstArrivals(scope)})
+        SELECT
+          date_trunc(${scope.groupBy}, day::timestamp)::date AS period,
+          COUNT(*) FILTER (WHERE "status" IS NOT NULL)::int AS arrivals,
+          COUNT(*) FILTER (WHERE "status" = 'ON_TIME')::int AS "onTime",
+          COUNT(*) FILTER (WHERE "status" = 'LATE')::int AS late,
+          COUNT(*) FILTER (WHERE "status" = 'HALF_DAY')::int AS "halfDay"
+        FROM arrivals
+        GROUP BY 1
+        ORDER BY 1
+      `;
+
+      return this.toResult(
+        scope,
+        rows.map((row) => ({
+          ...row,
+          period: fromDateColumn(row.period),
+          punctualityRate: toPercentage(row.onTime, row.arrivals),
+        }))
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error computing punctuality analytics', error);
+      throw new AppError('Failed to compute punctuality analytics', 500);
+    }
+  }
+
+  /**
+   * Average local time of the first check-in of the day, per period
+   */
+  async getArrivalTimes(
+    tenantId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsResult<ArrivalPeriod>> {
+    try {
+      const scope = await this.resolveScope(tenantId, filters);
+
+      const rows = await prisma.$queryRaw<
+        {
+          period: Date;
+          arrivals: number;
+          average: number | null;
+          earliest: number | null;
+          latest: number | null;
+        }[]
+      >`
+        WITH arrivals AS (
+          SELECT
+            day,
+            EXTRACT(EPOCH FROM arrived_at::time) / 60 AS minutes
+          FROM (${firstArrivals(scope)}) AS first_sessions
+        )
+        SELECT
+          date_trunc(${scope.groupBy}, day::timestamp)::date AS period,
+          COUNT(*)::int AS arrivals,
+          AVG(minutes)::float8 AS average,
+          MIN(minutes)::float8 AS earliest,
+          MAX(minutes)::float8 AS latest
+        FROM arrivals
+        GROUP BY 1
+        ORDER BY 1
+      `;
+
+      return this.toResult(
+        scope,
+        rows.map((row) => ({
+          period: fromDateColumn(row.period),
+          arrivals: row.arrivals,
+          averageArrivalMinutes:
+            row.average === null ? null : round(row.average),
+          averageArrival: toTimeOfDay(row.average),
+          earliestArrival: toTimeOfDay(row.earliest),
+          latestArrival: toTimeOfDay(row.latest),
+        }))
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error computing arrival analytics', error);
+      throw new AppError('Failed to compute arrival analytics', 500);
+    }
+  }
+
+  /**
+   * Employees with the most late or half-day arrivals over the range
+   */
+  async getTopLateEmployees(
+    tenantId: string,
+    filters: AnalyticsFilters,
+    limit: number = 10
+  ): Promise<LateEmployeesResult> {
+    try {
+      const scope = await this.resolveScope(tenantId, filters);
+
+      const rows = await prisma.$queryRaw<Omit<LateEmployee, 'lateRate'>[]>`
+        WITH arrivals AS (${firstArrivals(scope)})
+        SELECT
+          ar.employee_id AS "employeeId",
+          e."name" AS "employeeName",
+          COUNT(*) FILTER (WHERE ar."status" IS NOT NULL)::int AS arrivals,
+          COUNT(*) FILTER (WHERE ar."status" = 'LATE')::int AS "lateDays",
+          COUNT(*) FILTER (WHERE ar."status" = 'HALF_DAY')::int AS "halfDays"
+        FROM arrivals ar
+        JOIN employees e ON e."id" = ar.employee_id
+        GROUP BY ar.employee_id, e."name"
+        HAVING COUNT(*) FILTER (WHERE ar."status" IN ('LATE', 'HALF_DAY')) > 0
+        ORDER BY
+          COUNT(*) FILTER (WHERE ar."status" IN ('LATE', 'HALF_DAY')) DESC,
+          e."name",
+          ar.employee_id
+        LIMIT ${limit}
+      `;
+
+      return {
+        timezone: scope.timezone,
+        startDate: scope.startDate,
+        endDate: scope.endDate,
+        employees: rows.map((row) => ({
+          ...row,
+          lateRate:
+            toPercentage(row.lateDays + row.halfDays, row.arrivals) ?? 0,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error computing late employee analytics', error);
+      throw new AppError('Failed to compute late employee analytics', 500);
+    }
+  }
+
+  /**
+   * Distribution of check-in face-match confidence
+   * Returns a histogram over the whole range, in equal buckets from 0 to
+   * 100, and summary statistics per period.
+   */
+  async getMatchConfidence(
+    tenantId: string,
+    filters: AnalyticsFilters,
+    buckets: number = 10
+  ): Promise<MatchConfidenceResult> {
+    try {
+      const scope = await this.resolveScope(tenantId, filters);
+      const matched = Prisma.sql`${scope.sessions}
+        AND a."matchConfidence" IS NOT NULL`;
+
+      const [histogram, rows] = await Promise.all([
+        prisma.$queryRaw<{ bucket: number; count: number }[]>`
+          SELECT
+            LEAST(
+              GREATEST(
+                width_bucket(a."matchConfidence", 0, 100, ${buckets}::int),
+                1
+              ),
+              ${buckets}::int
+            ) AS bucket,
+            COUNT(*)::int AS count
+          FROM attendances a
+          WHERE ${matched}
+          GROUP BY 1
+        `,
+        prisma.$queryRaw<
+          (Omit<ConfidencePeriod, 'period'> & { period: Date })[]
+        >`
+          SELECT
+            date_trunc(
+              ${scope.groupBy},
+              ${localCheckIn(scope.timezone)}::date::timestamp
+            )::date AS period,
+            COUNT(*)::int AS sessions,
+            ROUND(AVG(a."matchConfidence")::numeric, 2)::float8 AS average,
+            MIN(a."matchConfidence")::float8 AS minimum,
+            ROUND(
+              percentile_cont(0.1) WITHIN GROUP (
+                ORDER BY a."matchConfidence"
+              )::numeric,
+              2
+            )::float8 AS p10,
+            ROUND(
+              percentile_cont(0.5) WITHIN GROUP (
+                ORDER BY a."matchConfidence"
+              )::numeric,
+              2
+            )::float8 AS median
+          FROM attendances a
+          WHERE ${matched}
+          GROUP BY 1
+          ORDER BY 1
+        `,
+      ]);
+
+      const counts = new Map(histogram.map((row) => [row.bucket, row.count]));
+      const width = 100 / buckets;
+
+      return {
+        ...this.toResult(
+          scope,
+          rows.map((row) => ({ ...row, period: fromDateColumn(row.period) }))
+        ),
+        histogram: Array.from({ length: buckets }, (_, index) => ({
+          min: round(index * width),
+          max: round((index + 1) * width),
+          count: counts.get(index + 1) ?? 0,
+        })),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error computing match confidence analytics', error);
+      throw new AppError('Failed to compute match confidence analytics', 500);
+    }
+  }
+
+  /**
+   * Resolve the tenant's zone, check the range and build the session filter
+   */
+  private async resolveScope(
+    tenantId: string,
+    filters: AnalyticsFilters
+  ): Promise<AnalyticsScope> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    const { startDate, endDate } = filters;
+
+    if (endDate < startDate) {
+      throw new AppError('End date must not be before start date', 400);
+    }
+
+    if (
+      countDates(toDateColumn(startDate), toDateColumn(endDate)) >
+      MAX_ANALYTICS_DAYS
+    ) {
+      throw new AppError(
+        `Analytics cannot span more than ${MAX_ANALYTICS_DAYS} days`,
+        400
+      );
+    }
+
+    if (filters.employeeId) {
+      const employee = await prisma.employee.findFirst({
+        where: {
+          id: filters.employeeId,
+          tenantId,
+        },
+        select: { id: true },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+    }
+
+    const rangeStart = parseDateBoundary(startDate, 'start', tenant.timezone);
+    const rangeEnd = parseDateBoundary(endDate, 'end', tenant.timezone);
+
+    return {
+      timezone: tenant.timezone,
+      startDate,
+      endDate,
+      groupBy: filters.groupBy ?? 'day',
+      sessions: Prisma.sql`a."tenantId" = ${tenantId}::uuid
+        AND a."checkInTime" >= ${rangeStart.toISOString()}::timestamp
+        AND a."checkInTime" <= ${rangeEnd.toISOString()}::timestamp
+        AND a."voidedAt" IS NULL
+        ${
+          filters.employeeId
+            ? Prisma.sql`AND a."employeeId" = ${filters.employeeId}::uuid`
+            : Prisma.empty
+        }`,
+    };
+  }
+
+  private toResult<T>(scope: AnalyticsScope, periods: T[]): AnalyticsResult<T> {
+    return {
+      timezone: scope.timezone,
+      startDate: scope.startDate,
+      endDate: scope.endDate,
+      groupBy: scope.groupBy,
+      periods,
+    };
+  }
+}
@@ -0,0 +1,43 @@
+import Joi from 'joi';
+
+const analyticsQuery = {
+  startDate: Joi.string()
+    .pattern(/^\d{4}-\d{2}-\d{2}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format',
+      'any.required': 'Start date is required',
+    }),
+  endDate: Joi.string()
+    .pattern(/^\d{4}-\d{2}-\d{2}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'End date must be in YYYY-MM-DD format',
+      'any.required': 'End date is required',
+    }),
+  employeeId: Joi.string().uuid().optional(),
+};
+
+const groupBy = Joi.string().valid('day', 'week', 'month').default('day');
+
+export const getAnalyticsSchema = Joi.object({
+  query: Joi.object({
+    ...analyticsQuery,
+    groupBy,
+  }),
+});
+
+export const getTopLateEmployeesSchema = Joi.object({
+  query: Joi.object({
+    ...analyticsQuery,
+    limit: Joi.number().integer().min(1).max(100).default(10),
+  }),
+});
+
+export const getMatchConfidenceSchema = Joi.object({
+  query: Joi.object({
+    ...analyticsQuery,
+    groupBy,
+    buckets: Joi.number().integer().min(2).max(50).default(10),
+  }),
+});
@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { AttendanceEntryService } from './attendanceEntry.service';
+import { logger } from '../../utils/logger';
+
+const attendanceEntryService = new AttendanceEntryService();
+
+export class AttendanceEntryController {
+  /**
+   * Create a manual attendance entry
+   */
+  async createEntry(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const entry = await attendanceEntryService.createEntry(
+        req.tenant.tenantId,
+        req.tenant.username,
+        req.body
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Attendance entry created successfully',
+        data: entry,
+      });
+    } catch (error: any) {
+      logger.error('Error in create attendance entry controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create attendance entry',
+      });
+    }
+  }
+
+  /**
+   * Get an attendance entry with its revision history
+   */
+  async getEntry(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const entry = await attendanceEntryService.getEntry(
+        req.params.attendanceId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: entry,
+      });
+    } catch (error: any) {
+      logger.error('Error in get attendance entry controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch attendance entry',
+      });
+    }
+  }
+
+  /**
+   * Correct an attendance entry's times
+   */
+  async correctEntry(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const entry = await attendanceEntryService.correctEntry(
+        req.params.attendanceId,
+        req.tenant.tenantId,
+        req.tenant.username,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Attendance entry corrected successfully',
+        data: entry,
+      });
+    } catch (error: any) {
+      logger.error('Error in correct attendance entry controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to correct attendance entry',
+      });
+    }
+  }
+
+  /**
+   * Void an attendance entry
+   */
+  async voidEntry(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const entry = await attendanceEntryService.voidEntry(
+        req.params.attendanceId,
+        req.tenant.tenantId,
+        req.tenant.username,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Attendance entry voided successfully',
+        data: entry,
+      });
+    } catch (error: any) {
+      logger.error('Error in void attendance entry controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to void attendance entry',
+      });
+    }
+  }
+}
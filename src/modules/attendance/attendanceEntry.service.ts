@@ -0,0 +1,661 @@
+import {
+  Prisma,
+  type Attendance,
+  type AttendanceRevision,
+  type AttendanceRevisionAction,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { parseTimeOfDay } from '../../utils/shiftTiming';
+import { getSessionEnd, sessionsOverlap } from '../../utils/sessionSpan';
+import {
+  startOfDayInZone,
+  toLocalDateString,
+  withLocalTimestamps,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
+import {
+  AttendanceService,
+  type AttendanceWithPunches,
+} from './attendance.service';
+
+const attendanceService = new AttendanceService();
+
+export interface ManualEntryInput {
+  employeeId: string;
+  date: string; // YYYY-MM-DD, tenant-local
+  checkInTime: string; // HH:mm
+  checkOutTime?: string; // HH:mm, at or before check-in means the next day
+  reason: string;
+}
+
+export interface EntryCorrectionInput {
+  checkInTime?: string; // HH:mm, on the session's local date
+  checkOutTime?: string; // HH:mm, at or before check-in means the next day
+  reason: string;
+}
+
+export type LocalAttendanceRevision = AttendanceRevision & {
+  createdAtLocal: string | null;
+};
+
+export interface AttendanceEntry {
+  timezone: string;
+  attendance: Attendance & {
+    checkInTimeLocal: string | null;
+    checkOutTimeLocal: string | null;
+    voidedAtLocal: string | null;
+  };
+  revisions: LocalAttendanceRevision[];
+}
+
+/**
+ * Convert a tenant-local time on a date to an instant
+ * When `after` is given, a time at or before it rolls over to the next day
+ */
+const toEntryTime = (
+  timeZone: string,
+  date: string,
+  time: string,
+  after?: Date
+): Date => {
+  const [year, month, day] = date.split('-').map((part) => parseInt(part, 10));
+  const minutes = parseTimeOfDay(time);
+  const instant = zonedTimeToUtc(timeZone, year, month, day, 0, minutes);
+
+  return after && instant <= after
+    ? zonedTimeToUtc(timeZone, year, month, day + 1, 0, minutes)
+    : instant;
+};
+
+/**
+ * State of a session and its punches as stored in a revision
+ */
+const toSnapshot = (
+  attendance: AttendanceWithPunches
+): Prisma.InputJsonObject => ({
+  id: attendance.id,
+  employeeId: attendance.employeeId,
+  checkInTime: attendance.checkInTime.toISOString(),
+  checkOutTime: attendance.checkOutTime?.toISOString() ?? null,
+  workedMinutes: attendance.workedMinutes,
+  breakMinutes: attendance.breakMinutes,
+  status: attendance.status,
+  isEarlyDeparture: attendance.isEarlyDeparture,
+  source: attendance.source,
+  voidedAt: attendance.voidedAt?.toISOString() ?? null,
+  voidReason: attendance.voidReason,
+  punches: attendance.punches.map((punch) => ({
+    id: punch.id,
+    type: punch.type,
+    punchTime: punch.punchTime.toISOString(),
+    source: punch.source,
+  })),
+});
+
+/**
+ * Read a session with its punches inside a transaction
+ */
+const readSession = (
+  tx: Prisma.TransactionClient,
+  attendanceId: string
+): Promise<AttendanceWithPunches> =>
+  tx.attendance.findUniqueOrThrow({
+    where: { id: attendanceId },
+    include: {
+      punches: {
+        orderBy: { punchTime: 'asc' },
+      },
+    },
+  });
+
+/**
+ * Check if an error is a conflict between concurrent transactions
+ */
+const isConcurrentWriteError = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === 'P2034';
+
+export class AttendanceEntryService {
+  /**
+   * Create a session on behalf of an employee
+   * The session and its punches are marked MANUAL and the first revision
+   * records who entered it and why
+   */
+  async createEntry(
+    tenantId: string,
+    changedBy: string,
+    input: ManualEntryInput
+  ): Promise<AttendanceEntry> {
+    try {
+      const [tenant, employee] = await Promise.all([
+        prisma.tenant.findUnique({ where: { id: tenantId } }),
+        prisma.employee.findFirst({
+          where: { id: input.employeeId, tenantId },
+        }),
+      ]);
+
+      if (!tenant) {
+        throw new AppError('Tenant not found', 404);
+      }
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const checkInTime = toEntryTime(
+        tenant.timezone,
+        input.date,
+        input.checkInTime
+      );
+      const checkOutTime = input.checkOutTime
+        ? toEntryTime(
+            tenant.timezone,
+            input.date,
+            input.checkOutTime,
+            checkInTime
+          )
+        : null;
+
+      this.assertNotFuture(checkInTime, checkOutTime);
+
+      const shift = employee.shiftId
+        ? await prisma.shift.findUnique({ where: { id: employee.shiftId } })
+        : null;
+
+      const attendanceId = await prisma.$transaction(
+        async (tx) => {
+          await this.assertNoOverlap(
+            tx,
+            tenant.timezone,
+            employee.id,
+            checkInTime,
+            checkOutTime
+          );
+
+          const manualPunch = {
+            tenantId,
+            employeeId: employee.id,
+            photoUrl: employee.photoUrl,
+            source: 'MANUAL' as const,
+          };
+
+          const attendance = await tx.attendance.create({
+            data: {
+              tenantId,
+              employeeId: employee.id,
+              photoUrl: employee.photoUrl,
+              embedding: employee.embedding as Prisma.InputJsonValue,
+              checkInTime,
+              source: 'MANUAL',
+            },
+          });
+
+          await tx.attendancePunch.createMany({
+            data: [
+              {
+                ...manualPunch,
+                attendanceId: attendance.id,
+                type: 'IN',
+                punchTime: checkInTime,
+              },
+              ...(checkOutTime
+                ? [
+                    {
+                      ...manualPunch,
+                      attendanceId: attendance.id,
+                      type: 'OUT' as const,
+                      punchTime: checkOutTime,
+                    },
+                  ]
+                : []),
+            ],
+          });
+
+          await attendanceService.recomputeSession(
+            tx,
+            attendance.id,
+            shift,
+            tenant
+          );
+
+          await this.recordRevision(tx, {
+            action: 'CREATE',
+            reason: input.reason,
+            changedBy,
+            before: null,
+            after: await readSession(tx, attendance.id),
+          });
+
+          return attendance.id;
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+
+      logger.info('Manual attendance entry created', {
+        attendanceId,
+        employeeId: employee.id,
+        tenantId,
+        changedBy,
+      });
+
+      return this.getEntry(attendanceId, tenantId);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (isConcurrentWriteError(error)) {
+        throw new AppError(
+          'The employee attendance changed at the same time, please retry',
+          409
+        );
+      }
+      logger.error('Error creating manual attendance entry', error);
+      throw new AppError('Failed to create attendance entry', 500);
+    }
+  }
+
+  /**
+   * Correct a session's check-in and/or check-out
+   * The first IN moves to the new check-in; the last OUT moves to the new
+   * check-out, or one is added when the session is still open. Breaks in
+   * between are kept and must stay inside the corrected times.
+   */
+  async correctEntry(
+    attendanceId: string,
+    tenantId: string,
+    changedBy: string,
+    input: EntryCorrectionInput
+  ): Promise<AttendanceEntry> {
+    try {
+      const session = await this.findForTenant(attendanceId, tenantId);
+
+      if (session.voidedAt) {
+        throw new AppError('A voided attendance entry cannot be changed', 409);
+      }
+
+      const [tenant, employee] = await Promise.all([
+        prisma.tenant.findUniqueOrThrow({ where: { id: tenantId } }),
+        prisma.employee.findUniqueOrThrow({
+          where: { id: session.employeeId },
+        }),
+      ]);
+
+      const date = toLocalDateString(session.checkInTime, tenant.timezone);
+      const checkInTime = input.checkInTime
+        ? toEntryTime(tenant.timezone, date, input.checkInTime)
+        : session.checkInTime;
+      const checkOutTime = input.checkOutTime
+        ? toEntryTime(tenant.timezone, date, input.checkOutTime, checkInTime)
+        : session.checkOutTime;
+
+      this.assertNotFuture(checkInTime, checkOutTime);
+
+      const shift = employee.shiftId
+        ? await prisma.shift.findUnique({ where: { id: employee.shiftId } })
+        : null;
+
+      await prisma.$transaction(
+        async (tx) => {
+          const before = await readSession(tx, attendanceId);
+
+          if (before.voidedAt) {
+            throw new AppError(
+              'A voided attendance entry cannot be changed',
+              409
+            );
+          }
+
+          await this.assertNoOverlap(
+            tx,
+            tenant.timezone,
+            session.employeeId,
+            checkInTime,
+            checkOutTime,
+            attendanceId
+          );
+
+          const { punches } = before;
+          const firstIn = punches[0];
+          const afterFirstIn = punches[1];
+
+          if (afterFirstIn && afterFirstIn.punchTime <= checkInTime) {
+            throw new AppError(
+              'Check-in must be before the other punches of the session',
+              409
+            );
+          }
+
+          if (firstIn.punchTime.getTime() !== checkInTime.getTime()) {
+            await tx.attendancePunch.update({
+              where: { id: firstIn.id },
+              data: { punchTime: checkInTime, source: 'MANUAL' },
+            });
+          }
+
+          // The first IN may also be the punch a check-out is compared against
+          const lastPunch = punches[punches.length - 1];
+          const lastTime =
+            lastPunch.id === firstIn.id ? checkInTime : lastPunch.punchTime;
+
+          if (input.checkOutTime && checkOutTime) {
+            switch (lastPunch.type) {
+              case 'OUT': {
+                const beforeLast = punches[punches.length - 2];
+                const beforeLastTime =
+                  beforeLast.id === firstIn.id
+                    ? checkInTime
+                    : beforeLast.punchTime;
+
+                if (beforeLastTime >= checkOutTime) {
+                  throw new AppError(
+                    'Check-out must be after the other punches of the session',
+                    409
+                  );
+                }
+                if (lastPunch.punchTime.getTime() !== checkOutTime.getTime()) {
+                  await tx.attendancePunch.update({
+                    where: { id: lastPunch.id },
+                    data: { punchTime: checkOutTime, source: 'MANUAL' },
+                  });
+                }
+                break;
+              }
+              case 'IN':
+              case 'BREAK_END':
+                if (lastTime >= checkOutTime) {
+                  throw new AppError(
+                    'Check-out must be after the other punches of the session',
+                    409
+                  );
+                }
+                await tx.attendancePunch.create({
+                  data: {
+                    tenantId,
+                    employeeId: session.employeeId,
+                    attendanceId,
+                    type: 'OUT',
+                    punchTime: checkOutTime,
+                    photoUrl: employee.photoUrl,
+                    source: 'MANUAL',
+                  },
+                });
+                break;
+              case 'BREAK_START':
+                throw new AppError(
+                  'The session ends in an open break; it cannot be closed by a check-out',
+                  409
+                );
+            }
+          }
+
+          // The session keeps its source and is marked as corrected
+          await attendanceService.recomputeSession(
+            tx,
+            attendanceId,
+            shift,
+            tenant,
+            { correctedAt: new Date() }
+          );
+
+          await this.recordRevision(tx, {
+            action: 'UPDATE',
+            reason: input.reason,
+            changedBy,
+            before,
+            after: await readSession(tx, attendanceId),
+          });
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+
+      logger.info('Attendance entry corrected', {
+        attendanceId,
+        tenantId,
+        changedBy,
+      });
+
+      return this.getEntry(attendanceId, tenantId);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (isConcurrentWriteError(error)) {
+        throw new AppError(
+          'The employee attendance changed at the same time, please retry',
+          409
+        );
+      }
+      logger.error('Error correcting attendance entry', error);
+      throw new AppError('Failed to correct attendance entry', 500);
+    }
+  }
+
+  /**
+   * Void a session; it is kept with its punches but left out of reports,
+   * summaries, overtime and payroll
+   */
+  async voidEntry(
+    attendanceId: string,
+    tenantId: string,
+    changedBy: string,
+    reason: string
+  ): Promise<AttendanceEntry> {
+    try {
+      await this.findForTenant(attendanceId, tenantId);
+
+      await prisma.$transaction(
+        async (tx) => {
+          const before = await readSession(tx, attendanceId);
+
+          const claimed = await tx.attendance.updateMany({
+            where: { id: attendanceId, voidedAt: null },
+            data: { voidedAt: new Date(), voidReason: reason },
+          });
+
+          if (claimed.count === 0) {
+            throw new AppError(
+              'Attendance entry has already been voided',
+              409
+            );
+          }
+
+          await this.recordRevision(tx, {
+            action: 'VOID',
+            reason,
+            changedBy,
+            before,
+            after: await readSession(tx, attendanceId),
+          });
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+
+      logger.info('Attendance entry voided', {
+        attendanceId,
+        tenantId,
+        changedBy,
+      });
+
+      return this.getEntry(attendanceId, tenantId);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (isConcurrentWriteError(error)) {
+        throw new AppError(
+          'The employee attendance changed at the same time, please retry',
+          409
+        );
+      }
+      logger.error('Error voiding attendance entry', error);
+      throw new AppError('Failed to void attendance entry', 500);
+    }
+  }
+
+  /**
+   * Get a session, voided or not, with its revision history, oldest first
+   */
+  async getEntry(
+    attendanceId: string,
+    tenantId: string
+  ): Promise<AttendanceEntry> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const attendance = await this.findForTenant(attendanceId, tenantId);
+
+      const revisions = await prisma.attendanceRevision.findMany({
+        where: { attendanceId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return {
+        timezone,
+        attendance: withLocalTimestamps(
+          attendance,
+          ['checkInTime', 'checkOutTime', 'voidedAt'],
+          timezone
+        ),
+        revisions: revisions.map((revision) =>
+          withLocalTimestamps(revision, ['createdAt'], timezone)
+        ),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching attendance entry', error);
+      throw new AppError('Failed to fetch attendance entry', 500);
+    }
+  }
+
+  /**
+   * Append a revision; revisions are never updated, and keep their
+   * snapshots after the session or employee is deleted
+   */
+  private async recordRevision(
+    tx: Prisma.TransactionClient,
+    revision: {
+      action: AttendanceRevisionAction;
+      reason: string;
+      changedBy: string;
+      before: AttendanceWithPunches | null;
+      after: AttendanceWithPunches;
+    }
+  ): Promise<void> {
+    const { after } = revision;
+    const employee = await tx.employee.findUniqueOrThrow({
+      where: { id: after.employeeId },
+      select: { name: true },
+    });
+
+    await tx.attendanceRevision.create({
+      data: {
+        tenantId: after.tenantId,
+        attendanceId: after.id,
+        employeeId: after.employeeId,
+        employeeName: employee.name,
+        action: revision.action,
+        reason: revision.reason,
+        changedBy: revision.changedBy,
+        before: revision.before
+          ? toSnapshot(revision.before)
+          : Prisma.JsonNull,
+        after: toSnapshot(after),
+      },
+    });
+  }
+
+  /**
+   * Reject entry times in the future
+   */
+  private assertNotFuture(checkInTime: Date, checkOutTime: Date | null): void {
+    const now = new Date();
+
+    if (checkInTime > now || (checkOutTime && checkOutTime > now)) {
+      throw new AppError('Attendance times cannot be in the future', 400);
+    }
+  }
+
+  /**
+   * Reject a span that overlaps another live session of the employee
+   * Open sessions, this one included, end with their own local day
+   */
+  private async assertNoOverlap(
+    tx: Prisma.TransactionClient,
+    timezone: string,
+    employeeId: string,
+    checkInTime: Date,
+    checkOutTime: Date | null,
+    excludeAttendanceId?: string
+  ): Promise<void> {
+    const span = { checkInTime, checkOutTime };
+
+    // Open sessions from before the entry's local day end before it starts
+    const candidates = await tx.attendance.findMany({
+      where: {
+        employeeId,
+        voidedAt: null,
+        ...(excludeAttendanceId && { id: { not: excludeAttendanceId } }),
+        checkInTime: { lte: getSessionEnd(span, timezone) },
+        OR: [
+          {
+            checkOutTime: null,
+            checkInTime: { gte: startOfDayInZone(checkInTime, timezone) },
+          },
+          { checkOutTime: { gte: checkInTime } },
+        ],
+      },
+      select: { checkInTime: true, checkOutTime: true },
+    });
+
+    const overlapping = candidates.some((session) =>
+      sessionsOverlap(session, span, timezone)
+    );
+
+    if (overlapping) {
+      throw new AppError(
+        'The entry overlaps another attendance session of the employee',
+        409
+      );
+    }
+  }
+
+  /**
+   * Find a session belonging to a tenant
+   */
+  private async findForTenant(
+    attendanceId: string,
+    tenantId: string
+  ): Promise<Attendance> {
+    const attendance = await prisma.attendance.findFirst({
+      where: {
+        id: attendanceId,
+        tenantId,
+      },
+    });
+
+    if (!attendance) {
+      throw new AppError('Attendance entry not found', 404);
+    }
+
+    return attendance;
+  }
+
+  /**
+   * Get a tenant's time zone
+   */
+  private async getTenantTimezone(tenantId: string): Promise<string> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    return tenant.timezone;
+  }
+}
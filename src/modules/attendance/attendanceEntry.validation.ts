@@ -0,0 +1,69 @@
+import Joi from 'joi';
+
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const reason = Joi.string().trim().min(5).max(500).required().messages({
+  'string.empty': 'Reason is required',
+  'any.required': 'Reason is required',
+  'string.min': 'Reason must be at least 5 characters',
+  'string.max': 'Reason must not exceed 500 characters',
+});
+
+const attendanceIdParams = Joi.object({
+  attendanceId: Joi.string().uuid().required().messages({
+    'string.empty': 'Attendance ID is required',
+    'string.uuid': 'Invalid attendance ID format',
+  }),
+});
+
+export const createEntrySchema = Joi.object({
+  body: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+    date: Joi.string()
+      .pattern(/^\d{4}-\d{2}-\d{2}$/)
+      .required()
+      .messages({
+        'string.empty': 'Date is required',
+        'string.pattern.base': 'Date must be in YYYY-MM-DD format',
+      }),
+    checkInTime: timeOfDay.required().messages({
+      'string.empty': 'Check-in time is required',
+      'string.pattern.base': 'Check-in time must be in HH:mm format',
+    }),
+    checkOutTime: timeOfDay.optional().messages({
+      'string.pattern.base': 'Check-out time must be in HH:mm format',
+    }),
+    reason,
+  }),
+});
+
+export const getEntrySchema = Joi.object({
+  params: attendanceIdParams,
+});
+
+export const correctEntrySchema = Joi.object({
+  params: attendanceIdParams,
+  body: Joi.object({
+    checkInTime: timeOfDay.optional().messages({
+      'string.pattern.base': 'Check-in time must be in HH:mm format',
+    }),
+    checkOutTime: timeOfDay.optional().messages({
+      'string.pattern.base': 'Check-out time must be in HH:mm format',
+    }),
+    reason,
+  })
+    .or('checkInTime', 'checkOutTime')
+    .messages({
+      'object.missing': 'A check-in or check-out time is required',
+    }),
+});
+
+export const voidEntrySchema = Joi.object({
+  params: attendanceIdParams,
+  body: Joi.object({
+    reason,
+  }),
+});
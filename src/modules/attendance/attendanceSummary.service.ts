@@ -0,0 +1,404 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { countDates, toDateColumn } from '../../utils/calendarDate';
+import { parseDateBoundary, toLocalDateString } from '../../utils/timezone';
+
+// Longest period a summary may cover, in days
+const MAX_SUMMARY_DAYS = 366;
+
+// Employees summarized per query when exporting
+const SUMMARY_EXPORT_BATCH_SIZE = 500;
+
+export interface AttendanceSummaryFilters {
+  month?: string; // YYYY-MM, tenant-local
+  startDate?: string; // YYYY-MM-DD, tenant-local, instead of a month
+  endDate?: string;
+  employeeId?: string;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * One employee's day counts for a period
+ * Days before the employee was added and days after today are neither
+ * working nor absent. Holidays take precedence over weekly offs.
+ */
+export interface EmployeeAttendanceSummary {
+  employeeId: string;
+  employeeName: string;
+  workingDays: number;
+  presentDays: number; // Days with a session, non-working days included
+  absentDays: number; // Working days with neither a session nor leave
+  lateDays: number;
+  halfDays: number;
+  leaveDays: number; // Approved leave on working days, half days as 0.5
+  unpaidLeaveDays: number; // Part of leaveDays taken as unpaid leave
+  holidays: number;
+  weeklyOffs: number;
+  workedMinutes: number;
+  workedHours: number;
+  overtimeMinutes: number; // Approved overtime
+}
+
+export interface AttendanceSummaryExport {
+  timezone: string;
+  startDate: string;
+  endDate: string;
+  rows: AsyncIterable<EmployeeAttendanceSummary[]>;
+}
+
+export interface AttendanceSummary {
+  timezone: string;
+  startDate: string;
+  endDate: string;
+  employees: EmployeeAttendanceSummary[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Last day of a YYYY-MM month, as YYYY-MM-DD
+ */
+const getMonthEnd = (month: string): string => {
+  const [year, monthNumber] = month
+    .split('-')
+    .map((part) => parseInt(part, 10));
+  return new Date(Date.UTC(year, monthNumber, 0)).toISOString().slice(0, 10);
+};
+
+export class AttendanceSummaryService {
+  /**
+   * Summarize attendance per employee over a period
+   * Runs as one query: every employee is crossed with every day of the
+   * period in the tenant's zone, then joined with sessions, approved leave,
+   * approved overtime, holidays and weekly offs and counted per employee.
+   */
+  async getSummary(
+    tenantId: string,
+    filters: AttendanceSummaryFilters
+  ): Promise<AttendanceSummary> {
+    try {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { timezone: true },
+      });
+
+      if (!tenant) {
+        throw new AppError('Tenant not found', 404);
+      }
+
+      const { timezone } = tenant;
+      const { startDate, endDate } = await this.resolvePeriod(
+        tenantId,
+        filters
+      );
+
+      const page = filters.page || 1;
+      const limit = filters.limit || 50;
+
+      const [employees, total] = await Promise.all([
+        this.querySummary(tenantId, timezone, startDate, endDate, {
+          employeeId: filters.employeeId,
+          offset: (page - 1) * limit,
+          limit,
+        }),
+        prisma.employee.count({
+          where: {
+            tenantId,
+            ...(filters.employeeId && { id: filters.employeeId }),
+          },
+        }),
+      ]);
+
+      return {
+        timezone,
+        startDate,
+        endDate,
+        employees,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error generating attendance summary', error);
+      throw new AppError('Failed to generate attendance summary', 500);
+    }
+  }
+
+  /**
+   * Prepare a summary for streaming, a batch of employees at a time
+   */
+  async exportSummary(
+    tenantId: string,
+    filters: AttendanceSummaryFilters
+  ): Promise<AttendanceSummaryExport> {
+    try {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { timezone: true },
+      });
+
+      if (!tenant) {
+        throw new AppError('Tenant not found', 404);
+      }
+
+      const { timezone } = tenant;
+      const { startDate, endDate } = await this.resolvePeriod(
+        tenantId,
+        filters
+      );
+      const querySummary = this.querySummary.bind(this);
+
+      async function* readRows(): AsyncGenerator<EmployeeAttendanceSummary[]> {
+        for (let offset = 0; ; offset += SUMMARY_EXPORT_BATCH_SIZE) {
+          const batch = await querySummary(
+            tenantId,
+            timezone,
+            startDate,
+            endDate,
+            {
+              employeeId: filters.employeeId,
+              offset,
+              limit: SUMMARY_EXPORT_BATCH_SIZE,
+            }
+          );
+
+          if (batch.length > 0) {
+            yield batch;
+          }
+
+          if (batch.length < SUMMARY_EXPORT_BATCH_SIZE) {
+            return;
+          }
+        }
+      }
+
+      return { timezone, startDate, endDate, rows: readRows() };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error exporting attendance summary', error);
+      throw new AppError('Failed to export attendance summary', 500);
+    }
+  }
+
+  /**
+   * Resolve the period of a summary and check the employee filter
+   */
+  private async resolvePeriod(
+    tenantId: string,
+    filters: AttendanceSummaryFilters
+  ): Promise<{ startDate: string; endDate: string }> {
+    const startDate = filters.month
+      ? `${filters.month}-01`
+      : (filters.startDate as string);
+    const endDate = filters.month
+      ? getMonthEnd(filters.month)
+      : (filters.endDate as string);
+
+    if (endDate < startDate) {
+      throw new AppError('End date must not be before start date', 400);
+    }
+
+    if (
+      countDates(toDateColumn(startDate), toDateColumn(endDate)) >
+      MAX_SUMMARY_DAYS
+    ) {
+      throw new AppError(
+        `A summary cannot span more than ${MAX_SUMMARY_DAYS} days`,
+        400
+      );
+    }
+
+    if (filters.employeeId) {
+      const employee = await prisma.employee.findFirst({
+        where: {
+          id: filters.employeeId,
+          tenantId,
+        },
+        select: { id: true },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+    }
+
+    return { startDate, endDate };
+  }
+
+  /**
+   * Run the summary query for a page of employees
+   * Timestamps are stored as UTC without a zone, so session days are the
+   * UTC value shifted into the tenant's zone.
+   */
+  private async querySummary(
+    tenantId: string,
+    timeZone: string,
+    startDate: string,
+    endDate: string,
+    options: { employeeId?: string; offset: number; limit: number }
+  ): Promise<EmployeeAttendanceSummary[]> {
+    const rangeStart = parseDateBoundary(startDate, 'start', timeZone);
+    const rangeEnd = parseDateBoundary(endDate, 'end', timeZone);
+    const today = toLocalDateString(new Date(), timeZone);
+
+    const employeeFilter = options.employeeId
+      ? Prisma.sql`AND e."id" = ${options.employeeId}::uuid`
+      : Prisma.empty;
+
+    const rows = await prisma.$queryRaw<
+      Omit<EmployeeAttendanceSummary, 'workedHours'>[]
+    >`
+      WITH days AS (
+        SELECT day::date AS day
+        FROM generate_series(
+          ${startDate}::date,
+          ${endDate}::date,
+          interval '1 day'
+        ) AS day
+      ),
+      staff AS (
+        SELECT
+          e."id",
+          e."name",
+          (e."createdAt" AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})::date
+            AS joined,
+          COALESCE(s."weeklyOffs", '{}'::int[]) AS shift_offs
+        FROM employees e
+        LEFT JOIN shifts s ON s."id" = e."shiftId"
+        WHERE e."tenantId" = ${tenantId}::uuid ${employeeFilter}
+        ORDER BY e."name", e."id"
+        OFFSET ${options.offset}
+        LIMIT ${options.limit}
+      ),
+      sessions AS (
+        SELECT
+          a."employeeId" AS employee_id,
+          (a."checkInTime" AT TIME ZONE 'UTC' AT TIME ZONE ${timeZone})::date
+            AS day,
+          bool_or(a."status" = 'LATE') AS late,
+          bool_or(a."status" = 'HALF_DAY') AS half_day,
+          SUM(COALESCE(a."workedMinutes", 0)) AS worked_minutes
+        FROM attendances a
+        WHERE a."tenantId" = ${tenantId}::uuid
+          AND a."employeeId" IN (SELECT "id" FROM staff)
+          AND a."checkInTime" >= ${rangeStart.toISOString()}::timestamp
+          AND a."checkInTime" <= ${rangeEnd.toISOString()}::timestamp
+          AND a."voidedAt" IS NULL
+        GROUP BY 1, 2
+      ),
+      leaves AS (
+        SELECT
+          lr."employeeId" AS employee_id,
+          d.day,
+          MAX(CASE WHEN lr."halfDay" THEN 0.5 ELSE 1 END) AS fraction,
+          MAX(
+            CASE
+              WHEN lt."isPaid" THEN 0
+              WHEN lr."halfDay" THEN 0.5
+              ELSE 1
+            END
+          ) AS unpaid_fraction
+        FROM leave_requests lr
+        JOIN leave_types lt ON lt."id" = lr."leaveTypeId"
+        JOIN days d ON d.day BETWEEN lr."startDate" AND lr."endDate"
+        WHERE lr."tenantId" = ${tenantId}::uuid
+          AND lr."employeeId" IN (SELECT "id" FROM staff)
+          AND lr."status" = 'APPROVED'
+        GROUP BY 1, 2
+      ),
+      overtime AS (
+        SELECT
+          o."employeeId" AS employee_id,
+          o."date" AS day,
+          o."approvedMinutes" AS approved_minutes
+        FROM overtime_records o
+        WHERE o."tenantId" = ${tenantId}::uuid
+          AND o."employeeId" IN (SELECT "id" FROM staff)
+          AND o."status" = 'APPROVED'
+          AND o."date" BETWEEN ${startDate}::date AND ${endDate}::date
+      ),
+      holidays AS (
+        SELECT h."date" AS day
+        FROM tenant_holidays h
+        WHERE h."tenantId" = ${tenantId}::uuid
+          AND h."date" BETWEEN ${startDate}::date AND ${endDate}::date
+      ),
+      calendar AS (
+        SELECT
+          st."id" AS employee_id,
+          st."name",
+          d.day,
+          d.day >= st.joined AND d.day <= ${today}::date AS counted,
+          h.day IS NOT NULL AS is_holiday,
+          h.day IS NULL AND (
+            EXTRACT(DOW FROM d.day)::int = ANY(st.shift_offs)
+            OR EXISTS (
+              SELECT 1
+              FROM weekly_off_rules r
+              WHERE r."tenantId" = ${tenantId}::uuid
+                AND r."weekday" = EXTRACT(DOW FROM d.day)::int
+                AND (
+                  cardinality(r."weeks") = 0
+                  OR CEIL(EXTRACT(DAY FROM d.day) / 7)::int = ANY(r."weeks")
+                  OR (
+                    -1 = ANY(r."weeks")
+                    AND EXTRACT(MONTH FROM d.day + 7)
+                      <> EXTRACT(MONTH FROM d.day)
+                  )
+                )
+            )
+          ) AS is_weekly_off
+        FROM staff st
+        CROSS JOIN days d
+        LEFT JOIN holidays h ON h.day = d.day
+      )
+      SELECT
+        c.employee_id AS "employeeId",
+        c."name" AS "employeeName",
+        COUNT(*) FILTER (
+          WHERE c.counted AND NOT c.is_holiday AND NOT c.is_weekly_off
+        )::int AS "workingDays",
+        COUNT(s.day)::int AS "presentDays",
+        COALESCE(SUM(1 - COALESCE(l.fraction, 0)) FILTER (
+          WHERE c.counted AND s.day IS NULL
+            AND NOT c.is_holiday AND NOT c.is_weekly_off
+        ), 0)::float8 AS "absentDays",
+        COUNT(*) FILTER (WHERE s.late)::int AS "lateDays",
+        COUNT(*) FILTER (WHERE s.half_day)::int AS "halfDays",
+        COALESCE(SUM(l.fraction) FILTER (
+          WHERE c.counted AND NOT c.is_holiday AND NOT c.is_weekly_off
+        ), 0)::float8 AS "leaveDays",
+        COALESCE(SUM(l.unpaid_fraction) FILTER (
+          WHERE c.counted AND NOT c.is_holiday AND NOT c.is_weekly_off
+        ), 0)::float8 AS "unpaidLeaveDays",
+        COUNT(*) FILTER (
+          WHERE c.counted AND c.is_holiday
+        )::int AS "holidays",
+        COUNT(*) FILTER (
+          WHERE c.counted AND c.is_weekly_off
+        )::int AS "weeklyOffs",
+        COALESCE(SUM(s.worked_minutes), 0)::int AS "workedMinutes",
+        COALESCE(SUM(o.approved_minutes), 0)::int AS "overtimeMinutes"
+      FROM calendar c
+      LEFT JOIN sessions s ON s.employee_id = c.employee_id AND s.day = c.day
+      LEFT JOIN leaves l ON l.employee_id = c.employee_id AND l.day = c.day
+      LEFT JOIN overtime o ON o.employee_id = c.employee_id AND o.day = c.day
+      GROUP BY c.employee_id, c."name"
+      ORDER BY c."name", c.employee_id
+    `;
+
+    return rows.map((row) => ({
+      ...row,
+      workedHours: Math.round((row.workedMinutes / 60) * 100) / 100,
+    }));
+  }
+}
@@ -0,0 +1,243 @@
+import type { LivenessPrompt } from '@prisma/client';
+import prisma from '../../config/database';
+import { config } from '../../config';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { verifyLocationToken } from '../../utils/jwt';
+import {
+  getLivenessFrameUrlPrefix,
+  uploadLivenessFrame,
+} from '../../utils/s3Uploader';
+import {
+  generateLivenessNonce,
+  pickLivenessPrompts,
+} from '../../utils/liveness';
+import type {
+  FaceReference,
+  FaceVerificationOptions,
+  FaceVerifier,
+  LivenessFrame,
+  LivenessResult,
+} from '../../utils/faceVerifier';
+
+export interface CreateLivenessChallengeInput {
+  employeeId: string;
+  locationToken: string;
+}
+
+export interface LivenessChallengeResponse {
+  challengeId: string;
+  nonce: string;
+  prompts: LivenessPrompt[];
+  expiresAt: Date;
+}
+
+export interface UploadLivenessFrameInput {
+  challengeId: string;
+  nonce: string;
+  file: {
+    buffer: Buffer;
+    originalname: string;
+    mimetype: string;
+  };
+}
+
+/**
+ * Completed challenge submitted with a check-in
+ */
+export interface LivenessInput {
+  challengeId: string;
+  nonce: string;
+  frames: LivenessFrame[];
+}
+
+const INVALID_CHALLENGE_MESSAGE =
+  'Liveness challenge is invalid, expired or already used';
+
+/**
+ * Check that every frame was uploaded for the challenge, once each
+ * URLs are normalized first so "../" cannot step out of the challenge
+ */
+const areFramesBoundToChallenge = (
+  frames: LivenessFrame[],
+  challengeId: string
+): boolean => {
+  const prefix = getLivenessFrameUrlPrefix(challengeId);
+  const urls = frames.map((frame) => new URL(frame.photoUrl).href);
+
+  return (
+    urls.every((url) => url.startsWith(prefix)) &&
+    new Set(urls).size === urls.length
+  );
+};
+
+export class LivenessService {
+  /**
+   * Issue a liveness challenge for an employee who passed the location check
+   */
+  async createChallenge(
+    input: CreateLivenessChallengeInput
+  ): Promise<LivenessChallengeResponse> {
+    let locationPayload;
+    try {
+      locationPayload = verifyLocationToken(input.locationToken);
+    } catch (error) {
+      throw new AppError('Invalid or expired location token', 401);
+    }
+
+    if (locationPayload.employeeId !== input.employeeId) {
+      throw new AppError('Employee ID mismatch with location token', 403);
+    }
+
+    try {
+      const challenge = await prisma.livenessChallenge.create({
+        data: {
+          tenantId: locationPayload.tenantId,
+          employeeId: input.employeeId,
+          nonce: generateLivenessNonce(),
+          prompts: pickLivenessPrompts(config.liveness.promptCount),
+          expiresAt: new Date(
+            Date.now() + config.liveness.challengeTtlSeconds * 1000
+          ),
+        },
+      });
+
+      logger.info('Liveness challenge issued', {
+        challengeId: challenge.id,
+        employeeId: input.employeeId,
+      });
+
+      return {
+        challengeId: challenge.id,
+        nonce: challenge.nonce,
+        prompts: challenge.prompts,
+        expiresAt: challenge.expiresAt,
+      };
+    } catch (error) {
+      logger.error('Error creating liveness challenge', error);
+      throw new AppError('Failed to create liveness challenge', 500);
+    }
+  }
+
+  /**
+   * Store a frame under its challenge
+   * Only accepted while the challenge is pending, so frames are captured
+   * after it was issued and before it expires
+   */
+  async uploadFrame(
+    input: UploadLivenessFrameInput
+  ): Promise<{ photoUrl: string }> {
+    const challenge = await prisma.livenessChallenge.findFirst({
+      where: {
+        id: input.challengeId,
+        nonce: input.nonce,
+        status: 'PENDING',
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (!challenge) {
+      throw new AppError(INVALID_CHALLENGE_MESSAGE, 400);
+    }
+
+    try {
+      const photoUrl = await uploadLivenessFrame(
+        input.file.buffer,
+        input.file.originalname,
+        input.file.mimetype,
+        challenge.id
+      );
+
+      return { photoUrl };
+    } catch (error) {
+      logger.error('Error uploading liveness frame', error);
+      throw new AppError('Failed to upload liveness frame', 500);
+    }
+  }
+
+  /**
+   * Consume a challenge and check the submitted frames
+   * The challenge is claimed before verification so it can only be used once
+   */
+  async verifyChallenge(
+    employeeId: string,
+    input: LivenessInput,
+    reference: FaceReference,
+    verifier: FaceVerifier,
+    options: FaceVerificationOptions
+  ): Promise<LivenessResult> {
+    const now = new Date();
+
+    const claimed = await prisma.livenessChallenge.updateMany({
+      where: {
+        id: input.challengeId,
+        employeeId,
+        nonce: input.nonce,
+        status: 'PENDING',
+        expiresAt: { gt: now },
+      },
+      data: {
+        status: 'FAILED',
+        completedAt: now,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new AppError(INVALID_CHALLENGE_MESSAGE, 400);
+    }
+
+    const challenge = await prisma.livenessChallenge.findUniqueOrThrow({
+      where: { id: input.challengeId },
+    });
+
+    const followsPrompts =
+      input.frames.length === challenge.prompts.length &&
+      input.frames.every(
+        (frame, index) => frame.prompt === challenge.prompts[index]
+      );
+
+    if (!followsPrompts) {
+      throw new AppError(
+        'Liveness frames must answer the challenge prompts in order',
+        400
+      );
+    }
+
+    if (!areFramesBoundToChallenge(input.frames, challenge.id)) {
+      throw new AppError(
+        'Liveness frames must be uploaded for this challenge',
+        400
+      );
+    }
+
+    let result: LivenessResult;
+    try {
+      result = await verifier.checkLiveness(
+        reference,
+        input.frames,
+        options
+      );
+    } catch (error) {
+      logger.error(`${verifier.provider} liveness check error`, error);
+      throw new AppError('Liveness check failed. Please try again.', 500);
+    }
+
+    await prisma.livenessChallenge.update({
+      where: { id: challenge.id },
+      data: {
+        status: result.passed ? 'PASSED' : 'FAILED',
+        score: result.score,
+      },
+    });
+
+    logger.info('Liveness challenge completed', {
+      challengeId: challenge.id,
+      employeeId,
+      provider: verifier.provider,
+      passed: result.passed,
+      score: result.score,
+    });
+
+    return result;
+  }
+}
@@ -0,0 +1,75 @@
+import type { Prisma } from '@prisma/client';
+import prisma from '../../config/database';
+import { config } from '../../config';
+import { logger } from '../../utils/logger';
+import type { LocationTokenClaims } from '../../utils/jwt';
+
+export class LocationTokenService {
+  /**
+   * Check if a location token has already been consumed
+   */
+  async isUsed(jti: string): Promise<boolean> {
+    const used = await prisma.usedLocationToken.findUnique({
+      where: { jti },
+      select: { jti: true },
+    });
+    return used !== null;
+  }
+
+  /**
+   * Mark a location token as used
+   * Runs inside the punch transaction; returns false if another request
+   * consumed the token first
+   */
+  async consume(
+    tx: Prisma.TransactionClient,
+    claims: LocationTokenClaims
+  ): Promise<boolean> {
+    const { count } = await tx.usedLocationToken.createMany({
+      data: [
+        {
+          jti: claims.jti,
+          tenantId: claims.tenantId,
+          employeeId: claims.employeeId,
+          expiresAt: new Date(claims.exp * 1000),
+        },
+      ],
+      skipDuplicates: true,
+    });
+    return count === 1;
+  }
+
+  /**
+   * Delete used token IDs whose tokens have expired (they fail verification anyway)
+   */
+  async purgeExpired(): Promise<number> {
+    const { count } = await prisma.usedLocationToken.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+    return count;
+  }
+}
+
+/**
+ * Periodically purge expired used-token rows
+ * Returns the timer so the caller can stop it on shutdown
+ */
+export const scheduleLocationTokenCleanup = (
+  intervalMs: number = config.jwt.locationTokenCleanupIntervalMs
+): NodeJS.Timeout => {
+  const locationTokenService = new LocationTokenService();
+
+  const timer = setInterval(async () => {
+    try {
+      const count = await locationTokenService.purgeExpired();
+      if (count > 0) {
+        logger.info('Purged expired location tokens', { count });
+      }
+    } catch (error) {
+      logger.error('Error purging expired location tokens', error);
+    }
+  }, intervalMs);
+
+  timer.unref();
+  return timer;
+};
@@ -1,8 +1,41 @@
 import { Request, Response } from 'express';
-import { EmployeeService } from './employee.service';
+import { EmployeeService, type EmployeeExportRow } from './employee.service';
+import { EmployeeDeviceService } from './employeeDevice.service';
+import { TenantLocationService } from '../tenants/tenantLocation.service';
 import { logger } from '../../utils/logger';
+import {
+  resolveExportFormat,
+  streamExport,
+  toLocalCell,
+  type ExportColumn,
+} from '../../utils/tableExport';
 
 const employeeService = new EmployeeService();
+const tenantLocationService = new TenantLocationService();
+const employeeDeviceService = new EmployeeDeviceService();
+
+/**
+ * Spreadsheet columns of the exported employee list
+ */
+const getEmployeeColumns = (
+  timeZone: string
+): ExportColumn<EmployeeExportRow>[] => [
+  { header: 'Employee ID', value: (row) => row.id, width: 38 },
+  { header: 'Name', value: (row) => row.name, width: 24 },
+  { header: 'Contact Number', value: (row) => row.contactNumber, width: 16 },
+  {
+    header: 'Emergency Contact Number',
+    value: (row) => row.emergencyContactNumber,
+  },
+  { header: 'Salary', value: (row) => row.salary.toNumber() },
+  { header: 'Shift', value: (row) => row.shift?.name, width: 20 },
+  { header: 'Geofence Mode', value: (row) => row.geofenceMode, width: 16 },
+  {
+    header: 'Created At',
+    value: (row) => toLocalCell(row.createdAt, timeZone),
+    width: 20,
+  },
+];
 
 export class EmployeeController {
   /**
@@ -70,6 +103,7 @@ export class EmployeeController {
             createdAt: employee.createdAt,
             updatedAt: employee.updatedAt,
           },
+          timezone: employee.timezone,
           lastMonthAttendance: employee.lastMonthAttendance,
         },
       });
@@ -97,6 +131,23 @@ export class EmployeeController {
 
       const { page, limit, search } = req.query;
 
+      const format = resolveExportFormat(req);
+      if (format !== 'json') {
+        const { timezone, rows } = await employeeService.exportEmployees(
+          req.tenant.tenantId,
+          search as string
+        );
+
+        await streamExport(
+          res,
+          format,
+          'employees',
+          getEmployeeColumns(timezone),
+          rows
+        );
+        return;
+      }
+
       const result = await employeeService.listEmployees(
         req.tenant.tenantId,
         page ? parseInt(page as string) : 1,
@@ -181,4 +232,138 @@ export class EmployeeController {
       });
     }
   }
+
+  /**
+   * Set the office locations an employee may check in from
+   */
+  async setLocations(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { employeeId } = req.params;
+
+      const locations = await tenantLocationService.setEmployeeLocations(
+        employeeId,
+        req.tenant.tenantId,
+        req.body.locationIds
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Employee locations updated successfully',
+        data: locations,
+      });
+    } catch (error: any) {
+      logger.error('Error in set employee locations controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update employee locations',
+      });
+    }
+  }
+
+  /**
+   * Enroll a device key for signing offline punches
+   */
+  async enrollDevice(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const device = await employeeDeviceService.enrollDevice({
+        tenantId: req.tenant.tenantId,
+        employeeId: req.params.employeeId,
+        ...req.body,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Device enrolled successfully',
+        data: device,
+      });
+    } catch (error: any) {
+      logger.error('Error in enroll device controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to enroll device',
+      });
+    }
+  }
+
+  /**
+   * List the enrolled devices of an employee
+   */
+  async listDevices(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const devices = await employeeDeviceService.listDevices(
+        req.params.employeeId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: devices,
+      });
+    } catch (error: any) {
+      logger.error('Error in list devices controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list devices',
+      });
+    }
+  }
+
+  /**
+   * Revoke an enrolled device
+   */
+  async revokeDevice(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { employeeId, deviceId } = req.params;
+
+      const device = await employeeDeviceService.revokeDevice(
+        deviceId,
+        employeeId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Device revoked successfully',
+        data: device,
+      });
+    } catch (error: any) {
+      logger.error('Error in revoke device controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to revoke device',
+      });
+    }
+  }
 }
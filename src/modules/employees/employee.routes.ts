@@ -7,6 +7,10 @@ import {
   getEmployeeSchema,
   deleteEmployeeSchema,
   listEmployeesSchema,
+  setEmployeeLocationsSchema,
+  enrollDeviceSchema,
+  listDevicesSchema,
+  revokeDeviceSchema,
 } from './employee.validation';
 import { authenticateTenant } from '../../middlewares/auth.middleware';
 
@@ -71,4 +75,48 @@ router.delete(
   employeeController.delete.bind(employeeController)
 );
 
+/**
+ * @route   PUT /api/employees/:employeeId/locations
+ * @desc    Set the office locations an employee may check in from
+ * @access  Private (Tenant)
+ */
+router.put(
+  '/:employeeId/locations',
+  validate(setEmployeeLocationsSchema),
+  employeeController.setLocations.bind(employeeController)
+);
+
+/**
+ * @route   POST /api/employees/:employeeId/devices
+ * @desc    Enroll a device key for signing offline punches
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:employeeId/devices',
+  validate(enrollDeviceSchema),
+  employeeController.enrollDevice.bind(employeeController)
+);
+
+/**
+ * @route   GET /api/employees/:employeeId/devices
+ * @desc    List the enrolled devices of an employee
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/:employeeId/devices',
+  validate(listDevicesSchema),
+  employeeController.listDevices.bind(employeeController)
+);
+
+/**
+ * @route   DELETE /api/employees/:employeeId/devices/:deviceId
+ * @desc    Revoke an enrolled device
+ * @access  Private (Tenant)
+ */
+router.delete(
+  '/:employeeId/devices/:deviceId',
+  validate(revokeDeviceSchema),
+  employeeController.revokeDevice.bind(employeeController)
+);
+
 export default router;
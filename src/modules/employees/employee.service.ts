@@ -1,8 +1,19 @@
-import type { Employee, Attendance } from '@prisma/client';
+import type {
+  Employee,
+  Attendance,
+  GeofenceMode,
+  Prisma,
+  Shift,
+} from '@prisma/client';
 import prisma from '../../config/database';
 import { AppError } from '../../middlewares/error.middleware';
 import { logger } from '../../utils/logger';
 import { isValidEmbedding } from '../../utils/validators';
+import {
+  getZonedParts,
+  withLocalTimestamps,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
 
 export interface RegisterEmployeeInput {
   tenantId: string;
@@ -12,12 +23,30 @@ export interface RegisterEmployeeInput {
   salary: number;
   emergencyContactNumber: string;
   contactNumber: string;
+  shiftId?: string | null;
+  geofenceMode?: GeofenceMode | null; // Null follows the tenant setting
 }
 
 export interface EmployeeWithAttendance extends Employee {
-  lastMonthAttendance: Attendance[];
+  timezone: string;
+  lastMonthAttendance: (Attendance & {
+    checkInTimeLocal: string | null;
+    checkOutTimeLocal: string | null;
+  })[];
 }
 
+export type EmployeeExportRow = Omit<Employee, 'embedding'> & {
+  shift: Pick<Shift, 'name'> | null;
+};
+
+export interface EmployeeExport {
+  timezone: string;
+  rows: AsyncIterable<EmployeeExportRow[]>;
+}
+
+// Employees read per query when exporting
+const EXPORT_BATCH_SIZE = 500;
+
 export class EmployeeService {
   /**
    * Register a new employee
@@ -38,6 +67,10 @@ export class EmployeeService {
         throw new AppError('Tenant not found', 404);
       }
 
+      if (input.shiftId) {
+        await this.assertShiftBelongsToTenant(input.shiftId, input.tenantId);
+      }
+
       // Create employee
       const employee = await prisma.employee.create({
         data: {
@@ -48,6 +81,8 @@ export class EmployeeService {
           salary: input.salary,
           emergencyContactNumber: input.emergencyContactNumber,
           contactNumber: input.contactNumber,
+          shiftId: input.shiftId,
+          geofenceMode: input.geofenceMode,
         },
       });
 
@@ -74,9 +109,22 @@ export class EmployeeService {
     tenantId: string
   ): Promise<EmployeeWithAttendance> {
     try {
-      // Calculate date one month ago
-      const oneMonthAgo = new Date();
-      oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+      });
+
+      if (!tenant) {
+        throw new AppError('Tenant not found', 404);
+      }
+
+      // Start of the same local day one month ago, in the tenant's time zone
+      const today = getZonedParts(new Date(), tenant.timezone);
+      const oneMonthAgo = zonedTimeToUtc(
+        tenant.timezone,
+        today.year,
+        today.month - 1,
+        today.day
+      );
 
       // Fetch employee with attendance
       const employee = await prisma.employee.findFirst({
@@ -90,6 +138,7 @@ export class EmployeeService {
               checkInTime: {
                 gte: oneMonthAgo,
               },
+              voidedAt: null,
             },
             orderBy: {
               checkInTime: 'desc',
@@ -104,7 +153,14 @@ export class EmployeeService {
 
       return {
         ...employee,
-        lastMonthAttendance: employee.attendances,
+        timezone: tenant.timezone,
+        lastMonthAttendance: employee.attendances.map((attendance) =>
+          withLocalTimestamps(
+            attendance,
+            ['checkInTime', 'checkOutTime'],
+            tenant.timezone
+          )
+        ),
       };
     } catch (error) {
       if (error instanceof AppError) {
@@ -174,6 +230,66 @@ export class EmployeeService {
     }
   }
 
+  /**
+   * Prepare the employee list for streaming, a batch at a time
+   * Embeddings are left out; the search matches the list endpoint's.
+   */
+  async exportEmployees(
+    tenantId: string,
+    search?: string
+  ): Promise<EmployeeExport> {
+    try {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { timezone: true },
+      });
+
+      if (!tenant) {
+        throw new AppError('Tenant not found', 404);
+      }
+
+      const where: Prisma.EmployeeWhereInput = { tenantId };
+
+      if (search) {
+        where.name = {
+          contains: search,
+          mode: 'insensitive',
+        };
+      }
+
+      async function* readRows(): AsyncGenerator<EmployeeExportRow[]> {
+        let cursor: string | undefined;
+        while (true) {
+          const batch = await prisma.employee.findMany({
+            where,
+            omit: { embedding: true },
+            include: { shift: { select: { name: true } } },
+            orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+            take: EXPORT_BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+          });
+
+          if (batch.length > 0) {
+            yield batch;
+          }
+
+          if (batch.length < EXPORT_BATCH_SIZE) {
+            return;
+          }
+          cursor = batch[batch.length - 1].id;
+        }
+      }
+
+      return { timezone: tenant.timezone, rows: readRows() };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error exporting employees', error);
+      throw new AppError('Failed to export employees', 500);
+    }
+  }
+
   /**
    * Update employee
    */
@@ -200,6 +316,10 @@ export class EmployeeService {
         throw new AppError('Employee not found', 404);
       }
 
+      if (updates.shiftId) {
+        await this.assertShiftBelongsToTenant(updates.shiftId, tenantId);
+      }
+
       // Update employee
       const updatedEmployee = await prisma.employee.update({
         where: { id: employeeId },
@@ -255,4 +375,23 @@ export class EmployeeService {
       throw new AppError('Failed to delete employee', 500);
     }
   }
+
+  /**
+   * Ensure a shift exists and belongs to the tenant
+   */
+  private async assertShiftBelongsToTenant(
+    shiftId: string,
+    tenantId: string
+  ): Promise<void> {
+    const shift = await prisma.shift.findFirst({
+      where: {
+        id: shiftId,
+        tenantId,
+      },
+    });
+
+    if (!shift) {
+      throw new AppError('Shift not found', 404);
+    }
+  }
 }
@@ -37,6 +37,12 @@ export const registerEmployeeSchema = Joi.object({
         'string.empty': 'Contact number is required',
         'string.pattern.base': 'Invalid contact number format',
       }),
+    shiftId: Joi.string().uuid().optional().messages({
+      'string.uuid': 'Invalid shift ID format',
+    }),
+    geofenceMode: Joi.string()
+      .valid('ON_SITE_ONLY', 'FIELD_ONLY', 'ANYWHERE')
+      .optional(),
   }),
 });
 
@@ -58,6 +64,11 @@ export const updateEmployeeSchema = Joi.object({
     contactNumber: Joi.string()
       .pattern(/^[6-9]\d{9}$/)
       .optional(),
+    shiftId: Joi.string().uuid().allow(null).optional(),
+    geofenceMode: Joi.string()
+      .valid('ON_SITE_ONLY', 'FIELD_ONLY', 'ANYWHERE')
+      .allow(null)
+      .optional(),
   }),
 });
 
@@ -84,5 +95,67 @@ export const listEmployeesSchema = Joi.object({
     page: Joi.number().integer().min(1).default(1),
     limit: Joi.number().integer().min(1).max(100).default(10),
     search: Joi.string().optional(),
+    format: Joi.string().valid('json', 'csv', 'xlsx').optional(),
+  }),
+});
+
+export const setEmployeeLocationsSchema = Joi.object({
+  params: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+  }),
+  body: Joi.object({
+    locationIds: Joi.array()
+      .items(Joi.string().uuid())
+      .unique()
+      .required()
+      .messages({
+        'array.base': 'Location IDs must be an array',
+        'string.guid': 'Invalid location ID format',
+      }),
+  }),
+});
+
+export const enrollDeviceSchema = Joi.object({
+  params: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+  }),
+  body: Joi.object({
+    name: Joi.string().max(100).optional(),
+    publicKey: Joi.string()
+      .pattern(/^-----BEGIN PUBLIC KEY-----/)
+      .max(1000)
+      .required()
+      .messages({
+        'string.empty': 'Public key is required',
+        'string.pattern.base': 'Public key must be PEM encoded (SPKI)',
+      }),
+  }),
+});
+
+export const listDevicesSchema = Joi.object({
+  params: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+  }),
+});
+
+export const revokeDeviceSchema = Joi.object({
+  params: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+    deviceId: Joi.string().uuid().required().messages({
+      'string.empty': 'Device ID is required',
+      'string.uuid': 'Invalid device ID format',
+    }),
   }),
 });
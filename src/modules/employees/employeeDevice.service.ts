@@ -0,0 +1,150 @@
+import type { EmployeeDevice } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { parseDevicePublicKey } from '../../utils/deviceSignature';
+
+export interface EnrollDeviceInput {
+  tenantId: string;
+  employeeId: string;
+  name?: string;
+  publicKey: string;
+}
+
+export class EmployeeDeviceService {
+  /**
+   * Enroll a device key used to sign offline punches
+   */
+  async enrollDevice(input: EnrollDeviceInput): Promise<EmployeeDevice> {
+    try {
+      await this.assertEmployeeBelongsToTenant(
+        input.employeeId,
+        input.tenantId
+      );
+
+      if (!parseDevicePublicKey(input.publicKey)) {
+        throw new AppError(
+          'Public key must be a PEM encoded Ed25519 or ECDSA P-256 key',
+          400
+        );
+      }
+
+      const device = await prisma.employeeDevice.create({
+        data: {
+          tenantId: input.tenantId,
+          employeeId: input.employeeId,
+          name: input.name,
+          publicKey: input.publicKey.trim(),
+        },
+      });
+
+      logger.info('Employee device enrolled successfully', {
+        deviceId: device.id,
+        employeeId: input.employeeId,
+        tenantId: input.tenantId,
+      });
+
+      return device;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error enrolling employee device', error);
+      throw new AppError('Failed to enroll device', 500);
+    }
+  }
+
+  /**
+   * List the devices of an employee, revoked ones included
+   */
+  async listDevices(
+    employeeId: string,
+    tenantId: string
+  ): Promise<EmployeeDevice[]> {
+    try {
+      await this.assertEmployeeBelongsToTenant(employeeId, tenantId);
+
+      return await prisma.employeeDevice.findMany({
+        where: {
+          employeeId,
+          tenantId,
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error listing employee devices', error);
+      throw new AppError('Failed to list devices', 500);
+    }
+  }
+
+  /**
+   * Revoke a device; punches it signed later are rejected on sync
+   */
+  async revokeDevice(
+    deviceId: string,
+    employeeId: string,
+    tenantId: string
+  ): Promise<EmployeeDevice> {
+    try {
+      const device = await prisma.employeeDevice.findFirst({
+        where: {
+          id: deviceId,
+          employeeId,
+          tenantId,
+        },
+      });
+
+      if (!device) {
+        throw new AppError('Device not found', 404);
+      }
+
+      if (device.revokedAt) {
+        return device;
+      }
+
+      const revoked = await prisma.employeeDevice.update({
+        where: { id: deviceId },
+        data: { revokedAt: new Date() },
+      });
+
+      logger.info('Employee device revoked', {
+        deviceId,
+        employeeId,
+        tenantId,
+      });
+
+      return revoked;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error revoking employee device', error);
+      throw new AppError('Failed to revoke device', 500);
+    }
+  }
+
+  /**
+   * Ensure an employee exists and belongs to the tenant
+   */
+  private async assertEmployeeBelongsToTenant(
+    employeeId: string,
+    tenantId: string
+  ): Promise<void> {
+    const employee = await prisma.employee.findFirst({
+      where: {
+        id: employeeId,
+        tenantId,
+      },
+      select: { id: true },
+    });
+
+    if (!employee) {
+      throw new AppError('Employee not found', 404);
+    }
+  }
+}
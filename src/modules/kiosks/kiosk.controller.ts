@@ -0,0 +1,199 @@
+import { Request, Response } from 'express';
+import { KioskService, type KioskPunchResult } from './kiosk.service';
+import { logger } from '../../utils/logger';
+import { formatInZone } from '../../utils/timezone';
+
+const kioskService = new KioskService();
+
+/**
+ * Respond with a recorded punch, or ask for confirmation digits
+ */
+const sendPunchResult = (res: Response, result: KioskPunchResult): void => {
+  if (result.status === 'CONFIRMATION_REQUIRED') {
+    res.status(200).json({
+      success: true,
+      message: `Please enter the last ${result.confirmationDigits} digits of your contact number.`,
+      data: result,
+    });
+    return;
+  }
+
+  const { attendance, punch, timezone } = result.punch;
+
+  res.status(201).json({
+    success: true,
+    message: 'Punch recorded successfully',
+    data: {
+      status: result.status,
+      employee: result.employee,
+      attendanceId: attendance.id,
+      punchId: punch.id,
+      type: punch.type,
+      punchTime: punch.punchTime,
+      punchTimeLocal: formatInZone(punch.punchTime, timezone),
+      matchConfidence: punch.matchConfidence,
+    },
+  });
+};
+
+export class KioskController {
+  /**
+   * Register a kiosk
+   */
+  async registerKiosk(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const registered = await kioskService.registerKiosk({
+        tenantId: req.tenant.tenantId,
+        ...req.body,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Kiosk registered successfully. Store the key now; it is not shown again.',
+        data: registered,
+      });
+    } catch (error: any) {
+      logger.error('Error in register kiosk controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to register kiosk',
+      });
+    }
+  }
+
+  /**
+   * List kiosks
+   */
+  async listKiosks(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const kiosks = await kioskService.listKiosks(req.tenant.tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: kiosks,
+      });
+    } catch (error: any) {
+      logger.error('Error in list kiosks controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list kiosks',
+      });
+    }
+  }
+
+  /**
+   * Revoke a kiosk
+   */
+  async revokeKiosk(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const kiosk = await kioskService.revokeKiosk(
+        req.params.kioskId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Kiosk revoked successfully',
+        data: kiosk,
+      });
+    } catch (error: any) {
+      logger.error('Error in revoke kiosk controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to revoke kiosk',
+      });
+    }
+  }
+
+  /**
+   * Identify the employee at a kiosk and record their punch
+   */
+  async punch(req: Request, res: Response): Promise<void> {
+    try {
+      const kioskKey = req.get('x-kiosk-key');
+
+      if (!kioskKey) {
+        res.status(401).json({
+          success: false,
+          message: 'Kiosk key required',
+        });
+        return;
+      }
+
+      const { type, photoUrl, embedding } = req.body;
+
+      const result = await kioskService.punch(kioskKey, {
+        type,
+        photoUrl,
+        embedding,
+      });
+
+      sendPunchResult(res, result);
+    } catch (error: any) {
+      logger.error('Error in kiosk punch controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to record punch',
+      });
+    }
+  }
+
+  /**
+   * Record a kiosk punch confirmed with contact number digits after an
+   * ambiguous match
+   */
+  async confirmPunch(req: Request, res: Response): Promise<void> {
+    try {
+      const kioskKey = req.get('x-kiosk-key');
+
+      if (!kioskKey) {
+        res.status(401).json({
+          success: false,
+          message: 'Kiosk key required',
+        });
+        return;
+      }
+
+      const { type, photoUrl, embedding, confirmationDigits } = req.body;
+
+      const result = await kioskService.punch(kioskKey, {
+        type,
+        photoUrl,
+        embedding,
+        confirmationDigits,
+      });
+
+      sendPunchResult(res, result);
+    } catch (error: any) {
+      logger.error('Error in confirm kiosk punch controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to record punch',
+      });
+    }
+  }
+}
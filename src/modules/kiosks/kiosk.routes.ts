@@ -0,0 +1,74 @@
+import { Router } from 'express';
+import { KioskController } from './kiosk.controller';
+import { validate } from '../../middlewares/validate.middleware';
+import {
+  registerKioskSchema,
+  revokeKioskSchema,
+  kioskPunchSchema,
+  confirmKioskPunchSchema,
+} from './kiosk.validation';
+import { authenticateTenant } from '../../middlewares/auth.middleware';
+import { strictLimiter } from '../../middlewares/rateLimiter.middleware';
+
+const router = Router();
+const kioskController = new KioskController();
+
+/**
+ * @route   POST /api/kiosks/punch
+ * @desc    Identify the employee by face (1:N) and record their punch
+ * @access  Public (requires kiosk key)
+ */
+router.post(
+  '/punch',
+  validate(kioskPunchSchema),
+  kioskController.punch.bind(kioskController)
+);
+
+/**
+ * @route   POST /api/kiosks/punch/confirm
+ * @desc    Record a punch confirmed with contact number digits after an ambiguous match
+ * @access  Public (requires kiosk key)
+ */
+router.post(
+  '/punch/confirm',
+  strictLimiter,
+  validate(confirmKioskPunchSchema),
+  kioskController.confirmPunch.bind(kioskController)
+);
+
+/**
+ * @route   POST /api/kiosks
+ * @desc    Register a kiosk and issue its key
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/',
+  authenticateTenant,
+  validate(registerKioskSchema),
+  kioskController.registerKiosk.bind(kioskController)
+);
+
+/**
+ * @route   GET /api/kiosks
+ * @desc    List kiosks
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/',
+  authenticateTenant,
+  kioskController.listKiosks.bind(kioskController)
+);
+
+/**
+ * @route   POST /api/kiosks/:kioskId/revoke
+ * @desc    Revoke a kiosk's key
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:kioskId/revoke',
+  authenticateTenant,
+  validate(revokeKioskSchema),
+  kioskController.revokeKiosk.bind(kioskController)
+);
+
+export default router;
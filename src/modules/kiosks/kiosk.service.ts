@@ -0,0 +1,324 @@
+import { randomBytes } from 'crypto';
+import type {
+  Kiosk,
+  Prisma,
+  PunchType,
+  Tenant,
+  TenantLocation,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { hashToken } from '../../utils/jwt';
+import { isValidEmbedding } from '../../utils/validators';
+import {
+  CONFIRMATION_DIGITS,
+  identifyFace,
+  pickConfirmedContender,
+} from '../../utils/faceIdentification';
+import {
+  AttendanceService,
+  type PunchResult,
+} from '../attendance/attendance.service';
+import { TenantSettingsService } from '../tenants/tenantSettings.service';
+
+const attendanceService = new AttendanceService();
+const tenantSettingsService = new TenantSettingsService();
+
+export interface RegisterKioskInput {
+  tenantId: string;
+  name: string;
+  locationId?: string; // Omitted for the tenant address, only while it has no locations
+}
+
+export type PublicKiosk = Omit<Kiosk, 'keyHash'>;
+
+export interface RegisteredKiosk {
+  kiosk: PublicKiosk;
+  kioskKey: string; // Only returned on registration
+}
+
+export interface KioskPunchInput {
+  type: PunchType;
+  photoUrl: string;
+  embedding: number[];
+  confirmationDigits?: string; // Contact number ending, after an ambiguous match
+}
+
+export type KioskPunchResult =
+  | {
+      status: 'PUNCHED';
+      employee: { id: string; name: string };
+      punch: PunchResult;
+    }
+  | {
+      status: 'CONFIRMATION_REQUIRED';
+      confirmationDigits: number; // How many digits to ask for
+    };
+
+type AuthenticatedKiosk = Kiosk & {
+  tenant: Tenant;
+  location: TenantLocation | null;
+};
+
+// Same answer for no match and a failed confirmation, naming no one
+const NOT_IDENTIFIED_MESSAGE = 'Could not identify you. Please try again.';
+
+const toPublicKiosk = ({ keyHash: _, ...kiosk }: Kiosk): PublicKiosk => kiosk;
+
+export class KioskService {
+  /**
+   * Register a kiosk and issue its key
+   * Only the key's hash is stored, so it cannot be shown again
+   */
+  async registerKiosk(input: RegisterKioskInput): Promise<RegisteredKiosk> {
+    try {
+      if (input.locationId) {
+        const location = await prisma.tenantLocation.findFirst({
+          where: { id: input.locationId, tenantId: input.tenantId },
+        });
+
+        if (!location) {
+          throw new AppError('Location not found', 404);
+        }
+      } else {
+        // Check-ins use the tenant address only while no locations exist
+        const locationCount = await prisma.tenantLocation.count({
+          where: { tenantId: input.tenantId },
+        });
+
+        if (locationCount > 0) {
+          throw new AppError(
+            'Location is required when the tenant has office locations',
+            400
+          );
+        }
+      }
+
+      const kioskKey = randomBytes(32).toString('base64url');
+
+      const kiosk = await prisma.kiosk.create({
+        data: {
+          tenantId: input.tenantId,
+          locationId: input.locationId,
+          name: input.name,
+          keyHash: hashToken(kioskKey),
+        },
+      });
+
+      logger.info('Kiosk registered successfully', {
+        kioskId: kiosk.id,
+        tenantId: input.tenantId,
+      });
+
+      return { kiosk: toPublicKiosk(kiosk), kioskKey };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error registering kiosk', error);
+      throw new AppError('Failed to register kiosk', 500);
+    }
+  }
+
+  /**
+   * List a tenant's kiosks, revoked ones included
+   */
+  async listKiosks(tenantId: string): Promise<PublicKiosk[]> {
+    try {
+      return await prisma.kiosk.findMany({
+        where: { tenantId },
+        omit: { keyHash: true },
+        orderBy: { createdAt: 'desc' },
+      });
+    } catch (error) {
+      logger.error('Error listing kiosks', error);
+      throw new AppError('Failed to list kiosks', 500);
+    }
+  }
+
+  /**
+   * Revoke a kiosk; its key stops working immediately
+   */
+  async revokeKiosk(kioskId: string, tenantId: string): Promise<PublicKiosk> {
+    try {
+      const kiosk = await prisma.kiosk.findFirst({
+        where: {
+          id: kioskId,
+          tenantId,
+        },
+      });
+
+      if (!kiosk) {
+        throw new AppError('Kiosk not found', 404);
+      }
+
+      if (kiosk.revokedAt) {
+        return toPublicKiosk(kiosk);
+      }
+
+      const revoked = await prisma.kiosk.update({
+        where: { id: kioskId },
+        data: { revokedAt: new Date() },
+      });
+
+      logger.info('Kiosk revoked', { kioskId, tenantId });
+
+      return toPublicKiosk(revoked);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error revoking kiosk', error);
+      throw new AppError('Failed to revoke kiosk', 500);
+    }
+  }
+
+  /**
+   * Identify the employee in front of a kiosk (1:N) and record their punch
+   * The face is searched against the embeddings of every employee allowed
+   * at the kiosk's site. When several candidates score within the tenant's
+   * ambiguity margin of the best, nothing is punched until the employee
+   * confirms the end of their contact number, which must pick exactly one
+   * of them. The kiosk is not authenticated as a person, so it is never told
+   * who the candidates were.
+   */
+  async punch(
+    kioskKey: string,
+    input: KioskPunchInput
+  ): Promise<KioskPunchResult> {
+    try {
+      const kiosk = await this.authenticate(kioskKey);
+      const { tenant } = kiosk;
+
+      if (!isValidEmbedding(input.embedding)) {
+        throw new AppError('Invalid embedding format', 400);
+      }
+
+      const settings = await tenantSettingsService.getSettings(tenant.id);
+
+      const employees = await prisma.employee.findMany({
+        where: {
+          tenantId: tenant.id,
+          ...this.getSiteFilter(kiosk),
+        },
+        select: { id: true, embedding: true, contactNumber: true },
+      });
+
+      const { best, contenders } = identifyFace(input.embedding, employees, {
+        embeddingMetric: settings.embeddingMetric,
+        embeddingThreshold: settings.embeddingThreshold,
+        ambiguityMargin: settings.kioskAmbiguityMargin,
+      });
+
+      if (!best) {
+        logger.warn('Kiosk identification found no match', {
+          kioskId: kiosk.id,
+          tenantId: tenant.id,
+          candidateCount: employees.length,
+        });
+        throw new AppError(NOT_IDENTIFIED_MESSAGE, 404);
+      }
+
+      let identified = best;
+
+      if (contenders.length > 1) {
+        if (!input.confirmationDigits) {
+          logger.info('Kiosk identification needs confirmation', {
+            kioskId: kiosk.id,
+            tenantId: tenant.id,
+            candidateIds: contenders.map(({ id }) => id),
+          });
+          return {
+            status: 'CONFIRMATION_REQUIRED',
+            confirmationDigits: CONFIRMATION_DIGITS,
+          };
+        }
+
+        const contactNumbers = new Map(
+          employees.map(({ id, contactNumber }) => [id, contactNumber])
+        );
+        const confirmed = pickConfirmedContender(
+          contenders,
+          contactNumbers,
+          input.confirmationDigits
+        );
+
+        if (!confirmed) {
+          logger.warn('Kiosk confirmation matched no single candidate', {
+            kioskId: kiosk.id,
+            tenantId: tenant.id,
+            candidateIds: contenders.map(({ id }) => id),
+          });
+          throw new AppError(NOT_IDENTIFIED_MESSAGE, 404);
+        }
+
+        identified = confirmed;
+      }
+
+      const employee = await prisma.employee.findUniqueOrThrow({
+        where: { id: identified.id },
+      });
+
+      const punch = await attendanceService.recordKioskPunch(input.type, {
+        kiosk,
+        employee,
+        tenant,
+        settings,
+        photoUrl: input.photoUrl,
+        embedding: input.embedding,
+      });
+
+      return {
+        status: 'PUNCHED',
+        employee: { id: employee.id, name: employee.name },
+        punch,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error recording kiosk punch', error);
+      throw new AppError('Failed to record punch', 500);
+    }
+  }
+
+  /**
+   * Find the active kiosk a key belongs to and note that it was used
+   */
+  private async authenticate(kioskKey: string): Promise<AuthenticatedKiosk> {
+    const kiosk = await prisma.kiosk.findUnique({
+      where: { keyHash: hashToken(kioskKey) },
+      include: { tenant: true, location: true },
+    });
+
+    if (!kiosk || kiosk.revokedAt) {
+      throw new AppError('Invalid or revoked kiosk key', 401);
+    }
+
+    await prisma.kiosk.update({
+      where: { id: kiosk.id },
+      data: { lastSeenAt: new Date() },
+    });
+
+    return kiosk;
+  }
+
+  /**
+   * Employees allowed at a kiosk's site
+   * Employees without assigned locations may use any site, and are the only
+   * ones a kiosk at the tenant address serves
+   */
+  private getSiteFilter(kiosk: Kiosk): Prisma.EmployeeWhereInput {
+    if (!kiosk.locationId) {
+      return { locations: { none: {} } };
+    }
+
+    return {
+      OR: [
+        { locations: { none: {} } },
+        { locations: { some: { locationId: kiosk.locationId } } },
+      ],
+    };
+  }
+}
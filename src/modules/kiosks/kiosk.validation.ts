@@ -0,0 +1,62 @@
+import Joi from 'joi';
+
+const punchBody = {
+  type: Joi.string()
+    .valid('IN', 'OUT', 'BREAK_START', 'BREAK_END')
+    .required()
+    .messages({
+      'any.only': 'Punch type must be IN, OUT, BREAK_START or BREAK_END',
+      'any.required': 'Punch type is required',
+    }),
+  photoUrl: Joi.string().uri().required().messages({
+    'string.empty': 'Photo URL is required',
+    'string.uri': 'Invalid photo URL',
+  }),
+  embedding: Joi.array()
+    .items(Joi.number())
+    .min(1)
+    .required()
+    .messages({
+      'array.base': 'Embedding must be an array of numbers',
+      'array.min': 'Embedding array cannot be empty',
+    }),
+};
+
+export const registerKioskSchema = Joi.object({
+  body: Joi.object({
+    name: Joi.string().trim().min(1).max(100).required().messages({
+      'string.empty': 'Kiosk name is required',
+      'string.max': 'Kiosk name must not exceed 100 characters',
+    }),
+    locationId: Joi.string().uuid().optional().messages({
+      'string.uuid': 'Invalid location ID format',
+    }),
+  }),
+});
+
+export const revokeKioskSchema = Joi.object({
+  params: Joi.object({
+    kioskId: Joi.string().uuid().required().messages({
+      'string.empty': 'Kiosk ID is required',
+      'string.uuid': 'Invalid kiosk ID format',
+    }),
+  }),
+});
+
+export const kioskPunchSchema = Joi.object({
+  body: Joi.object(punchBody),
+});
+
+export const confirmKioskPunchSchema = Joi.object({
+  body: Joi.object({
+    ...punchBody,
+    confirmationDigits: Joi.string()
+      .pattern(/^\d{4}$/)
+      .required()
+      .messages({
+        'string.empty': 'Confirmation digits are required',
+        'string.pattern.base':
+          'Confirmation digits must be the last 4 digits of your contact number',
+      }),
+  }),
+});
@@ -0,0 +1,378 @@
+import { Request, Response } from 'express';
+import type { LeaveStatus } from '@prisma/client';
+import { LeaveService } from './leave.service';
+import { LeaveBalanceService } from './leaveBalance.service';
+import { LeaveTypeService } from './leaveType.service';
+import { logger } from '../../utils/logger';
+
+const leaveService = new LeaveService();
+const leaveBalanceService = new LeaveBalanceService();
+const leaveTypeService = new LeaveTypeService();
+
+export class LeaveController {
+  /**
+   * Create a leave type
+   */
+  async createType(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const leaveType = await leaveTypeService.createLeaveType({
+        tenantId: req.tenant.tenantId,
+        ...req.body,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Leave type created successfully',
+        data: leaveType,
+      });
+    } catch (error: any) {
+      logger.error('Error in create leave type controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create leave type',
+      });
+    }
+  }
+
+  /**
+   * List leave types
+   */
+  async listTypes(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const leaveTypes = await leaveTypeService.listLeaveTypes(
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: leaveTypes,
+      });
+    } catch (error: any) {
+      logger.error('Error in list leave types controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list leave types',
+      });
+    }
+  }
+
+  /**
+   * Update a leave type
+   */
+  async updateType(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const leaveType = await leaveTypeService.updateLeaveType(
+        req.params.leaveTypeId,
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Leave type updated successfully',
+        data: leaveType,
+      });
+    } catch (error: any) {
+      logger.error('Error in update leave type controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update leave type',
+      });
+    }
+  }
+
+  /**
+   * Get an employee's leave balances
+   */
+  async getBalances(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const balances = await leaveBalanceService.getBalances(
+        req.params.employeeId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: balances,
+      });
+    } catch (error: any) {
+      logger.error('Error in get leave balances controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch leave balances',
+      });
+    }
+  }
+
+  /**
+   * Credit or debit an employee's leave balance
+   */
+  async adjustBalance(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const balance = await leaveBalanceService.adjustBalance(
+        req.params.employeeId,
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Leave balance adjusted',
+        data: balance,
+      });
+    } catch (error: any) {
+      logger.error('Error in adjust leave balance controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to adjust leave balance',
+      });
+    }
+  }
+
+  /**
+   * Apply for leave on behalf of an employee
+   */
+  async apply(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const leaveRequest = await leaveService.apply({
+        ...req.body,
+        tenantId: req.tenant.tenantId,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Leave request submitted',
+        data: leaveRequest,
+      });
+    } catch (error: any) {
+      logger.error('Error in apply leave controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to apply for leave',
+      });
+    }
+  }
+
+  /**
+   * List leave requests
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const {
+        status,
+        employeeId,
+        leaveTypeId,
+        startDate,
+        endDate,
+        page,
+        limit,
+      } = req.query;
+
+      const result = await leaveService.listRequests(req.tenant.tenantId, {
+        status: status as LeaveStatus | undefined,
+        employeeId: employeeId as string | undefined,
+        leaveTypeId: leaveTypeId as string | undefined,
+        startDate: startDate as string | undefined,
+        endDate: endDate as string | undefined,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 20,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in list leave requests controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list leave requests',
+      });
+    }
+  }
+
+  /**
+   * Get a leave request
+   */
+  async getDetails(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const leaveRequest = await leaveService.getRequest(
+        req.params.leaveRequestId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: leaveRequest,
+      });
+    } catch (error: any) {
+      logger.error('Error in get leave request controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch leave request',
+      });
+    }
+  }
+
+  /**
+   * Approve a leave request
+   */
+  async approve(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const leaveRequest = await leaveService.approve(
+        req.params.leaveRequestId,
+        req.tenant.tenantId,
+        req.body.reviewNote
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Leave request approved',
+        data: leaveRequest,
+      });
+    } catch (error: any) {
+      logger.error('Error in approve leave controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to approve leave request',
+      });
+    }
+  }
+
+  /**
+   * Reject a leave request
+   */
+  async reject(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const leaveRequest = await leaveService.reject(
+        req.params.leaveRequestId,
+        req.tenant.tenantId,
+        req.body.reviewNote
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Leave request rejected',
+        data: leaveRequest,
+      });
+    } catch (error: any) {
+      logger.error('Error in reject leave controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to reject leave request',
+      });
+    }
+  }
+
+  /**
+   * Cancel a leave request
+   */
+  async cancel(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const leaveRequest = await leaveService.cancel(
+        req.params.leaveRequestId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Leave request cancelled',
+        data: leaveRequest,
+      });
+    } catch (error: any) {
+      logger.error('Error in cancel leave controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to cancel leave request',
+      });
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import { Router } from 'express';
+import { LeaveController } from './leave.controller';
+import { validate } from '../../middlewares/validate.middleware';
+import {
+  createLeaveTypeSchema,
+  updateLeaveTypeSchema,
+  getLeaveBalancesSchema,
+  adjustLeaveBalanceSchema,
+  applyLeaveSchema,
+  listLeaveRequestsSchema,
+  getLeaveRequestSchema,
+  approveLeaveSchema,
+  rejectLeaveSchema,
+  cancelLeaveSchema,
+} from './leave.validation';
+import { authenticateTenant } from '../../middlewares/auth.middleware';
+
+const router = Router();
+const leaveController = new LeaveController();
+
+/**
+ * @route   POST /api/leaves/types
+ * @desc    Create a leave type with its accrual rule
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/types',
+  authenticateTenant,
+  validate(createLeaveTypeSchema),
+  leaveController.createType.bind(leaveController)
+);
+
+/**
+ * @route   GET /api/leaves/types
+ * @desc    List leave types
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/types',
+  authenticateTenant,
+  leaveController.listTypes.bind(leaveController)
+);
+
+/**
+ * @route   PATCH /api/leaves/types/:leaveTypeId
+ * @desc    Update a leave type
+ * @access  Private (Tenant)
+ */
+router.patch(
+  '/types/:leaveTypeId',
+  authenticateTenant,
+  validate(updateLeaveTypeSchema),
+  leaveController.updateType.bind(leaveController)
+);
+
+/**
+ * @route   GET /api/leaves/balances/:employeeId
+ * @desc    Get an employee's balances, crediting due accruals
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/balances/:employeeId',
+  authenticateTenant,
+  validate(getLeaveBalancesSchema),
+  leaveController.getBalances.bind(leaveController)
+);
+
+/**
+ * @route   POST /api/leaves/balances/:employeeId/adjust
+ * @desc    Credit or debit an employee's balance
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/balances/:employeeId/adjust',
+  authenticateTenant,
+  validate(adjustLeaveBalanceSchema),
+  leaveController.adjustBalance.bind(leaveController)
+);
+
+/**
+ * @route   POST /api/leaves
+ * @desc    Apply for leave on behalf of an employee
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/',
+  authenticateTenant,
+  validate(applyLeaveSchema),
+  leaveController.apply.bind(leaveController)
+);
+
+/**
+ * @route   GET /api/leaves
+ * @desc    List leave requests
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/',
+  authenticateTenant,
+  validate(listLeaveRequestsSchema),
+  leaveController.list.bind(leaveController)
+);
+
+/**
+ * @route   GET /api/leaves/:leaveRequestId
+ * @desc    Get a leave request
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/:leaveRequestId',
+  authenticateTenant,
+  validate(getLeaveRequestSchema),
+  leaveController.getDetails.bind(leaveController)
+);
+
+/**
+ * @route   POST /api/leaves/:leaveRequestId/approve
+ * @desc    Approve a leave request and charge the balance
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:leaveRequestId/approve',
+  authenticateTenant,
+  validate(approveLeaveSchema),
+  leaveController.approve.bind(leaveController)
+);
+
+/**
+ * @route   POST /api/leaves/:leaveRequestId/reject
+ * @desc    Reject a leave request
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:leaveRequestId/reject',
+  authenticateTenant,
+  validate(rejectLeaveSchema),
+  leaveController.reject.bind(leaveController)
+);
+
+/**
+ * @route   POST /api/leaves/:leaveRequestId/cancel
+ * @desc    Cancel a pending request, or approved leave before it starts
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:leaveRequestId/cancel',
+  authenticateTenant,
+  validate(cancelLeaveSchema),
+  leaveController.cancel.bind(leaveController)
+);
+
+export default router;
@@ -0,0 +1,622 @@
+import type {
+  LeaveRequest,
+  LeaveStatus,
+  LeaveType,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import {
+  countDates,
+  eachDate,
+  fromDateColumn,
+  toDateColumn,
+} from '../../utils/calendarDate';
+import { toLocalDateString, withLocalTimestamps } from '../../utils/timezone';
+import {
+  getNonWorkingReason,
+  type WorkCalendar,
+} from '../../utils/workCalendar';
+import { LeaveBalanceService } from './leaveBalance.service';
+import { TenantCalendarService } from '../tenants/tenantCalendar.service';
+
+const leaveBalanceService = new LeaveBalanceService();
+const tenantCalendarService = new TenantCalendarService();
+
+// Longest span a single request may cover, in calendar days
+const MAX_LEAVE_SPAN_DAYS = 366;
+
+export interface ApplyLeaveInput {
+  tenantId: string;
+  employeeId: string;
+  leaveTypeId: string;
+  startDate: string; // YYYY-MM-DD, tenant-local
+  endDate: string;
+  halfDay?: boolean;
+  reason: string;
+}
+
+export interface ListLeaveRequestsFilters {
+  status?: LeaveStatus;
+  employeeId?: string;
+  leaveTypeId?: string;
+  startDate?: string; // YYYY-MM-DD, requests overlapping the range
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export type LocalLeaveRequest = LeaveRequest & {
+  reviewedAtLocal: string | null;
+  cancelledAtLocal: string | null;
+};
+
+export interface LeaveRequestList {
+  timezone: string;
+  leaveRequests: LocalLeaveRequest[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * One day of approved leave, as shown in attendance reports
+ */
+export interface LeaveDay {
+  date: string; // YYYY-MM-DD, tenant-local
+  status: 'LEAVE';
+  employeeId: string;
+  employee: { id: string; name: string };
+  leaveRequestId: string;
+  leaveType: Pick<LeaveType, 'id' | 'name' | 'isPaid'>;
+  halfDay: boolean;
+}
+
+/**
+ * Dates of a leave that count as leave days (holidays and weekly offs
+ * excluded)
+ */
+const getLeaveDates = (
+  startDate: Date,
+  endDate: Date,
+  calendar: WorkCalendar,
+  shiftWeeklyOffs: number[]
+): Date[] =>
+  eachDate(startDate, endDate).filter(
+    (date) => getNonWorkingReason(calendar, date, shiftWeeklyOffs) === null
+  );
+
+const toLocalLeaveRequest = (
+  leaveRequest: LeaveRequest,
+  timeZone: string
+): LocalLeaveRequest =>
+  withLocalTimestamps(leaveRequest, ['reviewedAt', 'cancelledAt'], timeZone);
+
+export class LeaveService {
+  /**
+   * Apply for leave
+   * Rejects requests overlapping another pending or approved request, and
+   * requests beyond the balance unless the leave type allows it
+   */
+  async apply(input: ApplyLeaveInput): Promise<LocalLeaveRequest> {
+    try {
+      const employee = await prisma.employee.findFirst({
+        where: {
+          id: input.employeeId,
+          tenantId: input.tenantId,
+        },
+        include: {
+          tenant: { select: { timezone: true } },
+          shift: { select: { weeklyOffs: true } },
+        },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const leaveType = await prisma.leaveType.findFirst({
+        where: {
+          id: input.leaveTypeId,
+          tenantId: employee.tenantId,
+        },
+      });
+
+      if (!leaveType) {
+        throw new AppError('Leave type not found', 404);
+      }
+
+      if (!leaveType.isActive) {
+        throw new AppError('Leave type is no longer available', 400);
+      }
+
+      const startDate = toDateColumn(input.startDate);
+      const endDate = toDateColumn(input.endDate);
+
+      if (endDate < startDate) {
+        throw new AppError('End date must not be before start date', 400);
+      }
+
+      if (countDates(startDate, endDate) > MAX_LEAVE_SPAN_DAYS) {
+        throw new AppError(
+          `A leave request cannot span more than ${MAX_LEAVE_SPAN_DAYS} days`,
+          400
+        );
+      }
+
+      if (input.halfDay && input.startDate !== input.endDate) {
+        throw new AppError(
+          'Half-day leave must start and end on the same day',
+          400
+        );
+      }
+
+      const calendar = await tenantCalendarService.getWorkCalendar(
+        prisma,
+        employee.tenantId,
+        startDate,
+        endDate
+      );
+      const leaveDates = getLeaveDates(
+        startDate,
+        endDate,
+        calendar,
+        employee.shift?.weeklyOffs ?? []
+      );
+
+      if (leaveDates.length === 0) {
+        throw new AppError(
+          'The requested dates are all holidays or weekly offs',
+          400
+        );
+      }
+
+      const days = input.halfDay ? 0.5 : leaveDates.length;
+
+      const overlapping = await prisma.leaveRequest.findFirst({
+        where: {
+          employeeId: employee.id,
+          status: { in: ['PENDING', 'APPROVED'] },
+          startDate: { lte: endDate },
+          endDate: { gte: startDate },
+        },
+      });
+
+      if (overlapping) {
+        throw new AppError(
+          `Overlaps a ${overlapping.status.toLowerCase()} leave request from ${fromDateColumn(overlapping.startDate)} to ${fromDateColumn(overlapping.endDate)}`,
+          409
+        );
+      }
+
+      if (!leaveType.allowNegative) {
+        const balance = await leaveBalanceService.getAccruedBalance(
+          prisma,
+          employee,
+          leaveType,
+          employee.tenant.timezone
+        );
+
+        if (balance.balance < days) {
+          throw new AppError(
+            `Insufficient ${leaveType.name} balance: ${balance.balance} day(s) available, ${days} requested`,
+            400
+          );
+        }
+      }
+
+      const leaveRequest = await prisma.leaveRequest.create({
+        data: {
+          tenantId: employee.tenantId,
+          employeeId: employee.id,
+          leaveTypeId: leaveType.id,
+          startDate,
+          endDate,
+          halfDay: input.halfDay ?? false,
+          days,
+          reason: input.reason,
+        },
+      });
+
+      logger.info('Leave request submitted', {
+        leaveRequestId: leaveRequest.id,
+        employeeId: employee.id,
+        tenantId: employee.tenantId,
+        days,
+      });
+
+      return toLocalLeaveRequest(leaveRequest, employee.tenant.timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error applying for leave', error);
+      throw new AppError('Failed to apply for leave', 500);
+    }
+  }
+
+  /**
+   * List leave requests for a tenant, newest first
+   */
+  async listRequests(
+    tenantId: string,
+    filters: ListLeaveRequestsFilters
+  ): Promise<LeaveRequestList> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const page = filters.page || 1;
+      const limit = filters.limit || 20;
+
+      const where: Prisma.LeaveRequestWhereInput = { tenantId };
+
+      if (filters.status) {
+        where.status = filters.status;
+      }
+
+      if (filters.employeeId) {
+        where.employeeId = filters.employeeId;
+      }
+
+      if (filters.leaveTypeId) {
+        where.leaveTypeId = filters.leaveTypeId;
+      }
+
+      if (filters.startDate) {
+        where.endDate = { gte: toDateColumn(filters.startDate) };
+      }
+
+      if (filters.endDate) {
+        where.startDate = { lte: toDateColumn(filters.endDate) };
+      }
+
+      const [leaveRequests, total] = await Promise.all([
+        prisma.leaveRequest.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+        }),
+        prisma.leaveRequest.count({ where }),
+      ]);
+
+      return {
+        timezone,
+        leaveRequests: leaveRequests.map((leaveRequest) =>
+          toLocalLeaveRequest(leaveRequest, timezone)
+        ),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error listing leave requests', error);
+      throw new AppError('Failed to list leave requests', 500);
+    }
+  }
+
+  /**
+   * Get a leave request belonging to a tenant
+   */
+  async getRequest(
+    leaveRequestId: string,
+    tenantId: string
+  ): Promise<LocalLeaveRequest> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const leaveRequest = await this.findForTenant(leaveRequestId, tenantId);
+
+      return toLocalLeaveRequest(leaveRequest, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching leave request', error);
+      throw new AppError('Failed to fetch leave request', 500);
+    }
+  }
+
+  /**
+   * Approve a pending request and charge it to the employee's balance
+   */
+  async approve(
+    leaveRequestId: string,
+    tenantId: string,
+    reviewNote?: string
+  ): Promise<LocalLeaveRequest> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const leaveRequest = await this.findForTenant(leaveRequestId, tenantId);
+
+      const leaveType = await prisma.leaveType.findUniqueOrThrow({
+        where: { id: leaveRequest.leaveTypeId },
+      });
+
+      const approved = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.leaveRequest.updateMany({
+          where: { id: leaveRequest.id, status: 'PENDING' },
+          data: {
+            status: 'APPROVED',
+            reviewNote,
+            reviewedAt: new Date(),
+          },
+        });
+
+        if (claimed.count === 0) {
+          throw new AppError('Leave request is not pending', 409);
+        }
+
+        await leaveBalanceService.charge(
+          tx,
+          { id: leaveRequest.employeeId, tenantId },
+          leaveType,
+          timezone,
+          leaveRequest.days
+        );
+
+        return tx.leaveRequest.findUniqueOrThrow({
+          where: { id: leaveRequest.id },
+        });
+      });
+
+      logger.info('Leave request approved', {
+        leaveRequestId,
+        tenantId,
+        days: approved.days,
+      });
+
+      return toLocalLeaveRequest(approved, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error approving leave request', error);
+      throw new AppError('Failed to approve leave request', 500);
+    }
+  }
+
+  /**
+   * Reject a pending request
+   */
+  async reject(
+    leaveRequestId: string,
+    tenantId: string,
+    reviewNote: string
+  ): Promise<LocalLeaveRequest> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      await this.findForTenant(leaveRequestId, tenantId);
+
+      const claimed = await prisma.leaveRequest.updateMany({
+        where: { id: leaveRequestId, status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          reviewNote,
+          reviewedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError('Leave request is not pending', 409);
+      }
+
+      const rejected = await prisma.leaveRequest.findUniqueOrThrow({
+        where: { id: leaveRequestId },
+      });
+
+      logger.info('Leave request rejected', {
+        leaveRequestId,
+        tenantId,
+      });
+
+      return toLocalLeaveRequest(rejected, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error rejecting leave request', error);
+      throw new AppError('Failed to reject leave request', 500);
+    }
+  }
+
+  /**
+   * Cancel a leave request on behalf of the employee who applied
+   * Approved leave can be cancelled until it starts; its days are refunded
+   */
+  async cancel(
+    leaveRequestId: string,
+    tenantId: string
+  ): Promise<LocalLeaveRequest> {
+    try {
+      const leaveRequest = await prisma.leaveRequest.findFirst({
+        where: {
+          id: leaveRequestId,
+          tenantId,
+        },
+        include: { tenant: { select: { timezone: true } } },
+      });
+
+      if (!leaveRequest) {
+        throw new AppError('Leave request not found', 404);
+      }
+
+      const { timezone } = leaveRequest.tenant;
+
+      if (
+        leaveRequest.status !== 'PENDING' &&
+        leaveRequest.status !== 'APPROVED'
+      ) {
+        throw new AppError(
+          `Leave request is already ${leaveRequest.status.toLowerCase()}`,
+          409
+        );
+      }
+
+      if (leaveRequest.status === 'APPROVED') {
+        const today = toDateColumn(toLocalDateString(new Date(), timezone));
+        if (leaveRequest.startDate <= today) {
+          throw new AppError(
+            'Leave that has already started cannot be cancelled',
+            409
+          );
+        }
+      }
+
+      const cancelled = await prisma.$transaction(async (tx) => {
+        // The request may have been reviewed since it was read
+        const claimed = await tx.leaveRequest.updateMany({
+          where: {
+            id: leaveRequest.id,
+            status: leaveRequest.status,
+          },
+          data: {
+            status: 'CANCELLED',
+            cancelledAt: new Date(),
+          },
+        });
+
+        if (claimed.count === 0) {
+          throw new AppError(
+            'Leave request changed while cancelling. Please try again.',
+            409
+          );
+        }
+
+        if (leaveRequest.status === 'APPROVED') {
+          await leaveBalanceService.refund(
+            tx,
+            leaveRequest.employeeId,
+            leaveRequest.leaveTypeId,
+            leaveRequest.days
+          );
+        }
+
+        return tx.leaveRequest.findUniqueOrThrow({
+          where: { id: leaveRequest.id },
+        });
+      });
+
+      logger.info('Leave request cancelled', {
+        leaveRequestId,
+        tenantId,
+        wasApproved: leaveRequest.status === 'APPROVED',
+      });
+
+      return toLocalLeaveRequest(cancelled, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error cancelling leave request', error);
+      throw new AppError('Failed to cancel leave request', 500);
+    }
+  }
+
+  /**
+   * Approved leave days between two local dates, for attendance reports
+   * Holidays and weekly offs (tenant-wide or of the employee's shift) are
+   * not leave days
+   */
+  async getLeaveDays(
+    tenantId: string,
+    startDate: string,
+    endDate: string,
+    employeeIds?: string[]
+  ): Promise<LeaveDay[]> {
+    const rangeStart = toDateColumn(startDate);
+    const rangeEnd = toDateColumn(endDate);
+
+    const leaveRequests = await prisma.leaveRequest.findMany({
+      where: {
+        tenantId,
+        status: 'APPROVED',
+        startDate: { lte: rangeEnd },
+        endDate: { gte: rangeStart },
+        ...(employeeIds && { employeeId: { in: employeeIds } }),
+      },
+      include: {
+        employee: {
+          select: {
+            id: true,
+            name: true,
+            shift: { select: { weeklyOffs: true } },
+          },
+        },
+        leaveType: {
+          select: { id: true, name: true, isPaid: true },
+        },
+      },
+    });
+
+    const calendar = await tenantCalendarService.getWorkCalendar(
+      prisma,
+      tenantId,
+      rangeStart,
+      rangeEnd
+    );
+
+    return leaveRequests
+      .flatMap((leaveRequest) =>
+        getLeaveDates(
+          leaveRequest.startDate > rangeStart
+            ? leaveRequest.startDate
+            : rangeStart,
+          leaveRequest.endDate < rangeEnd ? leaveRequest.endDate : rangeEnd,
+          calendar,
+          leaveRequest.employee.shift?.weeklyOffs ?? []
+        ).map((date) => ({
+          date: fromDateColumn(date),
+          status: 'LEAVE' as const,
+          employeeId: leaveRequest.employeeId,
+          employee: {
+            id: leaveRequest.employee.id,
+            name: leaveRequest.employee.name,
+          },
+          leaveRequestId: leaveRequest.id,
+          leaveType: leaveRequest.leaveType,
+          halfDay: leaveRequest.halfDay,
+        }))
+      )
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+
+  /**
+   * Find a leave request belonging to a tenant
+   */
+  private async findForTenant(
+    leaveRequestId: string,
+    tenantId: string
+  ): Promise<LeaveRequest> {
+    const leaveRequest = await prisma.leaveRequest.findFirst({
+      where: {
+        id: leaveRequestId,
+        tenantId,
+      },
+    });
+
+    if (!leaveRequest) {
+      throw new AppError('Leave request not found', 404);
+    }
+
+    return leaveRequest;
+  }
+
+  /**
+   * Get a tenant's time zone
+   */
+  private async getTenantTimezone(tenantId: string): Promise<string> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    return tenant.timezone;
+  }
+}
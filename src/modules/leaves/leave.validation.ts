@@ -0,0 +1,141 @@
+import Joi from 'joi';
+
+const localDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/);
+
+const leaveRequestIdParams = Joi.object({
+  leaveRequestId: Joi.string().uuid().required().messages({
+    'string.empty': 'Leave request ID is required',
+    'string.uuid': 'Invalid leave request ID format',
+  }),
+});
+
+const employeeIdParams = Joi.object({
+  employeeId: Joi.string().uuid().required().messages({
+    'string.empty': 'Employee ID is required',
+    'string.uuid': 'Invalid employee ID format',
+  }),
+});
+
+export const createLeaveTypeSchema = Joi.object({
+  body: Joi.object({
+    name: Joi.string().trim().min(2).max(50).required().messages({
+      'string.empty': 'Leave type name is required',
+      'string.min': 'Name must be at least 2 characters',
+      'string.max': 'Name must not exceed 50 characters',
+    }),
+    isPaid: Joi.boolean().optional(),
+    accrual: Joi.string().valid('NONE', 'MONTHLY', 'YEARLY').optional(),
+    accrualDays: Joi.number().min(0).max(366).optional(),
+    maxBalance: Joi.number().min(0).allow(null).optional(),
+    allowNegative: Joi.boolean().optional(),
+  }),
+});
+
+export const updateLeaveTypeSchema = Joi.object({
+  params: Joi.object({
+    leaveTypeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Leave type ID is required',
+      'string.uuid': 'Invalid leave type ID format',
+    }),
+  }),
+  body: Joi.object({
+    name: Joi.string().trim().min(2).max(50).optional(),
+    isPaid: Joi.boolean().optional(),
+    accrual: Joi.string().valid('NONE', 'MONTHLY', 'YEARLY').optional(),
+    accrualDays: Joi.number().min(0).max(366).optional(),
+    maxBalance: Joi.number().min(0).allow(null).optional(),
+    allowNegative: Joi.boolean().optional(),
+    isActive: Joi.boolean().optional(),
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one field is required',
+    }),
+});
+
+export const getLeaveBalancesSchema = Joi.object({
+  params: employeeIdParams,
+});
+
+export const adjustLeaveBalanceSchema = Joi.object({
+  params: employeeIdParams,
+  body: Joi.object({
+    leaveTypeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Leave type ID is required',
+      'string.uuid': 'Invalid leave type ID format',
+    }),
+    days: Joi.number().invalid(0).min(-366).max(366).required().messages({
+      'number.base': 'Days must be a number',
+      'any.invalid': 'Days must not be zero',
+    }),
+  }),
+});
+
+export const applyLeaveSchema = Joi.object({
+  body: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+    leaveTypeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Leave type ID is required',
+      'string.uuid': 'Invalid leave type ID format',
+    }),
+    startDate: localDate.required().messages({
+      'string.empty': 'Start date is required',
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format',
+    }),
+    endDate: localDate.required().messages({
+      'string.empty': 'End date is required',
+      'string.pattern.base': 'End date must be in YYYY-MM-DD format',
+    }),
+    halfDay: Joi.boolean().optional(),
+    reason: Joi.string().trim().min(3).max(500).required().messages({
+      'string.empty': 'Reason is required',
+      'string.min': 'Reason must be at least 3 characters',
+      'string.max': 'Reason must not exceed 500 characters',
+    }),
+  }),
+});
+
+export const listLeaveRequestsSchema = Joi.object({
+  query: Joi.object({
+    status: Joi.string()
+      .valid('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED')
+      .optional(),
+    employeeId: Joi.string().uuid().optional(),
+    leaveTypeId: Joi.string().uuid().optional(),
+    startDate: localDate.optional().messages({
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format',
+    }),
+    endDate: localDate.optional().messages({
+      'string.pattern.base': 'End date must be in YYYY-MM-DD format',
+    }),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+});
+
+export const getLeaveRequestSchema = Joi.object({
+  params: leaveRequestIdParams,
+});
+
+export const approveLeaveSchema = Joi.object({
+  params: leaveRequestIdParams,
+  body: Joi.object({
+    reviewNote: Joi.string().trim().max(500).optional(),
+  }),
+});
+
+export const rejectLeaveSchema = Joi.object({
+  params: leaveRequestIdParams,
+  body: Joi.object({
+    reviewNote: Joi.string().trim().min(1).max(500).required().messages({
+      'string.empty': 'A note explaining the rejection is required',
+    }),
+  }),
+});
+
+export const cancelLeaveSchema = Joi.object({
+  params: leaveRequestIdParams,
+});
@@ -0,0 +1,296 @@
+import type {
+  LeaveAccrual,
+  LeaveBalance,
+  LeaveType,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { toDateColumn } from '../../utils/calendarDate';
+import { toLocalDateString } from '../../utils/timezone';
+
+export interface LeaveBalanceWithType extends LeaveBalance {
+  leaveType: Pick<LeaveType, 'id' | 'name' | 'isPaid' | 'accrual'>;
+}
+
+export interface AdjustLeaveBalanceInput {
+  leaveTypeId: string;
+  days: number; // Positive to credit, negative to debit
+}
+
+/**
+ * Start of the accrual period containing a local date, as a DATE value
+ */
+const getPeriodStart = (accrual: LeaveAccrual, localDate: string): Date => {
+  const [year, month] = localDate.split('-');
+  return toDateColumn(
+    accrual === 'YEARLY' ? `${year}-01-01` : `${year}-${month}-01`
+  );
+};
+
+/**
+ * Number of accrual periods from one period start to another
+ */
+const countPeriods = (accrual: LeaveAccrual, from: Date, to: Date): number => {
+  const years = to.getUTCFullYear() - from.getUTCFullYear();
+  if (accrual === 'YEARLY') {
+    return years;
+  }
+  return years * 12 + to.getUTCMonth() - from.getUTCMonth();
+};
+
+export class LeaveBalanceService {
+  /**
+   * Get an employee's balance for a leave type, crediting any accrual
+   * periods that started since the last credit
+   * Accrual is lazy: a period is credited the first time the balance is
+   * read in it, and a new balance is credited for the current period.
+   */
+  async getAccruedBalance(
+    db: Prisma.TransactionClient,
+    employee: { id: string; tenantId: string },
+    leaveType: LeaveType,
+    timeZone: string,
+    now: Date = new Date()
+  ): Promise<LeaveBalance> {
+    const balance = await db.leaveBalance.upsert({
+      where: {
+        employeeId_leaveTypeId: {
+          employeeId: employee.id,
+          leaveTypeId: leaveType.id,
+        },
+      },
+      create: {
+        tenantId: employee.tenantId,
+        employeeId: employee.id,
+        leaveTypeId: leaveType.id,
+      },
+      update: {},
+    });
+
+    if (leaveType.accrual === 'NONE' || leaveType.accrualDays <= 0) {
+      return balance;
+    }
+
+    const periodStart = getPeriodStart(
+      leaveType.accrual,
+      toLocalDateString(now, timeZone)
+    );
+    const periods = balance.accruedThrough
+      ? countPeriods(leaveType.accrual, balance.accruedThrough, periodStart)
+      : 1;
+
+    if (periods <= 0) {
+      return balance;
+    }
+
+    const credited = balance.balance + periods * leaveType.accrualDays;
+    const capped =
+      leaveType.maxBalance === null
+        ? credited
+        : Math.min(credited, leaveType.maxBalance);
+
+    // Only credit if no concurrent request got there first
+    const updated = await db.leaveBalance.updateMany({
+      where: {
+        id: balance.id,
+        accruedThrough: balance.accruedThrough,
+      },
+      data: {
+        // A cap never takes away days the employee already has
+        balance: Math.max(balance.balance, capped),
+        accruedThrough: periodStart,
+      },
+    });
+
+    if (updated.count > 0) {
+      logger.info('Leave accrued', {
+        employeeId: employee.id,
+        leaveTypeId: leaveType.id,
+        periods,
+      });
+    }
+
+    return db.leaveBalance.findUniqueOrThrow({ where: { id: balance.id } });
+  }
+
+  /**
+   * Get an employee's balances for every active leave type
+   */
+  async getBalances(
+    employeeId: string,
+    tenantId: string
+  ): Promise<LeaveBalanceWithType[]> {
+    try {
+      const employee = await prisma.employee.findFirst({
+        where: {
+          id: employeeId,
+          tenantId,
+        },
+        include: { tenant: { select: { timezone: true } } },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const leaveTypes = await prisma.leaveType.findMany({
+        where: {
+          tenantId,
+          isActive: true,
+        },
+        orderBy: { name: 'asc' },
+      });
+
+      const balances: LeaveBalanceWithType[] = [];
+      for (const leaveType of leaveTypes) {
+        const balance = await this.getAccruedBalance(
+          prisma,
+          employee,
+          leaveType,
+          employee.tenant.timezone
+        );
+        balances.push({
+          ...balance,
+          leaveType: {
+            id: leaveType.id,
+            name: leaveType.name,
+            isPaid: leaveType.isPaid,
+            accrual: leaveType.accrual,
+          },
+        });
+      }
+
+      return balances;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching leave balances', error);
+      throw new AppError('Failed to fetch leave balances', 500);
+    }
+  }
+
+  /**
+   * Manually credit or debit an employee's balance
+   */
+  async adjustBalance(
+    employeeId: string,
+    tenantId: string,
+    input: AdjustLeaveBalanceInput
+  ): Promise<LeaveBalance> {
+    try {
+      const [employee, leaveType] = await Promise.all([
+        prisma.employee.findFirst({
+          where: {
+            id: employeeId,
+            tenantId,
+          },
+          include: { tenant: { select: { timezone: true } } },
+        }),
+        prisma.leaveType.findFirst({
+          where: {
+            id: input.leaveTypeId,
+            tenantId,
+          },
+        }),
+      ]);
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      if (!leaveType) {
+        throw new AppError('Leave type not found', 404);
+      }
+
+      const balance = await this.getAccruedBalance(
+        prisma,
+        employee,
+        leaveType,
+        employee.tenant.timezone
+      );
+
+      const adjusted = await prisma.leaveBalance.update({
+        where: { id: balance.id },
+        data: { balance: { increment: input.days } },
+      });
+
+      logger.info('Leave balance adjusted', {
+        employeeId,
+        leaveTypeId: leaveType.id,
+        tenantId,
+        days: input.days,
+      });
+
+      return adjusted;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error adjusting leave balance', error);
+      throw new AppError('Failed to adjust leave balance', 500);
+    }
+  }
+
+  /**
+   * Take approved leave from a balance
+   * Fails unless the leave type allows a negative balance
+   */
+  async charge(
+    tx: Prisma.TransactionClient,
+    employee: { id: string; tenantId: string },
+    leaveType: LeaveType,
+    timeZone: string,
+    days: number
+  ): Promise<void> {
+    const balance = await this.getAccruedBalance(
+      tx,
+      employee,
+      leaveType,
+      timeZone
+    );
+
+    const charged = await tx.leaveBalance.updateMany({
+      where: {
+        id: balance.id,
+        ...(!leaveType.allowNegative && { balance: { gte: days } }),
+      },
+      data: {
+        balance: { decrement: days },
+        used: { increment: days },
+      },
+    });
+
+    if (charged.count === 0) {
+      throw new AppError(
+        `Insufficient ${leaveType.name} balance: ${balance.balance} day(s) available`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Return the days of cancelled leave to a balance
+   */
+  async refund(
+    tx: Prisma.TransactionClient,
+    employeeId: string,
+    leaveTypeId: string,
+    days: number
+  ): Promise<void> {
+    await tx.leaveBalance.update({
+      where: {
+        employeeId_leaveTypeId: {
+          employeeId,
+          leaveTypeId,
+        },
+      },
+      data: {
+        balance: { increment: days },
+        used: { decrement: days },
+      },
+    });
+  }
+}
@@ -0,0 +1,159 @@
+import type { LeaveAccrual, LeaveType } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+
+export interface CreateLeaveTypeInput {
+  tenantId: string;
+  name: string;
+  isPaid?: boolean;
+  accrual?: LeaveAccrual;
+  accrualDays?: number;
+  maxBalance?: number | null;
+  allowNegative?: boolean;
+}
+
+export interface UpdateLeaveTypeInput {
+  name?: string;
+  isPaid?: boolean;
+  accrual?: LeaveAccrual;
+  accrualDays?: number;
+  maxBalance?: number | null;
+  allowNegative?: boolean;
+  isActive?: boolean;
+}
+
+export class LeaveTypeService {
+  /**
+   * Create a leave type
+   */
+  async createLeaveType(input: CreateLeaveTypeInput): Promise<LeaveType> {
+    try {
+      await this.assertNameAvailable(input.tenantId, input.name);
+
+      const leaveType = await prisma.leaveType.create({
+        data: {
+          tenantId: input.tenantId,
+          name: input.name,
+          isPaid: input.isPaid,
+          accrual: input.accrual,
+          accrualDays: input.accrualDays,
+          maxBalance: input.maxBalance,
+          allowNegative: input.allowNegative,
+        },
+      });
+
+      logger.info('Leave type created successfully', {
+        leaveTypeId: leaveType.id,
+        tenantId: input.tenantId,
+      });
+
+      return leaveType;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error creating leave type', error);
+      throw new AppError('Failed to create leave type', 500);
+    }
+  }
+
+  /**
+   * List the leave types of a tenant
+   */
+  async listLeaveTypes(tenantId: string): Promise<LeaveType[]> {
+    try {
+      return await prisma.leaveType.findMany({
+        where: { tenantId },
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Error listing leave types', error);
+      throw new AppError('Failed to list leave types', 500);
+    }
+  }
+
+  /**
+   * Get a leave type belonging to a tenant
+   */
+  async getLeaveType(leaveTypeId: string, tenantId: string): Promise<LeaveType> {
+    try {
+      const leaveType = await prisma.leaveType.findFirst({
+        where: {
+          id: leaveTypeId,
+          tenantId,
+        },
+      });
+
+      if (!leaveType) {
+        throw new AppError('Leave type not found', 404);
+      }
+
+      return leaveType;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching leave type', error);
+      throw new AppError('Failed to fetch leave type', 500);
+    }
+  }
+
+  /**
+   * Update a leave type
+   * Accrual changes apply from the next accrual period; deactivated types
+   * keep their balances but accept no new requests
+   */
+  async updateLeaveType(
+    leaveTypeId: string,
+    tenantId: string,
+    input: UpdateLeaveTypeInput
+  ): Promise<LeaveType> {
+    try {
+      const leaveType = await this.getLeaveType(leaveTypeId, tenantId);
+
+      if (input.name && input.name !== leaveType.name) {
+        await this.assertNameAvailable(tenantId, input.name);
+      }
+
+      const updated = await prisma.leaveType.update({
+        where: { id: leaveTypeId },
+        data: input,
+      });
+
+      logger.info('Leave type updated successfully', {
+        leaveTypeId,
+        tenantId,
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating leave type', error);
+      throw new AppError('Failed to update leave type', 500);
+    }
+  }
+
+  /**
+   * Ensure no other leave type of the tenant uses the name
+   */
+  private async assertNameAvailable(
+    tenantId: string,
+    name: string
+  ): Promise<void> {
+    const existing = await prisma.leaveType.findUnique({
+      where: {
+        tenantId_name: {
+          tenantId,
+          name,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new AppError('Leave type with this name already exists', 409);
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { Request, Response } from 'express';
+import type { OvertimeStatus } from '@prisma/client';
+import { OvertimeService } from './overtime.service';
+import { OvertimePolicyService } from './overtimePolicy.service';
+import { logger } from '../../utils/logger';
+
+const overtimeService = new OvertimeService();
+const overtimePolicyService = new OvertimePolicyService();
+
+export class OvertimeController {
+  /**
+   * Get the tenant's overtime rules
+   */
+  async getPolicy(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const policy = await overtimePolicyService.getPolicy(
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: policy,
+      });
+    } catch (error: any) {
+      logger.error('Error in get overtime policy controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch overtime policy',
+      });
+    }
+  }
+
+  /**
+   * Set the tenant's overtime rules
+   */
+  async updatePolicy(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const policy = await overtimePolicyService.updatePolicy(
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Overtime policy updated successfully',
+        data: policy,
+      });
+    } catch (error: any) {
+      logger.error('Error in update overtime policy controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update overtime policy',
+      });
+    }
+  }
+
+  /**
+   * Compute overtime from attendance for a date range
+   */
+  async compute(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await overtimeService.computeOvertime(
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Overtime computed successfully',
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in compute overtime controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to compute overtime',
+      });
+    }
+  }
+
+  /**
+   * List overtime records
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { status, employeeId, startDate, endDate, page, limit } =
+        req.query;
+
+      const result = await overtimeService.listRecords(req.tenant.tenantId, {
+        status: status as OvertimeStatus | undefined,
+        employeeId: employeeId as string | undefined,
+        startDate: startDate as string | undefined,
+        endDate: endDate as string | undefined,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 20,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in list overtime controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list overtime records',
+      });
+    }
+  }
+
+  /**
+   * Approve an overtime record
+   */
+  async approve(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const record = await overtimeService.approve(
+        req.params.overtimeRecordId,
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Overtime approved',
+        data: record,
+      });
+    } catch (error: any) {
+      logger.error('Error in approve overtime controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to approve overtime',
+      });
+    }
+  }
+
+  /**
+   * Reject an overtime record
+   */
+  async reject(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const record = await overtimeService.reject(
+        req.params.overtimeRecordId,
+        req.tenant.tenantId,
+        req.body.reviewNote
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Overtime rejected',
+        data: record,
+      });
+    } catch (error: any) {
+      logger.error('Error in reject overtime controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to reject overtime',
+      });
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { OvertimeController } from './overtime.controller';
+import { validate } from '../../middlewares/validate.middleware';
+import {
+  updateOvertimePolicySchema,
+  computeOvertimeSchema,
+  listOvertimeSchema,
+  approveOvertimeSchema,
+  rejectOvertimeSchema,
+} from './overtime.validation';
+import { authenticateTenant } from '../../middlewares/auth.middleware';
+
+const router = Router();
+const overtimeController = new OvertimeController();
+
+/**
+ * @route   GET /api/overtime/policy
+ * @desc    Get overtime rules
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/policy',
+  authenticateTenant,
+  overtimeController.getPolicy.bind(overtimeController)
+);
+
+/**
+ * @route   PUT /api/overtime/policy
+ * @desc    Set thresholds and multipliers
+ * @access  Private (Tenant)
+ */
+router.put(
+  '/policy',
+  authenticateTenant,
+  validate(updateOvertimePolicySchema),
+  overtimeController.updatePolicy.bind(overtimeController)
+);
+
+/**
+ * @route   POST /api/overtime/compute
+ * @desc    Compute overtime from closed sessions for a date range
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/compute',
+  authenticateTenant,
+  validate(computeOvertimeSchema),
+  overtimeController.compute.bind(overtimeController)
+);
+
+/**
+ * @route   GET /api/overtime
+ * @desc    List overtime records
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/',
+  authenticateTenant,
+  validate(listOvertimeSchema),
+  overtimeController.list.bind(overtimeController)
+);
+
+/**
+ * @route   POST /api/overtime/:overtimeRecordId/approve
+ * @desc    Approve overtime, optionally fewer minutes than computed
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:overtimeRecordId/approve',
+  authenticateTenant,
+  validate(approveOvertimeSchema),
+  overtimeController.approve.bind(overtimeController)
+);
+
+/**
+ * @route   POST /api/overtime/:overtimeRecordId/reject
+ * @desc    Reject overtime
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:overtimeRecordId/reject',
+  authenticateTenant,
+  validate(rejectOvertimeSchema),
+  overtimeController.reject.bind(overtimeController)
+);
+
+export default router;
@@ -0,0 +1,719 @@
+import {
+  Prisma,
+  type OvertimeDayType,
+  type OvertimePolicy,
+  type OvertimeRecord,
+  type OvertimeStatus,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import {
+  countDates,
+  fromDateColumn,
+  getDateColumnWeekday,
+  toDateColumn,
+} from '../../utils/calendarDate';
+import {
+  parseDateBoundary,
+  toLocalDateString,
+  withLocalTimestamps,
+} from '../../utils/timezone';
+import {
+  getNonWorkingReason,
+  type WorkCalendar,
+} from '../../utils/workCalendar';
+import { TenantCalendarService } from '../tenants/tenantCalendar.service';
+
+const tenantCalendarService = new TenantCalendarService();
+
+// Longest range a single computation may cover, in days
+const MAX_COMPUTE_DAYS = 93;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ComputeOvertimeInput {
+  startDate: string; // YYYY-MM-DD, tenant-local
+  endDate: string;
+  employeeId?: string;
+}
+
+export interface OvertimeComputeResult {
+  startDate: string;
+  endDate: string; // Capped at today
+  created: number;
+  updated: number; // Reviewed records whose minutes changed are pending again
+  removed: number;
+}
+
+export interface ListOvertimeFilters {
+  status?: OvertimeStatus;
+  employeeId?: string;
+  startDate?: string; // YYYY-MM-DD, tenant-local
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export type LocalOvertimeRecord = OvertimeRecord & {
+  employee: { id: string; name: string };
+  reviewedAtLocal: string | null;
+};
+
+export interface OvertimeRecordList {
+  timezone: string;
+  records: LocalOvertimeRecord[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface ReviewOvertimeInput {
+  approvedMinutes?: number; // Defaults to all computed minutes
+  reviewNote?: string;
+}
+
+/**
+ * One day of overtime, as shown in attendance reports
+ */
+export interface OvertimeDay {
+  date: string; // YYYY-MM-DD, tenant-local
+  status: 'OVERTIME';
+  employeeId: string;
+  employee: { id: string; name: string };
+  overtimeRecordId: string;
+  dayType: OvertimeDayType;
+  overtimeMinutes: number;
+  approvedMinutes: number | null;
+  multiplier: number;
+  reviewStatus: OvertimeStatus;
+}
+
+/**
+ * An employee's approved overtime over a period, for payroll
+ */
+export interface ApprovedOvertime {
+  minutes: number;
+  weightedMinutes: Prisma.Decimal; // Minutes times their multiplier
+}
+
+type ComputedOvertime = Pick<
+  OvertimeRecord,
+  | 'employeeId'
+  | 'dayType'
+  | 'workedMinutes'
+  | 'dailyMinutes'
+  | 'weeklyMinutes'
+  | 'overtimeMinutes'
+  | 'multiplier'
+> & { date: string };
+
+/**
+ * First day of the week containing a DATE column value
+ */
+const getWeekStart = (date: Date, weekStartsOn: number): Date =>
+  new Date(
+    date.getTime() -
+      ((getDateColumnWeekday(date) - weekStartsOn + 7) % 7) * DAY_MS
+  );
+
+/**
+ * Split an employee's worked minutes per day into overtime
+ * All work on a holiday or weekly off is overtime. On working days, minutes
+ * beyond the daily threshold are overtime, and the remaining minutes count
+ * towards the week; once the week's total passes the weekly threshold the
+ * excess is overtime too.
+ * @param days - Worked minutes by YYYY-MM-DD, from the start of a week
+ */
+const computeEmployeeOvertime = (
+  employeeId: string,
+  days: Map<string, number>,
+  policy: OvertimePolicy,
+  calendar: WorkCalendar,
+  shiftWeeklyOffs: number[]
+): ComputedOvertime[] => {
+  const weekTotals = new Map<string, number>();
+  const computed: ComputedOvertime[] = [];
+
+  for (const date of [...days.keys()].sort()) {
+    const workedMinutes = days.get(date) as number;
+    const reason = getNonWorkingReason(
+      calendar,
+      toDateColumn(date),
+      shiftWeeklyOffs
+    );
+
+    if (reason) {
+      computed.push({
+        employeeId,
+        date,
+        dayType: reason,
+        workedMinutes,
+        dailyMinutes: workedMinutes,
+        weeklyMinutes: 0,
+        overtimeMinutes: workedMinutes,
+        multiplier:
+          reason === 'HOLIDAY'
+            ? policy.holidayMultiplier
+            : policy.weekendMultiplier,
+      });
+      continue;
+    }
+
+    const dailyMinutes = Math.max(
+      0,
+      workedMinutes - policy.dailyThresholdMinutes
+    );
+    const regularMinutes = workedMinutes - dailyMinutes;
+
+    const week = fromDateColumn(
+      getWeekStart(toDateColumn(date), policy.weekStartsOn)
+    );
+    const weekTotal = (weekTotals.get(week) ?? 0) + regularMinutes;
+    weekTotals.set(week, weekTotal);
+
+    const weeklyMinutes =
+      policy.weeklyThresholdMinutes === null
+        ? 0
+        : Math.min(
+            regularMinutes,
+            Math.max(0, weekTotal - policy.weeklyThresholdMinutes)
+          );
+
+    computed.push({
+      employeeId,
+      date,
+      dayType: 'WORKING_DAY',
+      workedMinutes,
+      dailyMinutes,
+      weeklyMinutes,
+      overtimeMinutes: dailyMinutes + weeklyMinutes,
+      multiplier: policy.overtimeMultiplier,
+    });
+  }
+
+  return computed;
+};
+
+const toLocalOvertimeRecord = (
+  record: OvertimeRecord & { employee: { id: string; name: string } },
+  timeZone: string
+): LocalOvertimeRecord => withLocalTimestamps(record, ['reviewedAt'], timeZone);
+
+export class OvertimeService {
+  /**
+   * Compute overtime from closed sessions between two local dates
+   * Records are created, updated or removed to match the sessions. A
+   * reviewed record whose minutes, day type or multiplier changed goes back
+   * to PENDING. Sessions still open are left out until they are closed.
+   */
+  async computeOvertime(
+    tenantId: string,
+    input: ComputeOvertimeInput
+  ): Promise<OvertimeComputeResult> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+
+      const policy = await prisma.overtimePolicy.findUnique({
+        where: { tenantId },
+      });
+
+      if (!policy) {
+        throw new AppError('Overtime rules are not set up', 400);
+      }
+
+      if (input.endDate < input.startDate) {
+        throw new AppError('End date must not be before start date', 400);
+      }
+
+      const today = toLocalDateString(new Date(), timezone);
+      if (input.startDate > today) {
+        throw new AppError('Overtime cannot be computed for future dates', 400);
+      }
+      const endDate = input.endDate < today ? input.endDate : today;
+
+      if (
+        countDates(toDateColumn(input.startDate), toDateColumn(endDate)) >
+        MAX_COMPUTE_DAYS
+      ) {
+        throw new AppError(
+          `Overtime cannot be computed for more than ${MAX_COMPUTE_DAYS} days at once`,
+          400
+        );
+      }
+
+      if (input.employeeId) {
+        const employee = await prisma.employee.findFirst({
+          where: {
+            id: input.employeeId,
+            tenantId,
+          },
+          select: { id: true },
+        });
+
+        if (!employee) {
+          throw new AppError('Employee not found', 404);
+        }
+      }
+
+      // Weekly totals need the days since the start of the first week
+      const weekStart = getWeekStart(
+        toDateColumn(input.startDate),
+        policy.weekStartsOn
+      );
+
+      const sessions = await prisma.attendance.findMany({
+        where: {
+          tenantId,
+          ...(input.employeeId && { employeeId: input.employeeId }),
+          checkOutTime: { not: null },
+          workedMinutes: { not: null },
+          voidedAt: null,
+          checkInTime: {
+            gte: parseDateBoundary(
+              fromDateColumn(weekStart),
+              'start',
+              timezone
+            ),
+            lte: parseDateBoundary(endDate, 'end', timezone),
+          },
+        },
+        select: {
+          employeeId: true,
+          checkInTime: true,
+          workedMinutes: true,
+          employee: {
+            select: { shift: { select: { weeklyOffs: true } } },
+          },
+        },
+      });
+
+      const employees = new Map<
+        string,
+        { shiftWeeklyOffs: number[]; days: Map<string, number> }
+      >();
+      for (const session of sessions) {
+        const employee = employees.get(session.employeeId) ?? {
+          shiftWeeklyOffs: session.employee.shift?.weeklyOffs ?? [],
+          days: new Map<string, number>(),
+        };
+        const date = toLocalDateString(session.checkInTime, timezone);
+        employee.days.set(
+          date,
+          (employee.days.get(date) ?? 0) + (session.workedMinutes ?? 0)
+        );
+        employees.set(session.employeeId, employee);
+      }
+
+      const calendar = await tenantCalendarService.getWorkCalendar(
+        prisma,
+        tenantId,
+        weekStart,
+        toDateColumn(endDate)
+      );
+
+      const computed = [...employees].flatMap(([employeeId, employee]) =>
+        computeEmployeeOvertime(
+          employeeId,
+          employee.days,
+          policy,
+          calendar,
+          employee.shiftWeeklyOffs
+        ).filter(
+          (day) => day.date >= input.startDate && day.overtimeMinutes > 0
+        )
+      );
+
+      const result = await prisma.$transaction(async (tx) => {
+        const existing = await tx.overtimeRecord.findMany({
+          where: {
+            tenantId,
+            ...(input.employeeId && { employeeId: input.employeeId }),
+            date: {
+              gte: toDateColumn(input.startDate),
+              lte: toDateColumn(endDate),
+            },
+          },
+        });
+        const existingByDay = new Map(
+          existing.map((record) => [
+            `${record.employeeId}:${fromDateColumn(record.date)}`,
+            record,
+          ])
+        );
+
+        const created: Prisma.OvertimeRecordCreateManyInput[] = [];
+        let updated = 0;
+
+        for (const day of computed) {
+          const key = `${day.employeeId}:${day.date}`;
+          const record = existingByDay.get(key);
+          existingByDay.delete(key);
+
+          const data = {
+            dayType: day.dayType,
+            workedMinutes: day.workedMinutes,
+            dailyMinutes: day.dailyMinutes,
+            weeklyMinutes: day.weeklyMinutes,
+            overtimeMinutes: day.overtimeMinutes,
+            multiplier: day.multiplier,
+          };
+
+          if (!record) {
+            created.push({
+              tenantId,
+              employeeId: day.employeeId,
+              date: toDateColumn(day.date),
+              ...data,
+            });
+            continue;
+          }
+
+          const overtimeChanged =
+            record.overtimeMinutes !== day.overtimeMinutes ||
+            record.dayType !== day.dayType ||
+            !record.multiplier.equals(day.multiplier);
+
+          if (
+            !overtimeChanged &&
+            record.workedMinutes === day.workedMinutes &&
+            record.dailyMinutes === day.dailyMinutes
+          ) {
+            continue;
+          }
+
+          await tx.overtimeRecord.update({
+            where: { id: record.id },
+            data: {
+              ...data,
+              ...(overtimeChanged && {
+                status: 'PENDING',
+                approvedMinutes: null,
+                reviewNote: null,
+                reviewedAt: null,
+              }),
+            },
+          });
+          updated++;
+        }
+
+        await tx.overtimeRecord.createMany({ data: created });
+
+        // Days without overtime any more
+        const removed = await tx.overtimeRecord.deleteMany({
+          where: {
+            id: { in: [...existingByDay.values()].map(({ id }) => id) },
+          },
+        });
+
+        return {
+          startDate: input.startDate,
+          endDate,
+          created: created.length,
+          updated,
+          removed: removed.count,
+        };
+      });
+
+      logger.info('Overtime computed', { tenantId, ...result });
+
+      return result;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new AppError(
+          'Overtime for this period is being computed already, please retry',
+          409
+        );
+      }
+      logger.error('Error computing overtime', error);
+      throw new AppError('Failed to compute overtime', 500);
+    }
+  }
+
+  /**
+   * List overtime records for a tenant, latest day first
+   */
+  async listRecords(
+    tenantId: string,
+    filters: ListOvertimeFilters
+  ): Promise<OvertimeRecordList> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const page = filters.page || 1;
+      const limit = filters.limit || 20;
+
+      const where: Prisma.OvertimeRecordWhereInput = { tenantId };
+
+      if (filters.status) {
+        where.status = filters.status;
+      }
+
+      if (filters.employeeId) {
+        where.employeeId = filters.employeeId;
+      }
+
+      if (filters.startDate || filters.endDate) {
+        where.date = {
+          ...(filters.startDate && { gte: toDateColumn(filters.startDate) }),
+          ...(filters.endDate && { lte: toDateColumn(filters.endDate) }),
+        };
+      }
+
+      const [records, total] = await Promise.all([
+        prisma.overtimeRecord.findMany({
+          where,
+          include: {
+            employee: { select: { id: true, name: true } },
+          },
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        }),
+        prisma.overtimeRecord.count({ where }),
+      ]);
+
+      return {
+        timezone,
+        records: records.map((record) =>
+          toLocalOvertimeRecord(record, timezone)
+        ),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error listing overtime records', error);
+      throw new AppError('Failed to list overtime records', 500);
+    }
+  }
+
+  /**
+   * Approve pending overtime, all of it or part of it
+   */
+  async approve(
+    recordId: string,
+    tenantId: string,
+    input: ReviewOvertimeInput
+  ): Promise<LocalOvertimeRecord> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const record = await this.findForTenant(recordId, tenantId);
+
+      const approvedMinutes = input.approvedMinutes ?? record.overtimeMinutes;
+      if (approvedMinutes > record.overtimeMinutes) {
+        throw new AppError(
+          `Approved minutes cannot exceed the ${record.overtimeMinutes} minutes of overtime`,
+          400
+        );
+      }
+
+      // Fails if the record was reviewed or recomputed in the meantime
+      const claimed = await prisma.overtimeRecord.updateMany({
+        where: {
+          id: recordId,
+          status: 'PENDING',
+          overtimeMinutes: record.overtimeMinutes,
+        },
+        data: {
+          status: 'APPROVED',
+          approvedMinutes,
+          reviewNote: input.reviewNote,
+          reviewedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError('Overtime record is not pending', 409);
+      }
+
+      const approved = await this.findForTenant(recordId, tenantId);
+
+      logger.info('Overtime approved', {
+        overtimeRecordId: recordId,
+        tenantId,
+        approvedMinutes,
+      });
+
+      return toLocalOvertimeRecord(approved, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error approving overtime', error);
+      throw new AppError('Failed to approve overtime', 500);
+    }
+  }
+
+  /**
+   * Reject pending overtime
+   */
+  async reject(
+    recordId: string,
+    tenantId: string,
+    reviewNote: string
+  ): Promise<LocalOvertimeRecord> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      await this.findForTenant(recordId, tenantId);
+
+      const claimed = await prisma.overtimeRecord.updateMany({
+        where: { id: recordId, status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          reviewNote,
+          reviewedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError('Overtime record is not pending', 409);
+      }
+
+      const rejected = await this.findForTenant(recordId, tenantId);
+
+      logger.info('Overtime rejected', {
+        overtimeRecordId: recordId,
+        tenantId,
+      });
+
+      return toLocalOvertimeRecord(rejected, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error rejecting overtime', error);
+      throw new AppError('Failed to reject overtime', 500);
+    }
+  }
+
+  /**
+   * Overtime days between two local dates, for attendance reports
+   */
+  async getOvertimeDays(
+    tenantId: string,
+    startDate: string,
+    endDate: string,
+    employeeIds?: string[]
+  ): Promise<OvertimeDay[]> {
+    const records = await prisma.overtimeRecord.findMany({
+      where: {
+        tenantId,
+        date: {
+          gte: toDateColumn(startDate),
+          lte: toDateColumn(endDate),
+        },
+        ...(employeeIds && { employeeId: { in: employeeIds } }),
+      },
+      include: {
+        employee: { select: { id: true, name: true } },
+      },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    });
+
+    return records.map((record) => ({
+      date: fromDateColumn(record.date),
+      status: 'OVERTIME' as const,
+      employeeId: record.employeeId,
+      employee: record.employee,
+      overtimeRecordId: record.id,
+      dayType: record.dayType,
+      overtimeMinutes: record.overtimeMinutes,
+      approvedMinutes: record.approvedMinutes,
+      multiplier: record.multiplier.toNumber(),
+      reviewStatus: record.status,
+    }));
+  }
+
+  /**
+   * Approved overtime per employee between two local dates
+   */
+  async getApprovedOvertime(
+    tenantId: string,
+    employeeIds: string[],
+    startDate: string,
+    endDate: string
+  ): Promise<Map<string, ApprovedOvertime>> {
+    const records = await prisma.overtimeRecord.findMany({
+      where: {
+        tenantId,
+        employeeId: { in: employeeIds },
+        status: 'APPROVED',
+        date: {
+          gte: toDateColumn(startDate),
+          lte: toDateColumn(endDate),
+        },
+      },
+      select: {
+        employeeId: true,
+        approvedMinutes: true,
+        multiplier: true,
+      },
+    });
+
+    const overtime = new Map<string, ApprovedOvertime>();
+    for (const record of records) {
+      const minutes = record.approvedMinutes ?? 0;
+      const total = overtime.get(record.employeeId) ?? {
+        minutes: 0,
+        weightedMinutes: new Prisma.Decimal(0),
+      };
+      overtime.set(record.employeeId, {
+        minutes: total.minutes + minutes,
+        weightedMinutes: total.weightedMinutes.plus(
+          record.multiplier.times(minutes)
+        ),
+      });
+    }
+
+    return overtime;
+  }
+
+  /**
+   * Find an overtime record belonging to a tenant
+   */
+  private async findForTenant(
+    recordId: string,
+    tenantId: string
+  ): Promise<OvertimeRecord & { employee: { id: string; name: string } }> {
+    const record = await prisma.overtimeRecord.findFirst({
+      where: {
+        id: recordId,
+        tenantId,
+      },
+      include: {
+        employee: { select: { id: true, name: true } },
+      },
+    });
+
+    if (!record) {
+      throw new AppError('Overtime record not found', 404);
+    }
+
+    return record;
+  }
+
+  /**
+   * Get a tenant's time zone
+   */
+  private async getTenantTimezone(tenantId: string): Promise<string> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    return tenant.timezone;
+  }
+}
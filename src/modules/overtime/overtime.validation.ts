@@ -0,0 +1,82 @@
+import Joi from 'joi';
+
+const localDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/);
+
+const multiplier = Joi.number().min(1).max(10).precision(2);
+
+const overtimeRecordIdParams = Joi.object({
+  overtimeRecordId: Joi.string().uuid().required().messages({
+    'string.empty': 'Overtime record ID is required',
+    'string.uuid': 'Invalid overtime record ID format',
+  }),
+});
+
+export const updateOvertimePolicySchema = Joi.object({
+  body: Joi.object({
+    dailyThresholdMinutes: Joi.number()
+      .integer()
+      .min(60)
+      .max(1440)
+      .optional(),
+    weeklyThresholdMinutes: Joi.number()
+      .integer()
+      .min(0)
+      .max(10080)
+      .allow(null)
+      .optional(),
+    weekStartsOn: Joi.number().integer().min(0).max(6).optional(),
+    overtimeMultiplier: multiplier.optional(),
+    weekendMultiplier: multiplier.optional(),
+    holidayMultiplier: multiplier.optional(),
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one field is required',
+    }),
+});
+
+export const computeOvertimeSchema = Joi.object({
+  body: Joi.object({
+    startDate: localDate.required().messages({
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format',
+      'any.required': 'Start date is required',
+    }),
+    endDate: localDate.required().messages({
+      'string.pattern.base': 'End date must be in YYYY-MM-DD format',
+      'any.required': 'End date is required',
+    }),
+    employeeId: Joi.string().uuid().optional(),
+  }),
+});
+
+export const listOvertimeSchema = Joi.object({
+  query: Joi.object({
+    status: Joi.string().valid('PENDING', 'APPROVED', 'REJECTED').optional(),
+    employeeId: Joi.string().uuid().optional(),
+    startDate: localDate.optional().messages({
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format',
+    }),
+    endDate: localDate.optional().messages({
+      'string.pattern.base': 'End date must be in YYYY-MM-DD format',
+    }),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+});
+
+export const approveOvertimeSchema = Joi.object({
+  params: overtimeRecordIdParams,
+  body: Joi.object({
+    approvedMinutes: Joi.number().integer().min(0).optional(),
+    reviewNote: Joi.string().trim().max(500).optional(),
+  }),
+});
+
+export const rejectOvertimeSchema = Joi.object({
+  params: overtimeRecordIdParams,
+  body: Joi.object({
+    reviewNote: Joi.string().trim().min(1).max(500).required().messages({
+      'string.empty': 'A note explaining the rejection is required',
+    }),
+  }),
+});
@@ -0,0 +1,83 @@
+import type { OvertimePolicy } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+
+export interface UpdateOvertimePolicyInput {
+  dailyThresholdMinutes?: number;
+  weeklyThresholdMinutes?: number | null; // Null removes the weekly limit
+  weekStartsOn?: number;
+  overtimeMultiplier?: number;
+  weekendMultiplier?: number;
+  holidayMultiplier?: number;
+}
+
+export class OvertimePolicyService {
+  /**
+   * Get a tenant's overtime rules, or null when overtime is not set up
+   */
+  async getPolicy(tenantId: string): Promise<OvertimePolicy | null> {
+    try {
+      return await prisma.overtimePolicy.findUnique({
+        where: { tenantId },
+      });
+    } catch (error) {
+      logger.error('Error fetching overtime policy', error);
+      throw new AppError('Failed to fetch overtime policy', 500);
+    }
+  }
+
+  /**
+   * Create or update a tenant's overtime rules
+   * Fields left out keep their current value, or the default on creation.
+   * Records already computed keep their minutes and multiplier until they
+   * are computed again.
+   */
+  async updatePolicy(
+    tenantId: string,
+    input: UpdateOvertimePolicyInput
+  ): Promise<OvertimePolicy> {
+    try {
+      const stored = await prisma.overtimePolicy.findUnique({
+        where: { tenantId },
+      });
+
+      const dailyThresholdMinutes =
+        input.dailyThresholdMinutes ?? stored?.dailyThresholdMinutes ?? 480;
+      const weeklyThresholdMinutes =
+        input.weeklyThresholdMinutes === undefined
+          ? stored?.weeklyThresholdMinutes
+          : input.weeklyThresholdMinutes;
+
+      if (
+        weeklyThresholdMinutes !== null &&
+        weeklyThresholdMinutes !== undefined &&
+        weeklyThresholdMinutes < dailyThresholdMinutes
+      ) {
+        throw new AppError(
+          'Weekly threshold must not be below the daily threshold',
+          400
+        );
+      }
+
+      const policy = await prisma.overtimePolicy.upsert({
+        where: { tenantId },
+        create: { tenantId, ...input },
+        update: input,
+      });
+
+      logger.info('Overtime policy updated', {
+        tenantId,
+        fields: Object.keys(input),
+      });
+
+      return policy;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating overtime policy', error);
+      throw new AppError('Failed to update overtime policy', 500);
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import type {
+  PayComponent,
+  PayComponentCalculation,
+  PayComponentType,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+
+export interface CreatePayComponentInput {
+  tenantId: string;
+  name: string;
+  type: PayComponentType;
+  calculation?: PayComponentCalculation;
+  amount: number;
+}
+
+export interface UpdatePayComponentInput {
+  name?: string;
+  type?: PayComponentType;
+  calculation?: PayComponentCalculation;
+  amount?: number;
+  isActive?: boolean;
+}
+
+/**
+ * Ensure a percentage component stays within 0-100
+ */
+const assertValidAmount = (
+  calculation: PayComponentCalculation,
+  amount: number
+): void => {
+  if (calculation === 'PERCENT_OF_BASE' && amount > 100) {
+    throw new AppError('A percentage component cannot exceed 100', 400);
+  }
+};
+
+export class PayComponentService {
+  /**
+   * Create an allowance or deduction
+   */
+  async createComponent(
+    input: CreatePayComponentInput
+  ): Promise<PayComponent> {
+    try {
+      await this.assertNameAvailable(input.tenantId, input.name);
+      assertValidAmount(input.calculation ?? 'FIXED', input.amount);
+
+      const component = await prisma.payComponent.create({
+        data: {
+          tenantId: input.tenantId,
+          name: input.name,
+          type: input.type,
+          calculation: input.calculation,
+          amount: input.amount,
+        },
+      });
+
+      logger.info('Pay component created successfully', {
+        componentId: component.id,
+        tenantId: input.tenantId,
+      });
+
+      return component;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error creating pay component', error);
+      throw new AppError('Failed to create pay component', 500);
+    }
+  }
+
+  /**
+   * List the pay components of a tenant
+   */
+  async listComponents(tenantId: string): Promise<PayComponent[]> {
+    try {
+      return await prisma.payComponent.findMany({
+        where: { tenantId },
+        orderBy: [{ type: 'asc' }, { name: 'asc' }],
+      });
+    } catch (error) {
+      logger.error('Error listing pay components', error);
+      throw new AppError('Failed to list pay components', 500);
+    }
+  }
+
+  /**
+   * Update a pay component
+   * Changes apply to runs computed afterwards; existing runs keep the
+   * amounts they were computed with
+   */
+  async updateComponent(
+    componentId: string,
+    tenantId: string,
+    input: UpdatePayComponentInput
+  ): Promise<PayComponent> {
+    try {
+      const component = await prisma.payComponent.findFirst({
+        where: {
+          id: componentId,
+          tenantId,
+        },
+      });
+
+      if (!component) {
+        throw new AppError('Pay component not found', 404);
+      }
+
+      if (input.name && input.name !== component.name) {
+        await this.assertNameAvailable(tenantId, input.name);
+      }
+
+      assertValidAmount(
+        input.calculation ?? component.calculation,
+        input.amount ?? component.amount.toNumber()
+      );
+
+      const updated = await prisma.payComponent.update({
+        where: { id: componentId },
+        data: input,
+      });
+
+      logger.info('Pay component updated successfully', {
+        componentId,
+        tenantId,
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating pay component', error);
+      throw new AppError('Failed to update pay component', 500);
+    }
+  }
+
+  /**
+   * Ensure no other pay component of the tenant uses the name
+   */
+  private async assertNameAvailable(
+    tenantId: string,
+    name: string
+  ): Promise<void> {
+    const existing = await prisma.payComponent.findUnique({
+      where: {
+        tenantId_name: {
+          tenantId,
+          name,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new AppError('Pay component with this name already exists', 409);
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import { Request, Response } from 'express';
+import type { PayrollItem, PayrollRunStatus } from '@prisma/client';
+import {
+  PayrollService,
+  type PayComponentSnapshot,
+} from './payroll.service';
+import { PayComponentService } from './payComponent.service';
+import { logger } from '../../utils/logger';
+import { fromDateColumn } from '../../utils/calendarDate';
+import type { PayComponentLine } from '../../utils/payroll';
+import {
+  resolveExportFormat,
+  streamExport,
+  type ExportColumn,
+} from '../../utils/tableExport';
+
+const payrollService = new PayrollService();
+const payComponentService = new PayComponentService();
+
+/**
+ * Spreadsheet columns of a run's breakdown, with one column per component
+ * the run was computed with
+ */
+const getItemColumns = (
+  components: PayComponentSnapshot[]
+): ExportColumn<PayrollItem>[] => [
+  { header: 'Employee ID', value: (row) => row.employeeId, width: 38 },
+  { header: 'Employee Name', value: (row) => row.employeeName, width: 24 },
+  { header: 'Monthly Salary', value: (row) => row.monthlySalary.toNumber() },
+  { header: 'Period Days', value: (row) => row.periodDays },
+  { header: 'Employed Days', value: (row) => row.employedDays },
+  { header: 'Working Days', value: (row) => row.workingDays },
+  { header: 'Present Days', value: (row) => row.presentDays },
+  { header: 'Paid Leave Days', value: (row) => row.paidLeaveDays },
+  { header: 'Unpaid Leave Days', value: (row) => row.unpaidLeaveDays },
+  { header: 'Absent Days', value: (row) => row.absentDays },
+  { header: 'Holidays', value: (row) => row.holidays },
+  { header: 'Weekly Offs', value: (row) => row.weeklyOffs },
+  { header: 'Payable Days', value: (row) => row.payableDays },
+  { header: 'Base Pay', value: (row) => row.basePay.toNumber() },
+  { header: 'Overtime Minutes', value: (row) => row.overtimeMinutes },
+  { header: 'Overtime Pay', value: (row) => row.overtimePay.toNumber() },
+  ...components.map(
+    (component): ExportColumn<PayrollItem> => ({
+      header: component.name,
+      value: (row) => {
+        const line = (row.components as unknown as PayComponentLine[]).find(
+          ({ componentId }) => componentId === component.id
+        );
+        return line ? Number(line.amount) : null;
+      },
+    })
+  ),
+  { header: 'Allowances', value: (row) => row.allowances.toNumber() },
+  { header: 'Deductions', value: (row) => row.deductions.toNumber() },
+  { header: 'Net Pay', value: (row) => row.netPay.toNumber() },
+];
+
+export class PayrollController {
+  /**
+   * Create a pay component
+   */
+  async createComponent(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const component = await payComponentService.createComponent({
+        tenantId: req.tenant.tenantId,
+        ...req.body,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Pay component created successfully',
+        data: component,
+      });
+    } catch (error: any) {
+      logger.error('Error in create pay component controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create pay component',
+      });
+    }
+  }
+
+  /**
+   * List pay components
+   */
+  async listComponents(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const components = await payComponentService.listComponents(
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: components,
+      });
+    } catch (error: any) {
+      logger.error('Error in list pay components controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list pay components',
+      });
+    }
+  }
+
+  /**
+   * Update a pay component
+   */
+  async updateComponent(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const component = await payComponentService.updateComponent(
+        req.params.componentId,
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Pay component updated successfully',
+        data: component,
+      });
+    } catch (error: any) {
+      logger.error('Error in update pay component controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update pay component',
+      });
+    }
+  }
+
+  /**
+   * Compute a draft payroll run for a month
+   */
+  async runPayroll(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const run = await payrollService.runPayroll(
+        req.tenant.tenantId,
+        req.body.month
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Payroll run computed successfully',
+        data: run,
+      });
+    } catch (error: any) {
+      logger.error('Error in run payroll controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to run payroll',
+      });
+    }
+  }
+
+  /**
+   * List payroll runs
+   */
+  async listRuns(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { month, status } = req.query;
+
+      const runs = await payrollService.listRuns(req.tenant.tenantId, {
+        month: month as string | undefined,
+        status: status as PayrollRunStatus | undefined,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: runs,
+      });
+    } catch (error: any) {
+      logger.error('Error in list payroll runs controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list payroll runs',
+      });
+    }
+  }
+
+  /**
+   * Get a payroll run
+   */
+  async getRun(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const run = await payrollService.getRun(
+        req.params.runId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: run,
+      });
+    } catch (error: any) {
+      logger.error('Error in get payroll run controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch payroll run',
+      });
+    }
+  }
+
+  /**
+   * Get the per-employee breakdown of a run
+   */
+  async listItems(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { page, limit } = req.query;
+
+      const format = resolveExportFormat(req);
+      if (format !== 'json') {
+        const { run, components, rows } = await payrollService.exportItems(
+          req.params.runId,
+          req.tenant.tenantId
+        );
+
+        await streamExport(
+          res,
+          format,
+          `payroll-${fromDateColumn(run.periodStart).slice(0, 7)}-v${run.version}`,
+          getItemColumns(components),
+          rows
+        );
+        return;
+      }
+
+      const items = await payrollService.listItems(
+        req.params.runId,
+        req.tenant.tenantId,
+        page ? parseInt(page as string) : undefined,
+        limit ? parseInt(limit as string) : undefined
+      );
+
+      res.status(200).json({
+        success: true,
+        data: items,
+      });
+    } catch (error: any) {
+      logger.error('Error in list payroll items controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list payroll items',
+      });
+    }
+  }
+
+  /**
+   * Finalize a payroll run
+   */
+  async finalizeRun(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const run = await payrollService.finalizeRun(
+        req.params.runId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Payroll run finalized successfully',
+        data: run,
+      });
+    } catch (error: any) {
+      logger.error('Error in finalize payroll run controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to finalize payroll run',
+      });
+    }
+  }
+}
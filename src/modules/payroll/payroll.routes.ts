@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { PayrollController } from './payroll.controller';
+import { validate } from '../../middlewares/validate.middleware';
+import {
+  createPayComponentSchema,
+  updatePayComponentSchema,
+  runPayrollSchema,
+  listPayrollRunsSchema,
+  getPayrollRunSchema,
+  listPayrollItemsSchema,
+  finalizePayrollRunSchema,
+} from './payroll.validation';
+import { authenticateTenant } from '../../middlewares/auth.middleware';
+
+const router = Router();
+const payrollController = new PayrollController();
+
+/**
+ * @route   POST /api/payroll/components
+ * @desc    Create an allowance or deduction
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/components',
+  authenticateTenant,
+  validate(createPayComponentSchema),
+  payrollController.createComponent.bind(payrollController)
+);
+
+/**
+ * @route   GET /api/payroll/components
+ * @desc    List pay components
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/components',
+  authenticateTenant,
+  payrollController.listComponents.bind(payrollController)
+);
+
+/**
+ * @route   PATCH /api/payroll/components/:componentId
+ * @desc    Update a pay component
+ * @access  Private (Tenant)
+ */
+router.patch(
+  '/components/:componentId',
+  authenticateTenant,
+  validate(updatePayComponentSchema),
+  payrollController.updateComponent.bind(payrollController)
+);
+
+/**
+ * @route   POST /api/payroll/runs
+ * @desc    Compute a new draft run for a month
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/runs',
+  authenticateTenant,
+  validate(runPayrollSchema),
+  payrollController.runPayroll.bind(payrollController)
+);
+
+/**
+ * @route   GET /api/payroll/runs
+ * @desc    List payroll runs
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/runs',
+  authenticateTenant,
+  validate(listPayrollRunsSchema),
+  payrollController.listRuns.bind(payrollController)
+);
+
+/**
+ * @route   GET /api/payroll/runs/:runId
+ * @desc    Get a payroll run with its totals
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/runs/:runId',
+  authenticateTenant,
+  validate(getPayrollRunSchema),
+  payrollController.getRun.bind(payrollController)
+);
+
+/**
+ * @route   GET /api/payroll/runs/:runId/items
+ * @desc    Get the per-employee breakdown of a run (JSON, CSV or XLSX)
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/runs/:runId/items',
+  authenticateTenant,
+  validate(listPayrollItemsSchema),
+  payrollController.listItems.bind(payrollController)
+);
+
+/**
+ * @route   POST /api/payroll/runs/:runId/finalize
+ * @desc    Finalize a draft run and lock its period
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/runs/:runId/finalize',
+  authenticateTenant,
+  validate(finalizePayrollRunSchema),
+  payrollController.finalizeRun.bind(payrollController)
+);
+
+export default router;
@@ -0,0 +1,522 @@
+import {
+  Prisma,
+  type PayComponentCalculation,
+  type PayComponentType,
+  type PayrollItem,
+  type PayrollRun,
+  type PayrollRunStatus,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { fromDateColumn, toDateColumn } from '../../utils/calendarDate';
+import { toLocalDateString, withLocalTimestamps } from '../../utils/timezone';
+import {
+  computePayrollItem,
+  sumAmounts,
+  type NewPayrollItem,
+} from '../../utils/payroll';
+import {
+  AttendanceSummaryService,
+} from '../attendance/attendanceSummary.service';
+import {
+  OvertimeService,
+  type ApprovedOvertime,
+} from '../overtime/overtime.service';
+
+const attendanceSummaryService = new AttendanceSummaryService();
+const overtimeService = new OvertimeService();
+
+// Payroll items read per query when exporting
+const EXPORT_BATCH_SIZE = 500;
+
+export interface ListPayrollRunsFilters {
+  month?: string; // YYYY-MM
+  status?: PayrollRunStatus;
+}
+
+/**
+ * A pay component as it was applied in a run
+ */
+export interface PayComponentSnapshot {
+  id: string;
+  name: string;
+  type: PayComponentType;
+  calculation: PayComponentCalculation;
+  amount: string;
+}
+
+export type LocalPayrollRun = PayrollRun & {
+  finalizedAtLocal: string | null;
+};
+
+export interface PayrollItemList {
+  items: PayrollItem[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface PayrollItemExport {
+  run: PayrollRun;
+  components: PayComponentSnapshot[];
+  rows: AsyncIterable<PayrollItem[]>;
+}
+
+/**
+ * First and last day of a YYYY-MM month, as YYYY-MM-DD
+ */
+const getMonthRange = (month: string): { start: string; end: string } => {
+  const [year, monthNumber] = month
+    .split('-')
+    .map((part) => parseInt(part, 10));
+  return {
+    start: `${month}-01`,
+    end: new Date(Date.UTC(year, monthNumber, 0)).toISOString().slice(0, 10),
+  };
+};
+
+const toLocalPayrollRun = (
+  run: PayrollRun,
+  timeZone: string
+): LocalPayrollRun => withLocalTimestamps(run, ['finalizedAt'], timeZone);
+
+/**
+ * Check if an error is a conflict between concurrent transactions
+ */
+const isConcurrentWriteError = (error: unknown): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  (error.code === 'P2002' || error.code === 'P2034');
+
+export class PayrollService {
+  /**
+   * Compute a new draft run for a month
+   * Each run of a period gets the next version; earlier drafts are kept.
+   * A period with a finalized run is locked.
+   */
+  async runPayroll(tenantId: string, month: string): Promise<LocalPayrollRun> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const period = getMonthRange(month);
+
+      if (period.start > toLocalDateString(new Date(), timezone)) {
+        throw new AppError('Payroll cannot be run for a future month', 400);
+      }
+
+      await this.assertPeriodOpen(prisma, tenantId, period.start);
+
+      const components = await prisma.payComponent.findMany({
+        where: {
+          tenantId,
+          isActive: true,
+        },
+        orderBy: [{ type: 'asc' }, { name: 'asc' }],
+      });
+
+      const overtimePolicy = await prisma.overtimePolicy.findUnique({
+        where: { tenantId },
+        select: { dailyThresholdMinutes: true },
+      });
+
+      const { rows } = await attendanceSummaryService.exportSummary(tenantId, {
+        month,
+      });
+
+      const items: NewPayrollItem[] = [];
+      for await (const summaries of rows) {
+        const employeeIds = summaries.map(({ employeeId }) => employeeId);
+        const employees = await prisma.employee.findMany({
+          where: { id: { in: employeeIds } },
+          select: { id: true, salary: true, createdAt: true },
+        });
+        const overtime = overtimePolicy
+          ? await overtimeService.getApprovedOvertime(
+              tenantId,
+              employeeIds,
+              period.start,
+              period.end
+            )
+          : new Map<string, ApprovedOvertime>();
+        const employeesById = new Map(
+          employees.map((employee) => [employee.id, employee])
+        );
+
+        for (const summary of summaries) {
+          const employee = employeesById.get(summary.employeeId);
+          const item =
+            employee &&
+            computePayrollItem(
+              summary,
+              employee,
+              overtime.get(summary.employeeId),
+              overtimePolicy?.dailyThresholdMinutes ?? 0,
+              components,
+              period,
+              timezone
+            );
+          if (item) {
+            items.push(item);
+          }
+        }
+      }
+
+      const snapshot: PayComponentSnapshot[] = components.map(
+        (component) => ({
+          id: component.id,
+          name: component.name,
+          type: component.type,
+          calculation: component.calculation,
+          amount: component.amount.toFixed(2),
+        })
+      );
+
+      const run = await prisma.$transaction(
+        async (tx) => {
+          await this.assertPeriodOpen(tx, tenantId, period.start);
+
+          const latest = await tx.payrollRun.findFirst({
+            where: {
+              tenantId,
+              periodStart: toDateColumn(period.start),
+            },
+            orderBy: { version: 'desc' },
+            select: { version: true },
+          });
+
+          const created = await tx.payrollRun.create({
+            data: {
+              tenantId,
+              periodStart: toDateColumn(period.start),
+              periodEnd: toDateColumn(period.end),
+              version: (latest?.version ?? 0) + 1,
+              employeeCount: items.length,
+              basePay: sumAmounts(
+                items.map((item) => item.basePay as Prisma.Decimal)
+              ),
+              overtimePay: sumAmounts(
+                items.map((item) => item.overtimePay as Prisma.Decimal)
+              ),
+              allowances: sumAmounts(
+                items.map((item) => item.allowances as Prisma.Decimal)
+              ),
+              deductions: sumAmounts(
+                items.map((item) => item.deductions as Prisma.Decimal)
+              ),
+              netPay: sumAmounts(
+                items.map((item) => item.netPay as Prisma.Decimal)
+              ),
+              components: snapshot as unknown as Prisma.InputJsonValue,
+            },
+          });
+
+          await tx.payrollItem.createMany({
+            data: items.map((item) => ({
+              ...item,
+              tenantId,
+              payrollRunId: created.id,
+            })),
+          });
+
+          return created;
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+
+      logger.info('Payroll run computed', {
+        payrollRunId: run.id,
+        tenantId,
+        periodStart: period.start,
+        version: run.version,
+        employeeCount: run.employeeCount,
+      });
+
+      return toLocalPayrollRun(run, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (isConcurrentWriteError(error)) {
+        throw new AppError(
+          'Another payroll run for this period was saved at the same time, please retry',
+          409
+        );
+      }
+      logger.error('Error running payroll', error);
+      throw new AppError('Failed to run payroll', 500);
+    }
+  }
+
+  /**
+   * List a tenant's runs, latest period and version first
+   */
+  async listRuns(
+    tenantId: string,
+    filters: ListPayrollRunsFilters
+  ): Promise<LocalPayrollRun[]> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+
+      const runs = await prisma.payrollRun.findMany({
+        where: {
+          tenantId,
+          ...(filters.month && {
+            periodStart: toDateColumn(getMonthRange(filters.month).start),
+          }),
+          ...(filters.status && { status: filters.status }),
+        },
+        orderBy: [{ periodStart: 'desc' }, { version: 'desc' }],
+      });
+
+      return runs.map((run) => toLocalPayrollRun(run, timezone));
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error listing payroll runs', error);
+      throw new AppError('Failed to list payroll runs', 500);
+    }
+  }
+
+  /**
+   * Get a run belonging to a tenant
+   */
+  async getRun(runId: string, tenantId: string): Promise<LocalPayrollRun> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const run = await this.findForTenant(runId, tenantId);
+
+      return toLocalPayrollRun(run, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching payroll run', error);
+      throw new AppError('Failed to fetch payroll run', 500);
+    }
+  }
+
+  /**
+   * List the per-employee breakdown of a run
+   */
+  async listItems(
+    runId: string,
+    tenantId: string,
+    page: number = 1,
+    limit: number = 50
+  ): Promise<PayrollItemList> {
+    try {
+      await this.findForTenant(runId, tenantId);
+
+      const where: Prisma.PayrollItemWhereInput = { payrollRunId: runId };
+
+      const [items, total] = await Promise.all([
+        prisma.payrollItem.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: [{ employeeName: 'asc' }, { id: 'asc' }],
+        }),
+        prisma.payrollItem.count({ where }),
+      ]);
+
+      return {
+        items,
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error listing payroll items', error);
+      throw new AppError('Failed to list payroll items', 500);
+    }
+  }
+
+  /**
+   * Prepare a run's breakdown for streaming, a batch at a time
+   */
+  async exportItems(
+    runId: string,
+    tenantId: string
+  ): Promise<PayrollItemExport> {
+    try {
+      const run = await this.findForTenant(runId, tenantId);
+
+      async function* readRows(): AsyncGenerator<PayrollItem[]> {
+        let cursor: string | undefined;
+        while (true) {
+          const batch = await prisma.payrollItem.findMany({
+            where: { payrollRunId: runId },
+            orderBy: { id: 'asc' },
+            take: EXPORT_BATCH_SIZE,
+            ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+          });
+
+          if (batch.length > 0) {
+            yield batch;
+          }
+
+          if (batch.length < EXPORT_BATCH_SIZE) {
+            return;
+          }
+          cursor = batch[batch.length - 1].id;
+        }
+      }
+
+      return {
+        run,
+        components: run.components as unknown as PayComponentSnapshot[],
+        rows: readRows(),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error exporting payroll items', error);
+      throw new AppError('Failed to export payroll items', 500);
+    }
+  }
+
+  /**
+   * Finalize the latest draft of a period, locking the period
+   * The period must have ended, so the draft covers all of its days
+   */
+  async finalizeRun(runId: string, tenantId: string): Promise<LocalPayrollRun> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const run = await this.findForTenant(runId, tenantId);
+
+      if (run.status !== 'DRAFT') {
+        throw new AppError('Payroll run is already finalized', 409);
+      }
+
+      if (
+        fromDateColumn(run.periodEnd) >= toLocalDateString(new Date(), timezone)
+      ) {
+        throw new AppError(
+          'Payroll cannot be finalized until the period has ended',
+          409
+        );
+      }
+
+      const finalized = await prisma.$transaction(
+        async (tx) => {
+          await this.assertPeriodOpen(
+            tx,
+            tenantId,
+            fromDateColumn(run.periodStart)
+          );
+
+          const latest = await tx.payrollRun.findFirst({
+            where: {
+              tenantId,
+              periodStart: run.periodStart,
+            },
+            orderBy: { version: 'desc' },
+            select: { id: true, version: true },
+          });
+
+          if (latest && latest.id !== run.id) {
+            throw new AppError(
+              `Only the latest version (${latest.version}) of a period can be finalized`,
+              409
+            );
+          }
+
+          return tx.payrollRun.update({
+            where: { id: run.id },
+            data: {
+              status: 'FINALIZED',
+              finalizedAt: new Date(),
+            },
+          });
+        },
+        { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+      );
+
+      logger.info('Payroll run finalized', {
+        payrollRunId: runId,
+        tenantId,
+        version: finalized.version,
+      });
+
+      return toLocalPayrollRun(finalized, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if (isConcurrentWriteError(error)) {
+        throw new AppError(
+          'The period changed while finalizing, please retry',
+          409
+        );
+      }
+      logger.error('Error finalizing payroll run', error);
+      throw new AppError('Failed to finalize payroll run', 500);
+    }
+  }
+
+  /**
+   * Ensure no run of the period has been finalized
+   */
+  private async assertPeriodOpen(
+    db: Prisma.TransactionClient,
+    tenantId: string,
+    periodStart: string
+  ): Promise<void> {
+    const finalized = await db.payrollRun.findFirst({
+      where: {
+        tenantId,
+        periodStart: toDateColumn(periodStart),
+        status: 'FINALIZED',
+      },
+      select: { version: true },
+    });
+
+    if (finalized) {
+      throw new AppError(
+        `Payroll for this period is locked: version ${finalized.version} is finalized`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Find a run belonging to a tenant
+   */
+  private async findForTenant(
+    runId: string,
+    tenantId: string
+  ): Promise<PayrollRun> {
+    const run = await prisma.payrollRun.findFirst({
+      where: {
+        id: runId,
+        tenantId,
+      },
+    });
+
+    if (!run) {
+      throw new AppError('Payroll run not found', 404);
+    }
+
+    return run;
+  }
+
+  /**
+   * Get a tenant's time zone
+   */
+  private async getTenantTimezone(tenantId: string): Promise<string> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    return tenant.timezone;
+  }
+}
@@ -0,0 +1,85 @@
+import Joi from 'joi';
+
+const month = Joi.string()
+  .pattern(/^\d{4}-(0[1-9]|1[0-2])$/)
+  .messages({
+    'string.pattern.base': 'Month must be in YYYY-MM format',
+  });
+
+const runIdParams = Joi.object({
+  runId: Joi.string().uuid().required().messages({
+    'string.empty': 'Payroll run ID is required',
+    'string.uuid': 'Invalid payroll run ID format',
+  }),
+});
+
+export const createPayComponentSchema = Joi.object({
+  body: Joi.object({
+    name: Joi.string().trim().min(2).max(50).required().messages({
+      'string.empty': 'Component name is required',
+      'string.min': 'Name must be at least 2 characters',
+      'string.max': 'Name must not exceed 50 characters',
+    }),
+    type: Joi.string().valid('ALLOWANCE', 'DEDUCTION').required().messages({
+      'any.only': 'Type must be ALLOWANCE or DEDUCTION',
+      'any.required': 'Type is required',
+    }),
+    calculation: Joi.string().valid('FIXED', 'PERCENT_OF_BASE').optional(),
+    amount: Joi.number().min(0).precision(2).required().messages({
+      'number.min': 'Amount cannot be negative',
+      'any.required': 'Amount is required',
+    }),
+  }),
+});
+
+export const updatePayComponentSchema = Joi.object({
+  params: Joi.object({
+    componentId: Joi.string().uuid().required().messages({
+      'string.empty': 'Component ID is required',
+      'string.uuid': 'Invalid component ID format',
+    }),
+  }),
+  body: Joi.object({
+    name: Joi.string().trim().min(2).max(50).optional(),
+    type: Joi.string().valid('ALLOWANCE', 'DEDUCTION').optional(),
+    calculation: Joi.string().valid('FIXED', 'PERCENT_OF_BASE').optional(),
+    amount: Joi.number().min(0).precision(2).optional(),
+    isActive: Joi.boolean().optional(),
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one field is required',
+    }),
+});
+
+export const runPayrollSchema = Joi.object({
+  body: Joi.object({
+    month: month.required().messages({
+      'any.required': 'Month is required',
+    }),
+  }),
+});
+
+export const listPayrollRunsSchema = Joi.object({
+  query: Joi.object({
+    month: month.optional(),
+    status: Joi.string().valid('DRAFT', 'FINALIZED').optional(),
+  }),
+});
+
+export const getPayrollRunSchema = Joi.object({
+  params: runIdParams,
+});
+
+export const listPayrollItemsSchema = Joi.object({
+  params: runIdParams,
+  query: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(500).default(50),
+    format: Joi.string().valid('json', 'csv', 'xlsx').optional(),
+  }),
+});
+
+export const finalizePayrollRunSchema = Joi.object({
+  params: runIdParams,
+});
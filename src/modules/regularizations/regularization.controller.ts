@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import type { RegularizationStatus } from '@prisma/client';
+import { RegularizationService } from './regularization.service';
+import { logger } from '../../utils/logger';
+
+const regularizationService = new RegularizationService();
+
+export class RegularizationController {
+  /**
+   * Submit a regularization request on behalf of an employee
+   */
+  async submit(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const regularization = await regularizationService.submit({
+        ...req.body,
+        tenantId: req.tenant.tenantId,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Regularization request submitted',
+        data: regularization,
+      });
+    } catch (error: any) {
+      logger.error('Error in submit regularization controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to submit regularization request',
+      });
+    }
+  }
+
+  /**
+   * List regularization requests
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { status, employeeId, startDate, endDate, page, limit } =
+        req.query;
+
+      const result = await regularizationService.list(req.tenant.tenantId, {
+        status: status as RegularizationStatus | undefined,
+        employeeId: employeeId as string | undefined,
+        startDate: startDate as string | undefined,
+        endDate: endDate as string | undefined,
+        page: page ? parseInt(page as string) : 1,
+        limit: limit ? parseInt(limit as string) : 20,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in list regularizations controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list regularization requests',
+      });
+    }
+  }
+
+  /**
+   * Get a regularization request
+   */
+  async getDetails(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const regularization = await regularizationService.get(
+        req.params.regularizationId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: regularization,
+      });
+    } catch (error: any) {
+      logger.error('Error in get regularization controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch regularization request',
+      });
+    }
+  }
+
+  /**
+   * Approve a regularization request
+   */
+  async approve(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await regularizationService.approve(
+        req.params.regularizationId,
+        req.tenant.tenantId,
+        req.body.reviewNote
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Regularization request approved',
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in approve regularization controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to approve regularization request',
+      });
+    }
+  }
+
+  /**
+   * Reject a regularization request
+   */
+  async reject(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const regularization = await regularizationService.reject(
+        req.params.regularizationId,
+        req.tenant.tenantId,
+        req.body.reviewNote
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Regularization request rejected',
+        data: regularization,
+      });
+    } catch (error: any) {
+      logger.error('Error in reject regularization controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to reject regularization request',
+      });
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { RegularizationController } from './regularization.controller';
+import { validate } from '../../middlewares/validate.middleware';
+import {
+  submitRegularizationSchema,
+  listRegularizationsSchema,
+  getRegularizationSchema,
+  approveRegularizationSchema,
+  rejectRegularizationSchema,
+} from './regularization.validation';
+import { authenticateTenant } from '../../middlewares/auth.middleware';
+
+const router = Router();
+const regularizationController = new RegularizationController();
+
+/**
+ * @route   POST /api/regularizations
+ * @desc    Submit a regularization request for a missed or wrong day
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/',
+  authenticateTenant,
+  validate(submitRegularizationSchema),
+  regularizationController.submit.bind(regularizationController)
+);
+
+/**
+ * @route   GET /api/regularizations
+ * @desc    List regularization requests
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/',
+  authenticateTenant,
+  validate(listRegularizationsSchema),
+  regularizationController.list.bind(regularizationController)
+);
+
+/**
+ * @route   GET /api/regularizations/:regularizationId
+ * @desc    Get a regularization request
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/:regularizationId',
+  authenticateTenant,
+  validate(getRegularizationSchema),
+  regularizationController.getDetails.bind(regularizationController)
+);
+
+/**
+ * @route   POST /api/regularizations/:regularizationId/approve
+ * @desc    Approve a request and apply it to the day's attendance
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:regularizationId/approve',
+  authenticateTenant,
+  validate(approveRegularizationSchema),
+  regularizationController.approve.bind(regularizationController)
+);
+
+/**
+ * @route   POST /api/regularizations/:regularizationId/reject
+ * @desc    Reject a request
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/:regularizationId/reject',
+  authenticateTenant,
+  validate(rejectRegularizationSchema),
+  regularizationController.reject.bind(regularizationController)
+);
+
+export default router;
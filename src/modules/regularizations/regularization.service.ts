@@ -0,0 +1,404 @@
+import type {
+  Attendance,
+  AttendanceRegularization,
+  Prisma,
+  RegularizationStatus,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { parseTimeOfDay } from '../../utils/shiftTiming';
+import { toDateColumn } from '../../utils/calendarDate';
+import { withLocalTimestamps, zonedTimeToUtc } from '../../utils/timezone';
+import { AttendanceService } from '../attendance/attendance.service';
+
+const attendanceService = new AttendanceService();
+
+export interface SubmitRegularizationInput {
+  tenantId: string;
+  employeeId: string;
+  date: string; // YYYY-MM-DD, tenant-local
+  checkInTime: string; // HH:mm
+  checkOutTime?: string; // HH:mm, at or before check-in means the next day
+  reason: string;
+  evidenceUrl?: string;
+}
+
+export interface ListRegularizationsFilters {
+  status?: RegularizationStatus;
+  employeeId?: string;
+  startDate?: string; // YYYY-MM-DD, on the request's date
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export type LocalRegularization = AttendanceRegularization & {
+  checkInTimeLocal: string | null;
+  checkOutTimeLocal: string | null;
+  reviewedAtLocal: string | null;
+};
+
+export interface RegularizationList {
+  timezone: string;
+  regularizations: LocalRegularization[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export interface ApprovedRegularization {
+  regularization: LocalRegularization;
+  attendances: Attendance[];
+}
+
+const toLocalRegularization = (
+  regularization: AttendanceRegularization,
+  timeZone: string
+): LocalRegularization =>
+  withLocalTimestamps(
+    regularization,
+    ['checkInTime', 'checkOutTime', 'reviewedAt'],
+    timeZone
+  );
+
+export class RegularizationService {
+  /**
+   * Submit a regularization request for a day with missing or wrong punches
+   */
+  async submit(
+    input: SubmitRegularizationInput
+  ): Promise<LocalRegularization> {
+    try {
+      const employee = await prisma.employee.findFirst({
+        where: {
+          id: input.employeeId,
+          tenantId: input.tenantId,
+        },
+        include: { tenant: { select: { timezone: true } } },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const { timezone } = employee.tenant;
+      const [year, month, day] = input.date
+        .split('-')
+        .map((part) => parseInt(part, 10));
+
+      const checkInMinutes = parseTimeOfDay(input.checkInTime);
+      const checkInTime = zonedTimeToUtc(
+        timezone,
+        year,
+        month,
+        day,
+        0,
+        checkInMinutes
+      );
+
+      let checkOutTime: Date | null = null;
+      if (input.checkOutTime) {
+        const checkOutMinutes = parseTimeOfDay(input.checkOutTime);
+        checkOutTime = zonedTimeToUtc(
+          timezone,
+          year,
+          month,
+          checkOutMinutes <= checkInMinutes ? day + 1 : day,
+          0,
+          checkOutMinutes
+        );
+      }
+
+      const now = new Date();
+      if (checkInTime > now || (checkOutTime && checkOutTime > now)) {
+        throw new AppError('Claimed times cannot be in the future', 400);
+      }
+
+      const pending = await prisma.attendanceRegularization.findFirst({
+        where: {
+          employeeId: employee.id,
+          date: toDateColumn(input.date),
+          status: 'PENDING',
+        },
+      });
+
+      if (pending) {
+        throw new AppError(
+          'A regularization request for this date is already pending',
+          409
+        );
+      }
+
+      const regularization = await prisma.attendanceRegularization.create({
+        data: {
+          tenantId: employee.tenantId,
+          employeeId: employee.id,
+          date: toDateColumn(input.date),
+          checkInTime,
+          checkOutTime,
+          reason: input.reason,
+          evidenceUrl: input.evidenceUrl,
+        },
+      });
+
+      logger.info('Regularization request submitted', {
+        regularizationId: regularization.id,
+        employeeId: employee.id,
+        tenantId: employee.tenantId,
+      });
+
+      return toLocalRegularization(regularization, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error submitting regularization request', error);
+      throw new AppError('Failed to submit regularization request', 500);
+    }
+  }
+
+  /**
+   * List regularization requests for a tenant, newest first
+   */
+  async list(
+    tenantId: string,
+    filters: ListRegularizationsFilters
+  ): Promise<RegularizationList> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const page = filters.page || 1;
+      const limit = filters.limit || 20;
+
+      const where: Prisma.AttendanceRegularizationWhereInput = { tenantId };
+
+      if (filters.status) {
+        where.status = filters.status;
+      }
+
+      if (filters.employeeId) {
+        where.employeeId = filters.employeeId;
+      }
+
+      if (filters.startDate || filters.endDate) {
+        where.date = {
+          ...(filters.startDate && { gte: toDateColumn(filters.startDate) }),
+          ...(filters.endDate && { lte: toDateColumn(filters.endDate) }),
+        };
+      }
+
+      const [regularizations, total] = await Promise.all([
+        prisma.attendanceRegularization.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+        }),
+        prisma.attendanceRegularization.count({ where }),
+      ]);
+
+      return {
+        timezone,
+        regularizations: regularizations.map((regularization) =>
+          toLocalRegularization(regularization, timezone)
+        ),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error listing regularization requests', error);
+      throw new AppError('Failed to list regularization requests', 500);
+    }
+  }
+
+  /**
+   * Get a regularization request belonging to a tenant
+   */
+  async get(
+    regularizationId: string,
+    tenantId: string
+  ): Promise<LocalRegularization> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      const regularization = await this.findForTenant(
+        regularizationId,
+        tenantId
+      );
+
+      return toLocalRegularization(regularization, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching regularization request', error);
+      throw new AppError('Failed to fetch regularization request', 500);
+    }
+  }
+
+  /**
+   * Approve a pending request and apply it to the day's attendance
+   * The status change and the attendance changes commit together
+   */
+  async approve(
+    regularizationId: string,
+    tenantId: string,
+    reviewNote?: string
+  ): Promise<ApprovedRegularization> {
+    try {
+      const regularization = await this.findForTenant(
+        regularizationId,
+        tenantId
+      );
+
+      if (regularization.status !== 'PENDING') {
+        throw new AppError(
+          'Regularization request has already been reviewed',
+          409
+        );
+      }
+
+      const [employee, tenant] = await Promise.all([
+        prisma.employee.findUniqueOrThrow({
+          where: { id: regularization.employeeId },
+        }),
+        prisma.tenant.findUniqueOrThrow({ where: { id: tenantId } }),
+      ]);
+
+      const result = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.attendanceRegularization.updateMany({
+          where: { id: regularization.id, status: 'PENDING' },
+          data: {
+            status: 'APPROVED',
+            reviewNote,
+            reviewedAt: new Date(),
+          },
+        });
+
+        if (claimed.count === 0) {
+          throw new AppError(
+            'Regularization request has already been reviewed',
+            409
+          );
+        }
+
+        const attendances = await attendanceService.applyRegularization(
+          tx,
+          regularization,
+          employee,
+          tenant
+        );
+
+        const approved = await tx.attendanceRegularization.findUniqueOrThrow({
+          where: { id: regularization.id },
+        });
+
+        return { approved, attendances };
+      });
+
+      logger.info('Regularization request approved', {
+        regularizationId,
+        tenantId,
+        attendanceIds: result.attendances.map(({ id }) => id),
+      });
+
+      return {
+        regularization: toLocalRegularization(result.approved, tenant.timezone),
+        attendances: result.attendances,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error approving regularization request', error);
+      throw new AppError('Failed to approve regularization request', 500);
+    }
+  }
+
+  /**
+   * Reject a pending request; attendance is left unchanged
+   */
+  async reject(
+    regularizationId: string,
+    tenantId: string,
+    reviewNote: string
+  ): Promise<LocalRegularization> {
+    try {
+      const timezone = await this.getTenantTimezone(tenantId);
+      await this.findForTenant(regularizationId, tenantId);
+
+      const claimed = await prisma.attendanceRegularization.updateMany({
+        where: { id: regularizationId, status: 'PENDING' },
+        data: {
+          status: 'REJECTED',
+          reviewNote,
+          reviewedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError(
+          'Regularization request has already been reviewed',
+          409
+        );
+      }
+
+      const rejected = await prisma.attendanceRegularization.findUniqueOrThrow({
+        where: { id: regularizationId },
+      });
+
+      logger.info('Regularization request rejected', {
+        regularizationId,
+        tenantId,
+      });
+
+      return toLocalRegularization(rejected, timezone);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error rejecting regularization request', error);
+      throw new AppError('Failed to reject regularization request', 500);
+    }
+  }
+
+  /**
+   * Find a request belonging to a tenant
+   */
+  private async findForTenant(
+    regularizationId: string,
+    tenantId: string
+  ): Promise<AttendanceRegularization> {
+    const regularization = await prisma.attendanceRegularization.findFirst({
+      where: {
+        id: regularizationId,
+        tenantId,
+      },
+    });
+
+    if (!regularization) {
+      throw new AppError('Regularization request not found', 404);
+    }
+
+    return regularization;
+  }
+
+  /**
+   * Get a tenant's time zone
+   */
+  private async getTenantTimezone(tenantId: string): Promise<string> {
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { timezone: true },
+    });
+
+    if (!tenant) {
+      throw new AppError('Tenant not found', 404);
+    }
+
+    return tenant.timezone;
+  }
+}
@@ -0,0 +1,75 @@
+import Joi from 'joi';
+
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+const localDate = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/);
+
+const regularizationIdParams = Joi.object({
+  regularizationId: Joi.string().uuid().required().messages({
+    'string.empty': 'Regularization ID is required',
+    'string.uuid': 'Invalid regularization ID format',
+  }),
+});
+
+export const submitRegularizationSchema = Joi.object({
+  body: Joi.object({
+    employeeId: Joi.string().uuid().required().messages({
+      'string.empty': 'Employee ID is required',
+      'string.uuid': 'Invalid employee ID format',
+    }),
+    date: localDate.required().messages({
+      'string.empty': 'Date is required',
+      'string.pattern.base': 'Date must be in YYYY-MM-DD format',
+    }),
+    checkInTime: timeOfDay.required().messages({
+      'string.empty': 'Check-in time is required',
+      'string.pattern.base': 'Check-in time must be in HH:mm format',
+    }),
+    checkOutTime: timeOfDay.optional().messages({
+      'string.pattern.base': 'Check-out time must be in HH:mm format',
+    }),
+    reason: Joi.string().trim().min(5).max(500).required().messages({
+      'string.empty': 'Reason is required',
+      'string.min': 'Reason must be at least 5 characters',
+      'string.max': 'Reason must not exceed 500 characters',
+    }),
+    evidenceUrl: Joi.string().uri().optional().messages({
+      'string.uri': 'Invalid evidence URL',
+    }),
+  }),
+});
+
+export const listRegularizationsSchema = Joi.object({
+  query: Joi.object({
+    status: Joi.string().valid('PENDING', 'APPROVED', 'REJECTED').optional(),
+    employeeId: Joi.string().uuid().optional(),
+    startDate: localDate.optional().messages({
+      'string.pattern.base': 'Start date must be in YYYY-MM-DD format',
+    }),
+    endDate: localDate.optional().messages({
+      'string.pattern.base': 'End date must be in YYYY-MM-DD format',
+    }),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+});
+
+export const getRegularizationSchema = Joi.object({
+  params: regularizationIdParams,
+});
+
+export const approveRegularizationSchema = Joi.object({
+  params: regularizationIdParams,
+  body: Joi.object({
+    reviewNote: Joi.string().trim().max(500).optional(),
+  }),
+});
+
+export const rejectRegularizationSchema = Joi.object({
+  params: regularizationIdParams,
+  body: Joi.object({
+    reviewNote: Joi.string().trim().min(1).max(500).required().messages({
+      'string.empty': 'A note explaining the rejection is required',
+    }),
+  }),
+});
@@ -0,0 +1,179 @@
+import type {
+  LocationCheck,
+  LocationCheckVerdict,
+  LocationRuleFlag,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import type { PreviousLocation } from '../../utils/locationRules';
+import { parseDateBoundary, withLocalTimestamps } from '../../utils/timezone';
+import type { RequestContext } from './securityEvent.service';
+
+export interface RecordLocationCheckInput {
+  tenantId: string;
+  employeeId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  altitude?: number;
+  isMocked?: boolean;
+  fixTimestamp?: Date;
+  locationId: string | null;
+  distanceMeters: number | null;
+  verdict: LocationCheckVerdict;
+  flags: LocationRuleFlag[];
+  checkedAt?: Date; // Defaults to now; capture time for offline punches
+  context?: RequestContext;
+}
+
+export interface ListLocationChecksFilters {
+  verdict?: LocationCheckVerdict;
+  employeeId?: string;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface LocationCheckListItem extends LocationCheck {
+  employee: { id: string; name: string };
+  location: { id: string; name: string } | null;
+  createdAtLocal: string | null;
+  fixTimestampLocal: string | null;
+}
+
+export interface LocationCheckList {
+  timezone: string;
+  checks: LocationCheckListItem[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export class LocationCheckService {
+  /**
+   * Store a location check and its verdict
+   */
+  async record(input: RecordLocationCheckInput): Promise<LocationCheck> {
+    const { context, checkedAt, ...data } = input;
+
+    return prisma.locationCheck.create({
+      data: {
+        ...data,
+        createdAt: checkedAt,
+        ipAddress: context?.ipAddress,
+        userAgent: context?.userAgent,
+      },
+    });
+  }
+
+  /**
+   * Last check of an employee that was not rejected
+   * Rejected checks are ignored so a spoofed position cannot make the next
+   * genuine check look like impossible travel
+   * Pass before to judge a position from the past, e.g. an offline punch
+   */
+  async getLastAccepted(
+    employeeId: string,
+    before?: Date
+  ): Promise<PreviousLocation | null> {
+    const check = await prisma.locationCheck.findFirst({
+      where: {
+        employeeId,
+        verdict: { not: 'REJECT' },
+        createdAt: before ? { lte: before } : undefined,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!check) {
+      return null;
+    }
+
+    return {
+      latitude: check.latitude,
+      longitude: check.longitude,
+      checkedAt: check.createdAt,
+    };
+  }
+
+  /**
+   * List location checks for a tenant, newest first
+   */
+  async listChecks(
+    tenantId: string,
+    filters: ListLocationChecksFilters
+  ): Promise<LocationCheckList> {
+    try {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { timezone: true },
+      });
+
+      if (!tenant) {
+        throw new AppError('Tenant not found', 404);
+      }
+
+      const { timezone } = tenant;
+      const page = filters.page || 1;
+      const limit = filters.limit || 20;
+
+      const where: Prisma.LocationCheckWhereInput = { tenantId };
+
+      if (filters.verdict) {
+        where.verdict = filters.verdict;
+      }
+
+      if (filters.employeeId) {
+        where.employeeId = filters.employeeId;
+      }
+
+      if (filters.startDate || filters.endDate) {
+        where.createdAt = {
+          ...(filters.startDate && {
+            gte: parseDateBoundary(filters.startDate, 'start', timezone),
+          }),
+          ...(filters.endDate && {
+            lte: parseDateBoundary(filters.endDate, 'end', timezone),
+          }),
+        };
+      }
+
+      const [checks, total] = await Promise.all([
+        prisma.locationCheck.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          include: {
+            employee: {
+              select: { id: true, name: true },
+            },
+            location: {
+              select: { id: true, name: true },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+        }),
+        prisma.locationCheck.count({ where }),
+      ]);
+
+      return {
+        timezone,
+        checks: checks.map((check) =>
+          withLocalTimestamps(check, ['createdAt', 'fixTimestamp'], timezone)
+        ),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error listing location checks', error);
+      throw new AppError('Failed to list location checks', 500);
+    }
+  }
+}
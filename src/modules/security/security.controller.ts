@@ -0,0 +1,91 @@
+import { Request, Response } from 'express';
+import type { LocationCheckVerdict, SecurityEventType } from '@prisma/client';
+import { LocationCheckService } from './locationCheck.service';
+import { SecurityEventService } from './securityEvent.service';
+import { logger } from '../../utils/logger';
+
+const locationCheckService = new LocationCheckService();
+const securityEventService = new SecurityEventService();
+
+export class SecurityController {
+  /**
+   * List location checks with their spoofing verdicts
+   */
+  async listLocationChecks(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { verdict, employeeId, startDate, endDate, page, limit } =
+        req.query;
+
+      const result = await locationCheckService.listChecks(
+        req.tenant.tenantId,
+        {
+          verdict: verdict as LocationCheckVerdict | undefined,
+          employeeId: employeeId as string | undefined,
+          startDate: startDate as string | undefined,
+          endDate: endDate as string | undefined,
+          page: page ? parseInt(page as string) : 1,
+          limit: limit ? parseInt(limit as string) : 20,
+        }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in list location checks controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list location checks',
+      });
+    }
+  }
+
+  /**
+   * List security events
+   */
+  async listEvents(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { type, employeeId, startDate, endDate, page, limit } = req.query;
+
+      const result = await securityEventService.listEvents(
+        req.tenant.tenantId,
+        {
+          type: type as SecurityEventType | undefined,
+          employeeId: employeeId as string | undefined,
+          startDate: startDate as string | undefined,
+          endDate: endDate as string | undefined,
+          page: page ? parseInt(page as string) : 1,
+          limit: limit ? parseInt(limit as string) : 20,
+        }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in list security events controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list security events',
+      });
+    }
+  }
+}
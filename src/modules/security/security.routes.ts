@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { SecurityController } from './security.controller';
+import { validate } from '../../middlewares/validate.middleware';
+import {
+  listLocationChecksSchema,
+  listSecurityEventsSchema,
+} from './security.validation';
+import { authenticateTenant } from '../../middlewares/auth.middleware';
+
+const router = Router();
+const securityController = new SecurityController();
+
+// All security routes require authentication
+router.use(authenticateTenant);
+
+/**
+ * @route   GET /api/security/location-checks
+ * @desc    List location checks (filter verdict=FLAG or REJECT for review)
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/location-checks',
+  validate(listLocationChecksSchema),
+  securityController.listLocationChecks.bind(securityController)
+);
+
+/**
+ * @route   GET /api/security/events
+ * @desc    List security events (token replays, rejected location checks)
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/events',
+  validate(listSecurityEventsSchema),
+  securityController.listEvents.bind(securityController)
+);
+
+export default router;
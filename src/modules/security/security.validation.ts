@@ -0,0 +1,29 @@
+import Joi from 'joi';
+
+export const listLocationChecksSchema = Joi.object({
+  query: Joi.object({
+    verdict: Joi.string().valid('ALLOW', 'FLAG', 'REJECT').optional(),
+    employeeId: Joi.string().uuid().optional(),
+    startDate: Joi.string().isoDate().optional(),
+    endDate: Joi.string().isoDate().optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+});
+
+export const listSecurityEventsSchema = Joi.object({
+  query: Joi.object({
+    type: Joi.string()
+      .valid(
+        'LOCATION_TOKEN_REPLAY',
+        'LOCATION_CHECK_REJECTED',
+        'OFFLINE_SIGNATURE_INVALID'
+      )
+      .optional(),
+    employeeId: Joi.string().uuid().optional(),
+    startDate: Joi.string().isoDate().optional(),
+    endDate: Joi.string().isoDate().optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+});
@@ -0,0 +1,138 @@
+import type { Prisma, SecurityEvent, SecurityEventType } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { parseDateBoundary, withLocalTimestamps } from '../../utils/timezone';
+
+/**
+ * Client details captured with a request, for audit trails
+ */
+export interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface RecordSecurityEventInput {
+  tenantId: string;
+  employeeId?: string;
+  type: SecurityEventType;
+  details?: Prisma.InputJsonObject;
+  context?: RequestContext;
+}
+
+export interface ListSecurityEventsFilters {
+  type?: SecurityEventType;
+  employeeId?: string;
+  startDate?: string;
+  endDate?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface SecurityEventList {
+  timezone: string;
+  events: (SecurityEvent & { createdAtLocal: string | null })[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+export class SecurityEventService {
+  /**
+   * Record a security event
+   * Never throws: failing to audit must not change the outcome of the request
+   */
+  async record(input: RecordSecurityEventInput): Promise<void> {
+    logger.warn(`Security event: ${input.type}`, {
+      tenantId: input.tenantId,
+      employeeId: input.employeeId,
+      ...input.details,
+      ...input.context,
+    });
+
+    try {
+      await prisma.securityEvent.create({
+        data: {
+          tenantId: input.tenantId,
+          employeeId: input.employeeId,
+          type: input.type,
+          details: input.details,
+          ipAddress: input.context?.ipAddress,
+          userAgent: input.context?.userAgent,
+        },
+      });
+    } catch (error) {
+      logger.error('Error recording security event', error);
+    }
+  }
+
+  /**
+   * List security events for a tenant, newest first
+   */
+  async listEvents(
+    tenantId: string,
+    filters: ListSecurityEventsFilters
+  ): Promise<SecurityEventList> {
+    try {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: tenantId },
+        select: { timezone: true },
+      });
+
+      if (!tenant) {
+        throw new AppError('Tenant not found', 404);
+      }
+
+      const { timezone } = tenant;
+      const page = filters.page || 1;
+      const limit = filters.limit || 20;
+
+      const where: Prisma.SecurityEventWhereInput = { tenantId };
+
+      if (filters.type) {
+        where.type = filters.type;
+      }
+
+      if (filters.employeeId) {
+        where.employeeId = filters.employeeId;
+      }
+
+      if (filters.startDate || filters.endDate) {
+        where.createdAt = {
+          ...(filters.startDate && {
+            gte: parseDateBoundary(filters.startDate, 'start', timezone),
+          }),
+          ...(filters.endDate && {
+            lte: parseDateBoundary(filters.endDate, 'end', timezone),
+          }),
+        };
+      }
+
+      const [events, total] = await Promise.all([
+        prisma.securityEvent.findMany({
+          where,
+          skip: (page - 1) * limit,
+          take: limit,
+          orderBy: { createdAt: 'desc' },
+        }),
+        prisma.securityEvent.count({ where }),
+      ]);
+
+      return {
+        timezone,
+        events: events.map((event) =>
+          withLocalTimestamps(event, ['createdAt'], timezone)
+        ),
+        total,
+        page,
+        totalPages: Math.ceil(total / limit),
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error listing security events', error);
+      throw new AppError('Failed to list security events', 500);
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { ShiftService } from './shift.service';
+import { logger } from '../../utils/logger';
+
+const shiftService = new ShiftService();
+
+export class ShiftController {
+  /**
+   * Create a new shift
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const shift = await shiftService.createShift({
+        tenantId: req.tenant.tenantId,
+        ...req.body,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Shift created successfully',
+        data: shift,
+      });
+    } catch (error: any) {
+      logger.error('Error in create shift controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create shift',
+      });
+    }
+  }
+
+  /**
+   * List all shifts
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const shifts = await shiftService.listShifts(req.tenant.tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: shifts,
+      });
+    } catch (error: any) {
+      logger.error('Error in list shifts controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list shifts',
+      });
+    }
+  }
+
+  /**
+   * Get shift details
+   */
+  async getDetails(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { shiftId } = req.params;
+
+      const shift = await shiftService.getShift(shiftId, req.tenant.tenantId);
+
+      res.status(200).json({
+        success: true,
+        data: shift,
+      });
+    } catch (error: any) {
+      logger.error('Error in get shift controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch shift',
+      });
+    }
+  }
+
+  /**
+   * Update shift
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { shiftId } = req.params;
+
+      const shift = await shiftService.updateShift(
+        shiftId,
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Shift updated successfully',
+        data: shift,
+      });
+    } catch (error: any) {
+      logger.error('Error in update shift controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update shift',
+      });
+    }
+  }
+
+  /**
+   * Delete shift
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { shiftId } = req.params;
+
+      await shiftService.deleteShift(shiftId, req.tenant.tenantId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Shift deleted successfully',
+      });
+    } catch (error: any) {
+      logger.error('Error in delete shift controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to delete shift',
+      });
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { ShiftController } from './shift.controller';
+import { validate } from '../../middlewares/validate.middleware';
+import {
+  createShiftSchema,
+  updateShiftSchema,
+  getShiftSchema,
+  deleteShiftSchema,
+} from './shift.validation';
+import { authenticateTenant } from '../../middlewares/auth.middleware';
+
+const router = Router();
+const shiftController = new ShiftController();
+
+// All shift routes require authentication
+router.use(authenticateTenant);
+
+/**
+ * @route   POST /api/shifts
+ * @desc    Create a shift
+ * @access  Private (Tenant)
+ */
+router.post(
+  '/',
+  validate(createShiftSchema),
+  shiftController.create.bind(shiftController)
+);
+
+/**
+ * @route   GET /api/shifts
+ * @desc    List all shifts
+ * @access  Private (Tenant)
+ */
+router.get('/', shiftController.list.bind(shiftController));
+
+/**
+ * @route   GET /api/shifts/:shiftId
+ * @desc    Get shift details
+ * @access  Private (Tenant)
+ */
+router.get(
+  '/:shiftId',
+  validate(getShiftSchema),
+  shiftController.getDetails.bind(shiftController)
+);
+
+/**
+ * @route   PATCH /api/shifts/:shiftId
+ * @desc    Update shift
+ * @access  Private (Tenant)
+ */
+router.patch(
+  '/:shiftId',
+  validate(updateShiftSchema),
+  shiftController.update.bind(shiftController)
+);
+
+/**
+ * @route   DELETE /api/shifts/:shiftId
+ * @desc    Delete shift (assigned employees are unassigned)
+ * @access  Private (Tenant)
+ */
+router.delete(
+  '/:shiftId',
+  validate(deleteShiftSchema),
+  shiftController.delete.bind(shiftController)
+);
+
+export default router;
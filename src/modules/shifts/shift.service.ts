@@ -0,0 +1,228 @@
+import type { Shift } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { parseTimeOfDay } from '../../utils/shiftTiming';
+
+export interface CreateShiftInput {
+  tenantId: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+  lateGraceMinutes?: number;
+  earlyExitGraceMinutes?: number;
+  halfDayAfterMinutes?: number | null;
+  weeklyOffs?: number[];
+}
+
+export interface ShiftWithEmployeeCount extends Shift {
+  employeeCount: number;
+}
+
+export class ShiftService {
+  /**
+   * Create a new shift
+   */
+  async createShift(input: CreateShiftInput): Promise<Shift> {
+    try {
+      this.validateTimings(input);
+
+      const existing = await prisma.shift.findUnique({
+        where: {
+          tenantId_name: {
+            tenantId: input.tenantId,
+            name: input.name,
+          },
+        },
+      });
+
+      if (existing) {
+        throw new AppError('Shift with this name already exists', 409);
+      }
+
+      const shift = await prisma.shift.create({
+        data: {
+          tenantId: input.tenantId,
+          name: input.name,
+          startTime: input.startTime,
+          endTime: input.endTime,
+          lateGraceMinutes: input.lateGraceMinutes,
+          earlyExitGraceMinutes: input.earlyExitGraceMinutes,
+          halfDayAfterMinutes: input.halfDayAfterMinutes,
+          weeklyOffs: input.weeklyOffs || [],
+        },
+      });
+
+      logger.info('Shift created successfully', {
+        shiftId: shift.id,
+        tenantId: input.tenantId,
+      });
+
+      return shift;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error creating shift', error);
+      throw new AppError('Failed to create shift', 500);
+    }
+  }
+
+  /**
+   * List all shifts for a tenant
+   */
+  async listShifts(tenantId: string): Promise<ShiftWithEmployeeCount[]> {
+    try {
+      const shifts = await prisma.shift.findMany({
+        where: { tenantId },
+        include: {
+          _count: {
+            select: { employees: true },
+          },
+        },
+        orderBy: {
+          startTime: 'asc',
+        },
+      });
+
+      return shifts.map(({ _count, ...shift }) => ({
+        ...shift,
+        employeeCount: _count.employees,
+      }));
+    } catch (error) {
+      logger.error('Error listing shifts', error);
+      throw new AppError('Failed to list shifts', 500);
+    }
+  }
+
+  /**
+   * Get a shift belonging to a tenant
+   */
+  async getShift(shiftId: string, tenantId: string): Promise<Shift> {
+    try {
+      const shift = await prisma.shift.findFirst({
+        where: {
+          id: shiftId,
+          tenantId,
+        },
+      });
+
+      if (!shift) {
+        throw new AppError('Shift not found', 404);
+      }
+
+      return shift;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching shift', error);
+      throw new AppError('Failed to fetch shift', 500);
+    }
+  }
+
+  /**
+   * Update shift
+   */
+  async updateShift(
+    shiftId: string,
+    tenantId: string,
+    updates: Partial<Omit<CreateShiftInput, 'tenantId'>>
+  ): Promise<Shift> {
+    try {
+      const shift = await this.getShift(shiftId, tenantId);
+
+      this.validateTimings({ ...shift, ...updates });
+
+      if (updates.name && updates.name !== shift.name) {
+        const existing = await prisma.shift.findUnique({
+          where: {
+            tenantId_name: {
+              tenantId,
+              name: updates.name,
+            },
+          },
+        });
+
+        if (existing) {
+          throw new AppError('Shift with this name already exists', 409);
+        }
+      }
+
+      const updatedShift = await prisma.shift.update({
+        where: { id: shiftId },
+        data: updates,
+      });
+
+      logger.info('Shift updated successfully', {
+        shiftId,
+        tenantId,
+      });
+
+      return updatedShift;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating shift', error);
+      throw new AppError('Failed to update shift', 500);
+    }
+  }
+
+  /**
+   * Delete shift
+   */
+  async deleteShift(shiftId: string, tenantId: string): Promise<void> {
+    try {
+      await this.getShift(shiftId, tenantId);
+
+      // Assigned employees are unassigned (onDelete: SetNull)
+      await prisma.shift.delete({
+        where: { id: shiftId },
+      });
+
+      logger.info('Shift deleted successfully', {
+        shiftId,
+        tenantId,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error deleting shift', error);
+      throw new AppError('Failed to delete shift', 500);
+    }
+  }
+
+  /**
+   * Ensure grace periods fit inside the shift
+   */
+  private validateTimings(shift: {
+    startTime: string;
+    endTime: string;
+    lateGraceMinutes?: number;
+    halfDayAfterMinutes?: number | null;
+  }): void {
+    const start = parseTimeOfDay(shift.startTime);
+    let end = parseTimeOfDay(shift.endTime);
+    if (end <= start) {
+      end += 24 * 60;
+    }
+    const duration = end - start;
+
+    if ((shift.lateGraceMinutes || 0) >= duration) {
+      throw new AppError('Late grace period must be shorter than the shift', 400);
+    }
+
+    if (
+      shift.halfDayAfterMinutes !== undefined &&
+      shift.halfDayAfterMinutes !== null &&
+      shift.halfDayAfterMinutes <= (shift.lateGraceMinutes || 0)
+    ) {
+      throw new AppError(
+        'Half-day threshold must be greater than the late grace period',
+        400
+      );
+    }
+  }
+}
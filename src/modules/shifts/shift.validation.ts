@@ -0,0 +1,75 @@
+import Joi from 'joi';
+
+const timeOfDay = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/);
+
+export const createShiftSchema = Joi.object({
+  body: Joi.object({
+    name: Joi.string().min(2).max(100).required().messages({
+      'string.empty': 'Shift name is required',
+      'string.min': 'Shift name must be at least 2 characters',
+      'string.max': 'Shift name must not exceed 100 characters',
+    }),
+    startTime: timeOfDay.required().messages({
+      'string.empty': 'Start time is required',
+      'string.pattern.base': 'Start time must be in HH:mm format',
+    }),
+    endTime: timeOfDay.required().messages({
+      'string.empty': 'End time is required',
+      'string.pattern.base': 'End time must be in HH:mm format',
+    }),
+    lateGraceMinutes: Joi.number().integer().min(0).default(0),
+    earlyExitGraceMinutes: Joi.number().integer().min(0).default(0),
+    halfDayAfterMinutes: Joi.number().integer().min(1).allow(null).optional(),
+    weeklyOffs: Joi.array()
+      .items(Joi.number().integer().min(0).max(6))
+      .unique()
+      .default([])
+      .messages({
+        'number.min': 'Weekly offs must be days of week (0 = Sunday to 6 = Saturday)',
+        'number.max': 'Weekly offs must be days of week (0 = Sunday to 6 = Saturday)',
+      }),
+  }),
+});
+
+export const updateShiftSchema = Joi.object({
+  params: Joi.object({
+    shiftId: Joi.string().uuid().required().messages({
+      'string.empty': 'Shift ID is required',
+      'string.uuid': 'Invalid shift ID format',
+    }),
+  }),
+  body: Joi.object({
+    name: Joi.string().min(2).max(100).optional(),
+    startTime: timeOfDay.optional().messages({
+      'string.pattern.base': 'Start time must be in HH:mm format',
+    }),
+    endTime: timeOfDay.optional().messages({
+      'string.pattern.base': 'End time must be in HH:mm format',
+    }),
+    lateGraceMinutes: Joi.number().integer().min(0).optional(),
+    earlyExitGraceMinutes: Joi.number().integer().min(0).optional(),
+    halfDayAfterMinutes: Joi.number().integer().min(1).allow(null).optional(),
+    weeklyOffs: Joi.array()
+      .items(Joi.number().integer().min(0).max(6))
+      .unique()
+      .optional(),
+  }),
+});
+
+export const getShiftSchema = Joi.object({
+  params: Joi.object({
+    shiftId: Joi.string().uuid().required().messages({
+      'string.empty': 'Shift ID is required',
+      'string.uuid': 'Invalid shift ID format',
+    }),
+  }),
+});
+
+export const deleteShiftSchema = Joi.object({
+  params: Joi.object({
+    shiftId: Joi.string().uuid().required().messages({
+      'string.empty': 'Shift ID is required',
+      'string.uuid': 'Invalid shift ID format',
+    }),
+  }),
+});
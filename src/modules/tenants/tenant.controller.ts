@@ -1,9 +1,11 @@
 import { Request, Response } from 'express';
 import { TenantService } from './tenant.service';
+import { TenantSettingsService } from './tenantSettings.service';
 import { logger } from '../../utils/logger';
 import { validatePasswordStrength } from '../../utils/password';
 
 const tenantService = new TenantService();
+const tenantSettingsService = new TenantSettingsService();
 
 export class TenantController {
   /**
@@ -164,6 +166,68 @@ export class TenantController {
     }
   }
 
+  /**
+   * Get tenant attendance settings
+   */
+  async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const settings = await tenantSettingsService.getSettingsWithDefaults(
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: settings,
+      });
+    } catch (error: any) {
+      logger.error('Error in get settings controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch settings',
+      });
+    }
+  }
+
+  /**
+   * Update tenant attendance settings
+   */
+  async updateSettings(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const settings = await tenantSettingsService.updateSettings(
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Settings updated successfully',
+        data: settings,
+      });
+    } catch (error: any) {
+      logger.error('Error in update settings controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update settings',
+      });
+    }
+  }
+
   /**
    * Logout tenant
    */
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { TenantController } from './tenant.controller';
+import { TenantLocationController } from './tenantLocation.controller';
+import { TenantCalendarController } from './tenantCalendar.controller';
 import { validate } from '../../middlewares/validate.middleware';
 import {
   registerTenantSchema,
@@ -7,11 +9,28 @@ import {
   refreshTokenSchema,
   updateTenantSchema,
 } from './tenant.validation';
+import {
+  createTenantLocationSchema,
+  updateTenantLocationSchema,
+  getTenantLocationSchema,
+  deleteTenantLocationSchema,
+} from './tenantLocation.validation';
+import { updateTenantSettingsSchema } from './tenantSettings.validation';
+import {
+  listHolidaysSchema,
+  createHolidaySchema,
+  updateHolidaySchema,
+  deleteHolidaySchema,
+  importHolidaysSchema,
+  updateWeeklyOffsSchema,
+} from './tenantCalendar.validation';
 import { authenticateTenant } from '../../middlewares/auth.middleware';
 import { loginLimiter } from '../../middlewares/rateLimiter.middleware';
 
 const router = Router();
 const tenantController = new TenantController();
+const tenantLocationController = new TenantLocationController();
+const tenantCalendarController = new TenantCalendarController();
 
 /**
  * @route   POST /api/tenants/register
@@ -70,6 +89,29 @@ router.patch(
   tenantController.updateProfile.bind(tenantController)
 );
 
+/**
+ * @route   GET /api/tenants/settings
+ * @desc    Get attendance policy settings
+ * @access  Private
+ */
+router.get(
+  '/settings',
+  authenticateTenant,
+  tenantController.getSettings.bind(tenantController)
+);
+
+/**
+ * @route   PATCH /api/tenants/settings
+ * @desc    Update attendance policy settings
+ * @access  Private
+ */
+router.patch(
+  '/settings',
+  authenticateTenant,
+  validate(updateTenantSettingsSchema),
+  tenantController.updateSettings.bind(tenantController)
+);
+
 /**
  * @route   POST /api/tenants/logout
  * @desc    Logout tenant
@@ -82,4 +124,146 @@ router.post(
   tenantController.logout.bind(tenantController)
 );
 
+/**
+ * @route   POST /api/tenants/locations
+ * @desc    Create an office location
+ * @access  Private
+ */
+router.post(
+  '/locations',
+  authenticateTenant,
+  validate(createTenantLocationSchema),
+  tenantLocationController.create.bind(tenantLocationController)
+);
+
+/**
+ * @route   GET /api/tenants/locations
+ * @desc    List office locations
+ * @access  Private
+ */
+router.get(
+  '/locations',
+  authenticateTenant,
+  tenantLocationController.list.bind(tenantLocationController)
+);
+
+/**
+ * @route   GET /api/tenants/locations/:locationId
+ * @desc    Get office location details
+ * @access  Private
+ */
+router.get(
+  '/locations/:locationId',
+  authenticateTenant,
+  validate(getTenantLocationSchema),
+  tenantLocationController.getDetails.bind(tenantLocationController)
+);
+
+/**
+ * @route   PATCH /api/tenants/locations/:locationId
+ * @desc    Update office location
+ * @access  Private
+ */
+router.patch(
+  '/locations/:locationId',
+  authenticateTenant,
+  validate(updateTenantLocationSchema),
+  tenantLocationController.update.bind(tenantLocationController)
+);
+
+/**
+ * @route   DELETE /api/tenants/locations/:locationId
+ * @desc    Delete office location
+ * @access  Private
+ */
+router.delete(
+  '/locations/:locationId',
+  authenticateTenant,
+  validate(deleteTenantLocationSchema),
+  tenantLocationController.delete.bind(tenantLocationController)
+);
+
+/**
+ * @route   GET /api/tenants/holidays
+ * @desc    List holidays
+ * @access  Private
+ */
+router.get(
+  '/holidays',
+  authenticateTenant,
+  validate(listHolidaysSchema),
+  tenantCalendarController.listHolidays.bind(tenantCalendarController)
+);
+
+/**
+ * @route   POST /api/tenants/holidays
+ * @desc    Add a holiday
+ * @access  Private
+ */
+router.post(
+  '/holidays',
+  authenticateTenant,
+  validate(createHolidaySchema),
+  tenantCalendarController.createHoliday.bind(tenantCalendarController)
+);
+
+/**
+ * @route   POST /api/tenants/holidays/import
+ * @desc    Import holidays from an iCalendar (.ics) document
+ * @access  Private
+ */
+router.post(
+  '/holidays/import',
+  authenticateTenant,
+  validate(importHolidaysSchema),
+  tenantCalendarController.importHolidays.bind(tenantCalendarController)
+);
+
+/**
+ * @route   PATCH /api/tenants/holidays/:holidayId
+ * @desc    Update a holiday
+ * @access  Private
+ */
+router.patch(
+  '/holidays/:holidayId',
+  authenticateTenant,
+  validate(updateHolidaySchema),
+  tenantCalendarController.updateHoliday.bind(tenantCalendarController)
+);
+
+/**
+ * @route   DELETE /api/tenants/holidays/:holidayId
+ * @desc    Delete a holiday
+ * @access  Private
+ */
+router.delete(
+  '/holidays/:holidayId',
+  authenticateTenant,
+  validate(deleteHolidaySchema),
+  tenantCalendarController.deleteHoliday.bind(tenantCalendarController)
+);
+
+/**
+ * @route   GET /api/tenants/weekly-offs
+ * @desc    Get tenant-wide weekly off rules
+ * @access  Private
+ */
+router.get(
+  '/weekly-offs',
+  authenticateTenant,
+  tenantCalendarController.getWeeklyOffs.bind(tenantCalendarController)
+);
+
+/**
+ * @route   PUT /api/tenants/weekly-offs
+ * @desc    Replace tenant-wide weekly off rules
+ * @access  Private
+ */
+router.put(
+  '/weekly-offs',
+  authenticateTenant,
+  validate(updateWeeklyOffsSchema),
+  tenantCalendarController.updateWeeklyOffs.bind(tenantCalendarController)
+);
+
 export default router;
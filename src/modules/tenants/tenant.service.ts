@@ -21,6 +21,7 @@ export interface RegisterTenantInput {
   username: string;
   password: string;
   planType?: PlanType;
+  timezone?: string;
 }
 
 export interface LoginResponse {
@@ -67,6 +68,7 @@ export class TenantService {
           username: input.username,
           password: hashedPassword,
           planType: input.planType || 'FREE',
+          timezone: input.timezone || config.tenant.defaultTimezone,
         },
       });
 
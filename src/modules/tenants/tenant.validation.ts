@@ -1,4 +1,13 @@
 import Joi from 'joi';
+import { isValidTimeZone } from '../../utils/timezone';
+
+const timezone = Joi.string()
+  .custom((value, helpers) =>
+    isValidTimeZone(value) ? value : helpers.error('any.invalid')
+  )
+  .messages({
+    'any.invalid': 'Timezone must be a valid IANA time zone (e.g. Asia/Kolkata)',
+  });
 
 export const registerTenantSchema = Joi.object({
   body: Joi.object({
@@ -45,6 +54,7 @@ export const registerTenantSchema = Joi.object({
       'string.min': 'Password must be at least 8 characters',
     }),
     planType: Joi.string().valid('FREE', 'PAID').default('FREE'),
+    timezone: timezone.optional(),
   }),
 });
 
@@ -74,5 +84,6 @@ export const updateTenantSchema = Joi.object({
     longitude: Joi.number().min(-180).max(180).optional(),
     latitude: Joi.number().min(-90).max(90).optional(),
     planType: Joi.string().valid('FREE', 'PAID').optional(),
+    timezone: timezone.optional(),
   }),
 });
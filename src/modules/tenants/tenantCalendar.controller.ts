@@ -0,0 +1,234 @@
+import { Request, Response } from 'express';
+import { TenantCalendarService } from './tenantCalendar.service';
+import { logger } from '../../utils/logger';
+
+const tenantCalendarService = new TenantCalendarService();
+
+export class TenantCalendarController {
+  /**
+   * List holidays
+   */
+  async listHolidays(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { startDate, endDate } = req.query;
+
+      const holidays = await tenantCalendarService.listHolidays(
+        req.tenant.tenantId,
+        {
+          startDate: startDate as string | undefined,
+          endDate: endDate as string | undefined,
+        }
+      );
+
+      res.status(200).json({
+        success: true,
+        data: holidays,
+      });
+    } catch (error: any) {
+      logger.error('Error in list holidays controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list holidays',
+      });
+    }
+  }
+
+  /**
+   * Add a holiday
+   */
+  async createHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const holiday = await tenantCalendarService.createHoliday({
+        tenantId: req.tenant.tenantId,
+        ...req.body,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Holiday created successfully',
+        data: holiday,
+      });
+    } catch (error: any) {
+      logger.error('Error in create holiday controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create holiday',
+      });
+    }
+  }
+
+  /**
+   * Update a holiday
+   */
+  async updateHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { holidayId } = req.params;
+
+      const holiday = await tenantCalendarService.updateHoliday(
+        holidayId,
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Holiday updated successfully',
+        data: holiday,
+      });
+    } catch (error: any) {
+      logger.error('Error in update holiday controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update holiday',
+      });
+    }
+  }
+
+  /**
+   * Delete a holiday
+   */
+  async deleteHoliday(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { holidayId } = req.params;
+
+      await tenantCalendarService.deleteHoliday(holidayId, req.tenant.tenantId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Holiday deleted successfully',
+      });
+    } catch (error: any) {
+      logger.error('Error in delete holiday controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to delete holiday',
+      });
+    }
+  }
+
+  /**
+   * Import holidays from an iCalendar document
+   */
+  async importHolidays(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const result = await tenantCalendarService.importHolidays(
+        req.tenant.tenantId,
+        req.body.calendar
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Holidays imported successfully',
+        data: result,
+      });
+    } catch (error: any) {
+      logger.error('Error in import holidays controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to import holidays',
+      });
+    }
+  }
+
+  /**
+   * Get weekly off rules
+   */
+  async getWeeklyOffs(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const rules = await tenantCalendarService.getWeeklyOffRules(
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: rules,
+      });
+    } catch (error: any) {
+      logger.error('Error in get weekly offs controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch weekly offs',
+      });
+    }
+  }
+
+  /**
+   * Replace weekly off rules
+   */
+  async updateWeeklyOffs(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const rules = await tenantCalendarService.setWeeklyOffRules(
+        req.tenant.tenantId,
+        req.body.rules
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Weekly offs updated successfully',
+        data: rules,
+      });
+    } catch (error: any) {
+      logger.error('Error in update weekly offs controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update weekly offs',
+      });
+    }
+  }
+}
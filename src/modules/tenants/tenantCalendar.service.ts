@@ -0,0 +1,448 @@
+import type { Prisma, TenantHoliday, WeeklyOffRule } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import {
+  countDates,
+  eachDate,
+  fromDateColumn,
+  toDateColumn,
+} from '../../utils/calendarDate';
+import { isICalendar, parseICalendarEvents } from '../../utils/icalendar';
+import {
+  getNonWorkingReason,
+  type NonWorkingReason,
+  type WeeklyOffPattern,
+  type WorkCalendar,
+} from '../../utils/workCalendar';
+
+// Longest event an import turns into holidays, in days
+const MAX_IMPORTED_HOLIDAY_DAYS = 31;
+
+export interface CreateHolidayInput {
+  tenantId: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface UpdateHolidayInput {
+  date?: string;
+  name?: string;
+}
+
+export interface ListHolidaysFilters {
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string;
+}
+
+export interface HolidayImportResult {
+  created: number;
+  updated: number;
+  skipped: number; // Cancelled, recurring, unnamed or overlong events
+}
+
+/**
+ * A tenant-wide non-working day, as shown in attendance reports
+ */
+export interface NonWorkingDay {
+  date: string; // YYYY-MM-DD, tenant-local
+  reason: NonWorkingReason;
+  name: string | null; // Holiday name
+}
+
+export class TenantCalendarService {
+  /**
+   * List a tenant's holidays, earliest first
+   */
+  async listHolidays(
+    tenantId: string,
+    filters: ListHolidaysFilters = {}
+  ): Promise<TenantHoliday[]> {
+    try {
+      const where: Prisma.TenantHolidayWhereInput = { tenantId };
+
+      if (filters.startDate || filters.endDate) {
+        where.date = {
+          ...(filters.startDate && { gte: toDateColumn(filters.startDate) }),
+          ...(filters.endDate && { lte: toDateColumn(filters.endDate) }),
+        };
+      }
+
+      return await prisma.tenantHoliday.findMany({
+        where,
+        orderBy: { date: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Error listing holidays', error);
+      throw new AppError('Failed to list holidays', 500);
+    }
+  }
+
+  /**
+   * Add a holiday
+   */
+  async createHoliday(input: CreateHolidayInput): Promise<TenantHoliday> {
+    try {
+      await this.assertDateAvailable(input.tenantId, input.date);
+
+      const holiday = await prisma.tenantHoliday.create({
+        data: {
+          tenantId: input.tenantId,
+          date: toDateColumn(input.date),
+          name: input.name,
+        },
+      });
+
+      logger.info('Holiday created successfully', {
+        holidayId: holiday.id,
+        tenantId: input.tenantId,
+      });
+
+      return holiday;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error creating holiday', error);
+      throw new AppError('Failed to create holiday', 500);
+    }
+  }
+
+  /**
+   * Rename or move a holiday
+   */
+  async updateHoliday(
+    holidayId: string,
+    tenantId: string,
+    input: UpdateHolidayInput
+  ): Promise<TenantHoliday> {
+    try {
+      const holiday = await this.findForTenant(holidayId, tenantId);
+
+      if (input.date && input.date !== fromDateColumn(holiday.date)) {
+        await this.assertDateAvailable(tenantId, input.date);
+      }
+
+      const updated = await prisma.tenantHoliday.update({
+        where: { id: holidayId },
+        data: {
+          name: input.name,
+          ...(input.date && { date: toDateColumn(input.date) }),
+        },
+      });
+
+      logger.info('Holiday updated successfully', {
+        holidayId,
+        tenantId,
+      });
+
+      return updated;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating holiday', error);
+      throw new AppError('Failed to update holiday', 500);
+    }
+  }
+
+  /**
+   * Delete a holiday
+   */
+  async deleteHoliday(holidayId: string, tenantId: string): Promise<void> {
+    try {
+      await this.findForTenant(holidayId, tenantId);
+
+      await prisma.tenantHoliday.delete({
+        where: { id: holidayId },
+      });
+
+      logger.info('Holiday deleted successfully', {
+        holidayId,
+        tenantId,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error deleting holiday', error);
+      throw new AppError('Failed to delete holiday', 500);
+    }
+  }
+
+  /**
+   * Import holidays from an iCalendar (.ics) document
+   * Every day of an event becomes a holiday; a day that already has one is
+   * renamed, so importing the same calendar again changes nothing.
+   */
+  async importHolidays(
+    tenantId: string,
+    calendar: string
+  ): Promise<HolidayImportResult> {
+    try {
+      if (!isICalendar(calendar)) {
+        throw new AppError(
+          'Calendar must be an iCalendar (.ics) document',
+          400
+        );
+      }
+
+      const events = parseICalendarEvents(calendar);
+      const result: HolidayImportResult = {
+        created: 0,
+        updated: 0,
+        skipped: 0,
+      };
+      const days = new Map<string, { name: string; uid: string | null }>();
+
+      for (const event of events) {
+        const startDate = toDateColumn(event.startDate);
+        const endDate = toDateColumn(event.endDate);
+
+        if (
+          event.cancelled ||
+          event.recurring ||
+          !event.summary ||
+          countDates(startDate, endDate) > MAX_IMPORTED_HOLIDAY_DAYS
+        ) {
+          result.skipped++;
+          continue;
+        }
+
+        for (const date of eachDate(startDate, endDate)) {
+          days.set(fromDateColumn(date), {
+            name: event.summary.slice(0, 100),
+            uid: event.uid,
+          });
+        }
+      }
+
+      if (days.size === 0) {
+        return result;
+      }
+
+      await prisma.$transaction(async (tx) => {
+        const existing = await tx.tenantHoliday.findMany({
+          where: {
+            tenantId,
+            date: { in: [...days.keys()].map(toDateColumn) },
+          },
+          select: { date: true },
+        });
+        const existingDates = new Set(
+          existing.map(({ date }) => fromDateColumn(date))
+        );
+
+        for (const [date, { name, uid }] of days) {
+          await tx.tenantHoliday.upsert({
+            where: {
+              tenantId_date: {
+                tenantId,
+                date: toDateColumn(date),
+              },
+            },
+            create: {
+              tenantId,
+              date: toDateColumn(date),
+              name,
+              uid,
+            },
+            update: { name, uid },
+          });
+
+          if (existingDates.has(date)) {
+            result.updated++;
+          } else {
+            result.created++;
+          }
+        }
+      });
+
+      logger.info('Holidays imported', { tenantId, ...result });
+
+      return result;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error importing holidays', error);
+      throw new AppError('Failed to import holidays', 500);
+    }
+  }
+
+  /**
+   * Get a tenant's weekly off rules
+   */
+  async getWeeklyOffRules(tenantId: string): Promise<WeeklyOffRule[]> {
+    try {
+      return await prisma.weeklyOffRule.findMany({
+        where: { tenantId },
+        orderBy: { weekday: 'asc' },
+      });
+    } catch (error) {
+      logger.error('Error fetching weekly off rules', error);
+      throw new AppError('Failed to fetch weekly offs', 500);
+    }
+  }
+
+  /**
+   * Replace a tenant's weekly off rules
+   * An empty list removes all tenant-wide weekly offs; shift weekly offs
+   * still apply.
+   */
+  async setWeeklyOffRules(
+    tenantId: string,
+    rules: WeeklyOffPattern[]
+  ): Promise<WeeklyOffRule[]> {
+    try {
+      const weekdays = new Set(rules.map(({ weekday }) => weekday));
+      if (weekdays.size !== rules.length) {
+        throw new AppError('Each weekday may only have one rule', 400);
+      }
+
+      const saved = await prisma.$transaction(async (tx) => {
+        await tx.weeklyOffRule.deleteMany({ where: { tenantId } });
+        await tx.weeklyOffRule.createMany({
+          data: rules.map(({ weekday, weeks }) => ({
+            tenantId,
+            weekday,
+            weeks: [...new Set(weeks)].sort((a, b) => a - b),
+          })),
+        });
+
+        return tx.weeklyOffRule.findMany({
+          where: { tenantId },
+          orderBy: { weekday: 'asc' },
+        });
+      });
+
+      logger.info('Weekly off rules updated', {
+        tenantId,
+        rules: saved.length,
+      });
+
+      return saved;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating weekly off rules', error);
+      throw new AppError('Failed to update weekly offs', 500);
+    }
+  }
+
+  /**
+   * Load a tenant's holidays between two DATE values and its weekly offs
+   */
+  async getWorkCalendar(
+    db: Prisma.TransactionClient,
+    tenantId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<WorkCalendar> {
+    const [holidays, weeklyOffRules] = await Promise.all([
+      db.tenantHoliday.findMany({
+        where: {
+          tenantId,
+          date: { gte: startDate, lte: endDate },
+        },
+        select: { date: true, name: true },
+      }),
+      db.weeklyOffRule.findMany({
+        where: { tenantId },
+        select: { weekday: true, weeks: true },
+      }),
+    ]);
+
+    return {
+      holidays: new Map(
+        holidays.map(({ date, name }) => [fromDateColumn(date), name])
+      ),
+      weeklyOffRules,
+    };
+  }
+
+  /**
+   * Check if a local date is a holiday or tenant weekly off
+   */
+  async isNonWorkingDay(
+    db: Prisma.TransactionClient,
+    tenantId: string,
+    date: string
+  ): Promise<boolean> {
+    const day = toDateColumn(date);
+    const calendar = await this.getWorkCalendar(db, tenantId, day, day);
+    return getNonWorkingReason(calendar, day) !== null;
+  }
+
+  /**
+   * Tenant-wide non-working days between two local dates, for reports
+   * Shift weekly offs differ per employee and are not included.
+   */
+  async getNonWorkingDays(
+    tenantId: string,
+    startDate: string,
+    endDate: string
+  ): Promise<NonWorkingDay[]> {
+    const rangeStart = toDateColumn(startDate);
+    const rangeEnd = toDateColumn(endDate);
+    const calendar = await this.getWorkCalendar(
+      prisma,
+      tenantId,
+      rangeStart,
+      rangeEnd
+    );
+
+    return eachDate(rangeStart, rangeEnd).flatMap((date) => {
+      const reason = getNonWorkingReason(calendar, date);
+      if (!reason) {
+        return [];
+      }
+
+      const day = fromDateColumn(date);
+      return [{ date: day, reason, name: calendar.holidays.get(day) ?? null }];
+    });
+  }
+
+  /**
+   * Find a holiday belonging to a tenant
+   */
+  private async findForTenant(
+    holidayId: string,
+    tenantId: string
+  ): Promise<TenantHoliday> {
+    const holiday = await prisma.tenantHoliday.findFirst({
+      where: {
+        id: holidayId,
+        tenantId,
+      },
+    });
+
+    if (!holiday) {
+      throw new AppError('Holiday not found', 404);
+    }
+
+    return holiday;
+  }
+
+  /**
+   * Ensure the tenant has no holiday on the date
+   */
+  private async assertDateAvailable(
+    tenantId: string,
+    date: string
+  ): Promise<void> {
+    const existing = await prisma.tenantHoliday.findUnique({
+      where: {
+        tenantId_date: {
+          tenantId,
+          date: toDateColumn(date),
+        },
+      },
+    });
+
+    if (existing) {
+      throw new AppError(`A holiday already exists on ${date}`, 409);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import Joi from 'joi';
+
+const localDate = Joi.string()
+  .pattern(/^\d{4}-\d{2}-\d{2}$/)
+  .messages({
+    'string.pattern.base': '{{#label}} must be a date in YYYY-MM-DD format',
+  });
+
+const holidayIdParams = Joi.object({
+  holidayId: Joi.string().uuid().required().messages({
+    'string.empty': 'Holiday ID is required',
+    'string.uuid': 'Invalid holiday ID format',
+  }),
+});
+
+export const listHolidaysSchema = Joi.object({
+  query: Joi.object({
+    startDate: localDate.optional(),
+    endDate: localDate.optional(),
+  }),
+});
+
+export const createHolidaySchema = Joi.object({
+  body: Joi.object({
+    date: localDate.required(),
+    name: Joi.string().trim().min(2).max(100).required().messages({
+      'string.empty': 'Holiday name is required',
+      'string.min': 'Name must be at least 2 characters',
+      'string.max': 'Name must not exceed 100 characters',
+    }),
+  }),
+});
+
+export const updateHolidaySchema = Joi.object({
+  params: holidayIdParams,
+  body: Joi.object({
+    date: localDate.optional(),
+    name: Joi.string().trim().min(2).max(100).optional(),
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one field is required',
+    }),
+});
+
+export const deleteHolidaySchema = Joi.object({
+  params: holidayIdParams,
+});
+
+export const importHolidaysSchema = Joi.object({
+  body: Joi.object({
+    calendar: Joi.string().max(2000000).required().messages({
+      'string.empty': 'Calendar is required',
+      'string.max': 'Calendar must not exceed 2 MB',
+    }),
+  }),
+});
+
+export const updateWeeklyOffsSchema = Joi.object({
+  body: Joi.object({
+    rules: Joi.array()
+      .items(
+        Joi.object({
+          weekday: Joi.number().integer().min(0).max(6).required().messages({
+            'number.base': 'Weekday must be a number',
+            'number.min': 'Weekday must be between 0 (Sunday) and 6',
+            'number.max': 'Weekday must be between 0 (Sunday) and 6',
+          }),
+          weeks: Joi.array()
+            .items(
+              Joi.number().integer().valid(-1, 1, 2, 3, 4, 5).messages({
+                'any.only': 'Weeks must be 1-5, or -1 for the last week',
+              })
+            )
+            .default([]),
+        })
+      )
+      .max(7)
+      .required()
+      .messages({
+        'array.max': 'At most one rule per weekday is allowed',
+      }),
+  }),
+});
@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { TenantLocationService } from './tenantLocation.service';
+import { logger } from '../../utils/logger';
+
+const tenantLocationService = new TenantLocationService();
+
+export class TenantLocationController {
+  /**
+   * Create a new office location
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const location = await tenantLocationService.createLocation({
+        tenantId: req.tenant.tenantId,
+        ...req.body,
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Location created successfully',
+        data: location,
+      });
+    } catch (error: any) {
+      logger.error('Error in create location controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to create location',
+      });
+    }
+  }
+
+  /**
+   * List all office locations
+   */
+  async list(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const locations = await tenantLocationService.listLocations(
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: locations,
+      });
+    } catch (error: any) {
+      logger.error('Error in list locations controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to list locations',
+      });
+    }
+  }
+
+  /**
+   * Get office location details
+   */
+  async getDetails(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { locationId } = req.params;
+
+      const location = await tenantLocationService.getLocation(
+        locationId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: location,
+      });
+    } catch (error: any) {
+      logger.error('Error in get location controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to fetch location',
+      });
+    }
+  }
+
+  /**
+   * Update office location
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { locationId } = req.params;
+
+      const location = await tenantLocationService.updateLocation(
+        locationId,
+        req.tenant.tenantId,
+        req.body
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Location updated successfully',
+        data: location,
+      });
+    } catch (error: any) {
+      logger.error('Error in update location controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to update location',
+      });
+    }
+  }
+
+  /**
+   * Delete office location
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.tenant) {
+        res.status(401).json({
+          success: false,
+          message: 'Authentication required',
+        });
+        return;
+      }
+
+      const { locationId } = req.params;
+
+      await tenantLocationService.deleteLocation(
+        locationId,
+        req.tenant.tenantId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Location deleted successfully',
+      });
+    } catch (error: any) {
+      logger.error('Error in delete location controller', error);
+      res.status(error.statusCode || 500).json({
+        success: false,
+        message: error.message || 'Failed to delete location',
+      });
+    }
+  }
+}
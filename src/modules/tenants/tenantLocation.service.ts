@@ -0,0 +1,295 @@
+import { Prisma, type TenantLocation } from '@prisma/client';
+import prisma from '../../config/database';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import type { GeoJsonBoundary } from '../../utils/geofence';
+
+export interface CreateTenantLocationInput {
+  tenantId: string;
+  name: string;
+  address?: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters?: number | null;
+  boundary?: GeoJsonBoundary | null;
+}
+
+export interface TenantLocationWithEmployeeCount extends TenantLocation {
+  employeeCount: number;
+}
+
+/**
+ * Map a boundary to a Prisma JSON input (null clears the column)
+ */
+const toBoundaryInput = (
+  boundary: GeoJsonBoundary | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull | undefined => {
+  if (boundary === null) {
+    return Prisma.DbNull;
+  }
+  return boundary as unknown as Prisma.InputJsonValue | undefined;
+};
+
+export class TenantLocationService {
+  /**
+   * Create a new office location
+   */
+  async createLocation(
+    input: CreateTenantLocationInput
+  ): Promise<TenantLocation> {
+    try {
+      await this.assertNameAvailable(input.tenantId, input.name);
+
+      const location = await prisma.tenantLocation.create({
+        data: {
+          tenantId: input.tenantId,
+          name: input.name,
+          address: input.address,
+          latitude: input.latitude,
+          longitude: input.longitude,
+          radiusMeters: input.radiusMeters,
+          boundary: toBoundaryInput(input.boundary),
+        },
+      });
+
+      logger.info('Tenant location created successfully', {
+        locationId: location.id,
+        tenantId: input.tenantId,
+      });
+
+      return location;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error creating tenant location', error);
+      throw new AppError('Failed to create location', 500);
+    }
+  }
+
+  /**
+   * List all office locations for a tenant
+   */
+  async listLocations(
+    tenantId: string
+  ): Promise<TenantLocationWithEmployeeCount[]> {
+    try {
+      const locations = await prisma.tenantLocation.findMany({
+        where: { tenantId },
+        include: {
+          _count: {
+            select: { employees: true },
+          },
+        },
+        orderBy: {
+          name: 'asc',
+        },
+      });
+
+      return locations.map(({ _count, ...location }) => ({
+        ...location,
+        employeeCount: _count.employees,
+      }));
+    } catch (error) {
+      logger.error('Error listing tenant locations', error);
+      throw new AppError('Failed to list locations', 500);
+    }
+  }
+
+  /**
+   * Get an office location belonging to a tenant
+   */
+  async getLocation(
+    locationId: string,
+    tenantId: string
+  ): Promise<TenantLocation> {
+    try {
+      const location = await prisma.tenantLocation.findFirst({
+        where: {
+          id: locationId,
+          tenantId,
+        },
+      });
+
+      if (!location) {
+        throw new AppError('Location not found', 404);
+      }
+
+      return location;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error fetching tenant location', error);
+      throw new AppError('Failed to fetch location', 500);
+    }
+  }
+
+  /**
+   * Update office location
+   */
+  async updateLocation(
+    locationId: string,
+    tenantId: string,
+    updates: Partial<Omit<CreateTenantLocationInput, 'tenantId'>>
+  ): Promise<TenantLocation> {
+    try {
+      const location = await this.getLocation(locationId, tenantId);
+
+      if (updates.name && updates.name !== location.name) {
+        await this.assertNameAvailable(tenantId, updates.name);
+      }
+
+      const { boundary, ...fields } = updates;
+
+      const updatedLocation = await prisma.tenantLocation.update({
+        where: { id: locationId },
+        data: {
+          ...fields,
+          boundary: toBoundaryInput(boundary),
+        },
+      });
+
+      logger.info('Tenant location updated successfully', {
+        locationId,
+        tenantId,
+      });
+
+      return updatedLocation;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating tenant location', error);
+      throw new AppError('Failed to update location', 500);
+    }
+  }
+
+  /**
+   * Delete office location (employee assignments are removed)
+   */
+  async deleteLocation(locationId: string, tenantId: string): Promise<void> {
+    try {
+      await this.getLocation(locationId, tenantId);
+
+      await prisma.tenantLocation.delete({
+        where: { id: locationId },
+      });
+
+      logger.info('Tenant location deleted successfully', {
+        locationId,
+        tenantId,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error deleting tenant location', error);
+      throw new AppError('Failed to delete location', 500);
+    }
+  }
+
+  /**
+   * Replace the set of locations an employee may check in from
+   * An empty list permits every tenant location
+   */
+  async setEmployeeLocations(
+    employeeId: string,
+    tenantId: string,
+    locationIds: string[]
+  ): Promise<TenantLocation[]> {
+    try {
+      const employee = await prisma.employee.findFirst({
+        where: {
+          id: employeeId,
+          tenantId,
+        },
+      });
+
+      if (!employee) {
+        throw new AppError('Employee not found', 404);
+      }
+
+      const locations = await prisma.tenantLocation.findMany({
+        where: {
+          id: { in: locationIds },
+          tenantId,
+        },
+      });
+
+      if (locations.length !== locationIds.length) {
+        throw new AppError('One or more locations not found', 404);
+      }
+
+      await prisma.$transaction([
+        prisma.employeeLocation.deleteMany({
+          where: { employeeId },
+        }),
+        prisma.employeeLocation.createMany({
+          data: locationIds.map((locationId) => ({ employeeId, locationId })),
+        }),
+      ]);
+
+      logger.info('Employee locations updated', {
+        employeeId,
+        tenantId,
+        locationCount: locationIds.length,
+      });
+
+      return locations;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error assigning employee locations', error);
+      throw new AppError('Failed to assign locations', 500);
+    }
+  }
+
+  /**
+   * Get the locations an employee may check in from
+   * Employees without assignments may use every tenant location
+   */
+  async getPermittedLocations(
+    employeeId: string,
+    tenantId: string
+  ): Promise<TenantLocation[]> {
+    const assigned = await prisma.tenantLocation.findMany({
+      where: {
+        tenantId,
+        employees: {
+          some: { employeeId },
+        },
+      },
+    });
+
+    if (assigned.length > 0) {
+      return assigned;
+    }
+
+    return prisma.tenantLocation.findMany({
+      where: { tenantId },
+    });
+  }
+
+  /**
+   * Ensure no other location of the tenant uses the name
+   */
+  private async assertNameAvailable(
+    tenantId: string,
+    name: string
+  ): Promise<void> {
+    const existing = await prisma.tenantLocation.findUnique({
+      where: {
+        tenantId_name: {
+          tenantId,
+          name,
+        },
+      },
+    });
+
+    if (existing) {
+      throw new AppError('Location with this name already exists', 409);
+    }
+  }
+}
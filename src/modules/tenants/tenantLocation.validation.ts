@@ -0,0 +1,70 @@
+import Joi from 'joi';
+import { validateGeoJsonBoundary } from '../../utils/geofence';
+
+const boundary = Joi.object({
+  type: Joi.string().valid('Polygon', 'MultiPolygon').required(),
+  coordinates: Joi.array().required(),
+})
+  .custom((value, helpers) => {
+    const error = validateGeoJsonBoundary(value);
+    return error ? helpers.message({ custom: error }) : value;
+  })
+  .allow(null);
+
+export const createTenantLocationSchema = Joi.object({
+  body: Joi.object({
+    name: Joi.string().min(2).max(100).required().messages({
+      'string.empty': 'Location name is required',
+      'string.min': 'Location name must be at least 2 characters',
+      'string.max': 'Location name must not exceed 100 characters',
+    }),
+    address: Joi.string().max(500).optional(),
+    latitude: Joi.number().min(-90).max(90).required().messages({
+      'number.base': 'Latitude must be a number',
+      'number.min': 'Latitude must be between -90 and 90',
+      'number.max': 'Latitude must be between -90 and 90',
+    }),
+    longitude: Joi.number().min(-180).max(180).required().messages({
+      'number.base': 'Longitude must be a number',
+      'number.min': 'Longitude must be between -180 and 180',
+      'number.max': 'Longitude must be between -180 and 180',
+    }),
+    radiusMeters: Joi.number().integer().min(10).max(100000).allow(null).optional(),
+    boundary: boundary.optional(),
+  }),
+});
+
+export const updateTenantLocationSchema = Joi.object({
+  params: Joi.object({
+    locationId: Joi.string().uuid().required().messages({
+      'string.empty': 'Location ID is required',
+      'string.uuid': 'Invalid location ID format',
+    }),
+  }),
+  body: Joi.object({
+    name: Joi.string().min(2).max(100).optional(),
+    address: Joi.string().max(500).optional(),
+    latitude: Joi.number().min(-90).max(90).optional(),
+    longitude: Joi.number().min(-180).max(180).optional(),
+    radiusMeters: Joi.number().integer().min(10).max(100000).allow(null).optional(),
+    boundary: boundary.optional(),
+  }),
+});
+
+export const getTenantLocationSchema = Joi.object({
+  params: Joi.object({
+    locationId: Joi.string().uuid().required().messages({
+      'string.empty': 'Location ID is required',
+      'string.uuid': 'Invalid location ID format',
+    }),
+  }),
+});
+
+export const deleteTenantLocationSchema = Joi.object({
+  params: Joi.object({
+    locationId: Joi.string().uuid().required().messages({
+      'string.empty': 'Location ID is required',
+      'string.uuid': 'Invalid location ID format',
+    }),
+  }),
+});
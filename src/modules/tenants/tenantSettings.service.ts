@@ -0,0 +1,187 @@
+import type { FaceVerifierProvider, GeofenceMode } from '@prisma/client';
+import prisma from '../../config/database';
+import { config } from '../../config';
+import { AppError } from '../../middlewares/error.middleware';
+import { logger } from '../../utils/logger';
+import { resolveFaceVerifier } from '../../utils/faceVerifier';
+import {
+  DEFAULT_EMBEDDING_THRESHOLDS,
+  type EmbeddingMetric,
+} from '../../utils/embedding';
+
+export interface TenantSettingsValues {
+  checkInRadiusMeters: number;
+  faceSimilarityThreshold: number;
+  embeddingMetric: EmbeddingMetric;
+  embeddingThreshold: number;
+  locationTokenExpiry: string;
+  faceVerifier: FaceVerifierProvider | null; // Null picks by plan
+  requireLiveness: boolean;
+  geofenceMode: GeofenceMode; // Employees may override
+  allowOfflinePunches: boolean;
+  kioskAmbiguityMargin: number; // Match score points
+}
+
+/**
+ * Stored overrides; null resets a setting to the global default
+ */
+export type UpdateTenantSettingsInput = {
+  [K in keyof TenantSettingsValues]?: TenantSettingsValues[K] | null;
+};
+
+export interface TenantSettingsResponse {
+  settings: TenantSettingsValues;
+  defaults: TenantSettingsValues;
+}
+
+/**
+ * Global defaults from environment configuration
+ */
+export const getDefaultTenantSettings = (): TenantSettingsValues => ({
+  checkInRadiusMeters: config.geoLocation.allowedCheckInRadius,
+  faceSimilarityThreshold: config.rekognition.similarityThreshold,
+  embeddingMetric: config.embedding.metric,
+  embeddingThreshold:
+    config.embedding.threshold ??
+    DEFAULT_EMBEDDING_THRESHOLDS[config.embedding.metric],
+  locationTokenExpiry: config.jwt.locationExpiry,
+  faceVerifier: null,
+  requireLiveness: config.liveness.required,
+  geofenceMode: config.geoLocation.geofenceMode,
+  allowOfflinePunches: config.offline.enabled,
+  kioskAmbiguityMargin: config.kiosk.ambiguityMargin,
+});
+
+/**
+ * Merge stored overrides over the defaults
+ * A metric override without a threshold uses that metric's default threshold
+ */
+const resolveSettings = (
+  stored: UpdateTenantSettingsInput | null
+): TenantSettingsValues => {
+  const defaults = getDefaultTenantSettings();
+  const embeddingMetric = stored?.embeddingMetric ?? defaults.embeddingMetric;
+
+  return {
+    checkInRadiusMeters:
+      stored?.checkInRadiusMeters ?? defaults.checkInRadiusMeters,
+    faceSimilarityThreshold:
+      stored?.faceSimilarityThreshold ?? defaults.faceSimilarityThreshold,
+    embeddingMetric,
+    embeddingThreshold:
+      stored?.embeddingThreshold ??
+      (embeddingMetric === defaults.embeddingMetric
+        ? defaults.embeddingThreshold
+        : DEFAULT_EMBEDDING_THRESHOLDS[embeddingMetric]),
+    locationTokenExpiry:
+      stored?.locationTokenExpiry ?? defaults.locationTokenExpiry,
+    faceVerifier: stored?.faceVerifier ?? defaults.faceVerifier,
+    requireLiveness: stored?.requireLiveness ?? defaults.requireLiveness,
+    geofenceMode: stored?.geofenceMode ?? defaults.geofenceMode,
+    allowOfflinePunches:
+      stored?.allowOfflinePunches ?? defaults.allowOfflinePunches,
+    kioskAmbiguityMargin:
+      stored?.kioskAmbiguityMargin ?? defaults.kioskAmbiguityMargin,
+  };
+};
+
+export class TenantSettingsService {
+  /**
+   * Get the effective settings for a tenant (overrides merged over defaults)
+   */
+  async getSettings(tenantId: string): Promise<TenantSettingsValues> {
+    try {
+      const stored = await prisma.tenantSettings.findUnique({
+        where: { tenantId },
+      });
+
+      return resolveSettings(stored);
+    } catch (error) {
+      logger.error('Error fetching tenant settings', error);
+      throw new AppError('Failed to fetch tenant settings', 500);
+    }
+  }
+
+  /**
+   * Get effective settings alongside the global defaults
+   */
+  async getSettingsWithDefaults(
+    tenantId: string
+  ): Promise<TenantSettingsResponse> {
+    return {
+      settings: await this.getSettings(tenantId),
+      defaults: getDefaultTenantSettings(),
+    };
+  }
+
+  /**
+   * Update tenant settings
+   */
+  async updateSettings(
+    tenantId: string,
+    updates: UpdateTenantSettingsInput
+  ): Promise<TenantSettingsResponse> {
+    try {
+      const stored = await prisma.tenantSettings.findUnique({
+        where: { tenantId },
+      });
+
+      const merged = resolveSettings({ ...stored, ...updates });
+
+      if (merged.embeddingMetric === 'COSINE' && merged.embeddingThreshold > 1) {
+        throw new AppError(
+          'Embedding threshold for COSINE must be a similarity between 0 and 1',
+          400
+        );
+      }
+
+      const tenant = await prisma.tenant.findUniqueOrThrow({
+        where: { id: tenantId },
+        select: { planType: true },
+      });
+
+      if (
+        updates.faceVerifier === 'REKOGNITION' &&
+        tenant.planType !== 'PAID'
+      ) {
+        throw new AppError(
+          'Rekognition face verification is only available on the PAID plan',
+          403
+        );
+      }
+
+      // Checked on the merged settings, as requireLiveness may come from
+      // LIVENESS_REQUIRED and the verifier from the plan default
+      if (
+        merged.requireLiveness &&
+        !resolveFaceVerifier(tenant.planType, merged.faceVerifier)
+          .supportsLiveness
+      ) {
+        throw new AppError(
+          'requireLiveness needs a face verifier that supports liveness ' +
+            'checks (Rekognition)',
+          400
+        );
+      }
+
+      await prisma.tenantSettings.upsert({
+        where: { tenantId },
+        create: { tenantId, ...updates },
+        update: updates,
+      });
+
+      logger.info('Tenant settings updated', {
+        tenantId,
+        fields: Object.keys(updates),
+      });
+
+      return this.getSettingsWithDefaults(tenantId);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      logger.error('Error updating tenant settings', error);
+      throw new AppError('Failed to update tenant settings', 500);
+    }
+  }
+}
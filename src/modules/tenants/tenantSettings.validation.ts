@@ -0,0 +1,87 @@
+import Joi from 'joi';
+
+export const updateTenantSettingsSchema = Joi.object({
+  body: Joi.object({
+    checkInRadiusMeters: Joi.number()
+      .integer()
+      .min(10)
+      .max(100000)
+      .allow(null)
+      .optional()
+      .messages({
+        'number.base': 'Check-in radius must be a number',
+        'number.min': 'Check-in radius must be at least 10 meters',
+        'number.max': 'Check-in radius must not exceed 100000 meters',
+      }),
+    faceSimilarityThreshold: Joi.number()
+      .min(50)
+      .max(100)
+      .allow(null)
+      .optional()
+      .messages({
+        'number.base': 'Face similarity threshold must be a number',
+        'number.min': 'Face similarity threshold must be between 50 and 100',
+        'number.max': 'Face similarity threshold must be between 50 and 100',
+      }),
+    embeddingMetric: Joi.string()
+      .valid('COSINE', 'EUCLIDEAN')
+      .allow(null)
+      .optional(),
+    embeddingThreshold: Joi.number()
+      .greater(0)
+      .max(2)
+      .allow(null)
+      .optional()
+      .messages({
+        'number.base': 'Embedding threshold must be a number',
+        'number.greater': 'Embedding threshold must be greater than 0',
+        'number.max': 'Embedding threshold must not exceed 2',
+      }),
+    locationTokenExpiry: Joi.string()
+      .pattern(/^\d+[sm]$/)
+      .custom((value, helpers) => {
+        const amount = parseInt(value, 10);
+        const seconds = value.endsWith('m') ? amount * 60 : amount;
+        return seconds >= 30 && seconds <= 3600
+          ? value
+          : helpers.error('string.pattern.base');
+      })
+      .allow(null)
+      .optional()
+      .messages({
+        'string.pattern.base':
+          'Location token expiry must be between 30s and 60m (e.g. "90s", "5m")',
+      }),
+    // FAKE can only be enabled through the FACE_VERIFIER environment variable
+    faceVerifier: Joi.string()
+      .valid('REKOGNITION', 'LOCAL')
+      .allow(null)
+      .optional()
+      .messages({
+        'any.only': 'Face verifier must be REKOGNITION or LOCAL',
+      }),
+    requireLiveness: Joi.boolean().allow(null).optional(),
+    geofenceMode: Joi.string()
+      .valid('ON_SITE_ONLY', 'FIELD_ONLY', 'ANYWHERE')
+      .allow(null)
+      .optional()
+      .messages({
+        'any.only': 'Geofence mode must be ON_SITE_ONLY, FIELD_ONLY or ANYWHERE',
+      }),
+    allowOfflinePunches: Joi.boolean().allow(null).optional(),
+    kioskAmbiguityMargin: Joi.number()
+      .min(0)
+      .max(50)
+      .allow(null)
+      .optional()
+      .messages({
+        'number.base': 'Kiosk ambiguity margin must be a number',
+        'number.min': 'Kiosk ambiguity margin must be between 0 and 50',
+        'number.max': 'Kiosk ambiguity margin must be between 0 and 50',
+      }),
+  })
+    .min(1)
+    .messages({
+      'object.min': 'At least one setting must be provided',
+    }),
+});
@@ -2,6 +2,9 @@ import { createApp } from './app';
 import { config, validateConfig } from './config';
 import prisma from './config/database';
 import { logger } from './utils/logger';
+import {
+  scheduleLocationTokenCleanup,
+} from './modules/attendance/locationToken.service';
 
 const startServer = async () => {
   try {
@@ -13,6 +16,9 @@ const startServer = async () => {
     await prisma.$connect();
     logger.info('Database connected successfully');
 
+    // Purge expired single-use location tokens
+    const locationTokenCleanup = scheduleLocationTokenCleanup();
+
     // Create Express app
     const app = createApp();
 
@@ -27,6 +33,8 @@ const startServer = async () => {
     const gracefulShutdown = async (signal: string) => {
       logger.info(`${signal} received. Starting graceful shutdown...`);
 
+      clearInterval(locationTokenCleanup);
+
       server.close(async () => {
         logger.info('HTTP server closed');
 
@@ -0,0 +1,40 @@
+/**
+ * Helpers for plain calendar dates (YYYY-MM-DD), stored in DATE columns
+ * A DATE value is represented as midnight UTC of that day, so no time zone
+ * is involved once the local date is known
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a YYYY-MM-DD string into the value stored in a DATE column
+ */
+export const toDateColumn = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+/**
+ * Format a DATE column value as YYYY-MM-DD
+ */
+export const fromDateColumn = (date: Date): string =>
+  date.toISOString().slice(0, 10);
+
+/**
+ * Day of the week of a DATE column value (0 = Sunday)
+ */
+export const getDateColumnWeekday = (date: Date): number => date.getUTCDay();
+
+/**
+ * Every date from start to end, inclusive
+ */
+export const eachDate = (start: Date, end: Date): Date[] => {
+  const dates: Date[] = [];
+  for (let time = start.getTime(); time <= end.getTime(); time += DAY_MS) {
+    dates.push(new Date(time));
+  }
+  return dates;
+};
+
+/**
+ * Number of days from start to end, inclusive
+ */
+export const countDates = (start: Date, end: Date): number =>
+  Math.floor((end.getTime() - start.getTime()) / DAY_MS) + 1;
@@ -0,0 +1,92 @@
+import crypto, { type KeyObject } from 'crypto';
+
+/**
+ * Fields of an offline punch covered by the device signature
+ */
+export interface SignedPunchFields {
+  employeeId: string;
+  deviceId: string;
+  clientPunchId: string;
+  type: string;
+  capturedAt: string; // ISO 8601, exactly as sent
+  latitude: number;
+  longitude: number;
+  photoUrl: string;
+  embedding: number[];
+}
+
+/**
+ * Parse a device public key (PEM, SPKI)
+ * Returns null unless it is an Ed25519 or ECDSA P-256 key
+ */
+export const parseDevicePublicKey = (pem: string): KeyObject | null => {
+  let key: KeyObject;
+  try {
+    key = crypto.createPublicKey(pem);
+  } catch {
+    return null;
+  }
+
+  if (key.asymmetricKeyType === 'ed25519') {
+    return key;
+  }
+
+  if (
+    key.asymmetricKeyType === 'ec' &&
+    key.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+  ) {
+    return key;
+  }
+
+  return null;
+};
+
+/**
+ * Build the message a device signs for an offline punch
+ * Pipe-separated fields; the embedding is included as its SHA-256 hex digest
+ * of the JSON array
+ */
+export const buildSignedPunchMessage = (fields: SignedPunchFields): string => {
+  const embeddingDigest = crypto
+    .createHash('sha256')
+    .update(JSON.stringify(fields.embedding))
+    .digest('hex');
+
+  return [
+    fields.employeeId,
+    fields.deviceId,
+    fields.clientPunchId,
+    fields.type,
+    fields.capturedAt,
+    fields.latitude,
+    fields.longitude,
+    fields.photoUrl,
+    embeddingDigest,
+  ].join('|');
+};
+
+/**
+ * Verify a base64 signature over a message
+ * Ed25519 signs the message directly, ECDSA P-256 uses SHA-256 (DER signature)
+ */
+export const verifyDeviceSignature = (
+  publicKeyPem: string,
+  message: string,
+  signature: string
+): boolean => {
+  const key = parseDevicePublicKey(publicKeyPem);
+  if (!key) {
+    return false;
+  }
+
+  try {
+    return crypto.verify(
+      key.asymmetricKeyType === 'ed25519' ? null : 'sha256',
+      Buffer.from(message),
+      key,
+      Buffer.from(signature, 'base64')
+    );
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  compareEmbeddings,
+  cosineSimilarity,
+  euclideanDistance,
+} from './embedding';
+
+const close = (actual: number, expected: number): void =>
+  assert.ok(
+    Math.abs(actual - expected) < 1e-9,
+    `expected ${expected}, got ${actual}`
+  );
+
+describe('cosineSimilarity', () => {
+  it('is 1 for vectors pointing the same way, whatever their length', () => {
+    close(cosineSimilarity([1, 2, 3], [2, 4, 6]), 1);
+  });
+
+  it('is 0 for orthogonal vectors and -1 for opposite ones', () => {
+    close(cosineSimilarity([1, 0], [0, 1]), 0);
+    close(cosineSimilarity([1, 2], [-1, -2]), -1);
+  });
+
+  it('is 0 when a vector is all zeros', () => {
+    assert.equal(cosineSimilarity([0, 0], [1, 1]), 0);
+  });
+});
+
+describe('euclideanDistance', () => {
+  it('measures the straight-line distance', () => {
+    close(euclideanDistance([0, 0], [3, 4]), 5);
+    close(euclideanDistance([1, 1, 1], [1, 1, 1]), 0);
+  });
+});
+
+describe('compareEmbeddings', () => {
+  it('matches COSINE at or above the threshold', () => {
+    // cos(45°) = 0.7071...
+    const reference = [1, 0];
+    const probe = [1, 1];
+
+    const below = compareEmbeddings(reference, probe, 'COSINE', 0.8);
+    const atThreshold = compareEmbeddings(reference, [1, 0], 'COSINE', 1);
+    const above = compareEmbeddings(reference, probe, 'COSINE', 0.7);
+
+    assert.equal(below.isMatch, false);
+    close(below.rawValue, Math.SQRT1_2);
+    close(below.score, Math.SQRT1_2 * 100);
+    assert.equal(atThreshold.isMatch, true);
+    assert.equal(above.isMatch, true);
+  });
+
+  it('scores negative COSINE similarity as 0', () => {
+    const result = compareEmbeddings([1, 0], [-1, 0], 'COSINE', 0.8);
+
+    assert.equal(result.isMatch, false);
+    assert.equal(result.score, 0);
+    close(result.rawValue, -1);
+  });
+
+  it('matches EUCLIDEAN at or below the threshold', () => {
+    const within = compareEmbeddings([0, 0], [0.3, 0.4], 'EUCLIDEAN', 0.5);
+    const beyond = compareEmbeddings([0, 0], [0.3, 0.4], 'EUCLIDEAN', 0.4);
+
+    assert.equal(within.isMatch, true);
+    close(within.rawValue, 0.5);
+    close(within.score, 50);
+    assert.equal(beyond.isMatch, false);
+  });
+
+  it('scores EUCLIDEAN distances of 1 or more as 0', () => {
+    const result = compareEmbeddings([0, 0], [3, 4], 'EUCLIDEAN', 0.6);
+
+    assert.equal(result.isMatch, false);
+    assert.equal(result.score, 0);
+    close(result.rawValue, 5);
+  });
+
+  it('rejects vectors of different dimensions', () => {
+    assert.throws(
+      () => compareEmbeddings([1, 0], [1, 0, 0], 'COSINE', 0.8),
+      /Embedding dimensions do not match/
+    );
+  });
+});
@@ -0,0 +1,82 @@
+export type EmbeddingMetric = 'COSINE' | 'EUCLIDEAN';
+
+/**
+ * Default thresholds per metric
+ * COSINE: minimum similarity (0-1); EUCLIDEAN: maximum distance
+ */
+export const DEFAULT_EMBEDDING_THRESHOLDS: Record<EmbeddingMetric, number> = {
+  COSINE: 0.8,
+  EUCLIDEAN: 0.6,
+};
+
+export interface EmbeddingComparisonResult {
+  isMatch: boolean;
+  score: number; // Percentage, 100 = identical
+  rawValue: number; // Cosine similarity or Euclidean distance
+}
+
+/**
+ * Cosine similarity between two vectors (-1 to 1)
+ */
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/**
+ * Euclidean distance between two vectors
+ */
+export const euclideanDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+
+  return Math.sqrt(sum);
+};
+
+/**
+ * Compare a probe embedding against a reference embedding
+ * Vectors must have the same dimension
+ */
+export const compareEmbeddings = (
+  reference: number[],
+  probe: number[],
+  metric: EmbeddingMetric,
+  threshold: number
+): EmbeddingComparisonResult => {
+  if (reference.length !== probe.length) {
+    throw new Error('Embedding dimensions do not match');
+  }
+
+  if (metric === 'EUCLIDEAN') {
+    const distance = euclideanDistance(reference, probe);
+    return {
+      isMatch: distance <= threshold,
+      score: Math.max(0, 1 - distance) * 100,
+      rawValue: distance,
+    };
+  }
+
+  const similarity = cosineSimilarity(reference, probe);
+  return {
+    isMatch: similarity >= threshold,
+    score: Math.max(0, similarity) * 100,
+    rawValue: similarity,
+  };
+};
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { identifyFace, pickConfirmedContender } from './faceIdentification';
+
+const options = {
+  embeddingMetric: 'EUCLIDEAN' as const,
+  embeddingThreshold: 0.6,
+  ambiguityMargin: 5,
+};
+
+// Euclidean scores are (1 - distance) * 100
+const probe = [0, 0];
+const candidates = [
+  { id: 'far', embedding: [1, 0] }, // Distance 1, no match
+  { id: 'close', embedding: [0.1, 0] }, // Score 90
+  { id: 'closer', embedding: [0.08, 0] }, // Score 92
+  { id: 'invalid', embedding: 'not an embedding' },
+  { id: 'resized', embedding: [0, 0, 0] },
+];
+
+describe('identifyFace', () => {
+  it('returns the best match and the contenders within the margin', () => {
+    const { best, contenders } = identifyFace(probe, candidates, options);
+
+    assert.equal(best?.id, 'closer');
+    assert.deepEqual(
+      contenders.map(({ id }) => id),
+      ['closer', 'close']
+    );
+  });
+
+  it('has a single contender when the others are outside the margin', () => {
+    const { contenders } = identifyFace(probe, candidates, {
+      ...options,
+      ambiguityMargin: 1,
+    });
+
+    assert.deepEqual(
+      contenders.map(({ id }) => id),
+      ['closer']
+    );
+  });
+
+  it('finds nothing without a match over the threshold', () => {
+    const { best, contenders } = identifyFace(probe, [candidates[0]], options);
+
+    assert.equal(best, null);
+    assert.deepEqual(contenders, []);
+  });
+});
+
+describe('pickConfirmedContender', () => {
+  const contenders = [
+    { id: 'closer', score: 92 },
+    { id: 'close', score: 90 },
+  ];
+  const contactNumbers = new Map([
+    ['closer', '+91 98765 41234'],
+    ['close', '98765-45678'],
+    ['outside', '99999 99999'],
+  ]);
+
+  it('picks the contender whose contact number ends with the digits', () => {
+    assert.equal(
+      pickConfirmedContender(contenders, contactNumbers, '5678')?.id,
+      'close'
+    );
+    assert.equal(
+      pickConfirmedContender(contenders, contactNumbers, '1234')?.id,
+      'closer'
+    );
+  });
+
+  it('rejects digits of an employee who is not a contender', () => {
+    assert.equal(
+      pickConfirmedContender(contenders, contactNumbers, '9999'),
+      null
+    );
+  });
+
+  it('rejects digits shared by several contenders', () => {
+    const shared = new Map([
+      ['closer', '11111 11234'],
+      ['close', '22222 21234'],
+    ]);
+
+    assert.equal(pickConfirmedContender(contenders, shared, '1234'), null);
+  });
+
+  it('rejects anything but exactly four digits', () => {
+    assert.equal(pickConfirmedContender(contenders, contactNumbers, '678'), null);
+    assert.equal(pickConfirmedContender(contenders, contactNumbers, ''), null);
+    assert.equal(
+      pickConfirmedContender(contenders, contactNumbers, '56a8'),
+      null
+    );
+  });
+});
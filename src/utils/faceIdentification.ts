@@ -0,0 +1,99 @@
+import { compareEmbeddings, type EmbeddingMetric } from './embedding';
+import { isValidEmbedding } from './validators';
+
+/**
+ * Enrolled face a probe is searched against
+ */
+export interface IdentificationCandidate {
+  id: string;
+  embedding: unknown; // Stored as JSON; invalid or differently sized ones are skipped
+}
+
+export interface IdentificationMatch {
+  id: string;
+  score: number; // Percentage, 100 = identical
+}
+
+export interface IdentificationOptions {
+  embeddingMetric: EmbeddingMetric;
+  embeddingThreshold: number;
+  ambiguityMargin: number; // Score points
+}
+
+export interface IdentificationResult {
+  best: IdentificationMatch | null; // Highest-scoring match over the threshold
+  contenders: IdentificationMatch[]; // Matches within the margin of the best, best first
+}
+
+/**
+ * Search a probe embedding against every candidate (1:N)
+ * The result is ambiguous when more than one candidate is a contender
+ */
+export const identifyFace = (
+  probe: number[],
+  candidates: IdentificationCandidate[],
+  options: IdentificationOptions
+): IdentificationResult => {
+  const matches: IdentificationMatch[] = [];
+
+  for (const candidate of candidates) {
+    if (
+      !isValidEmbedding(candidate.embedding) ||
+      (candidate.embedding as number[]).length !== probe.length
+    ) {
+      continue;
+    }
+
+    const result = compareEmbeddings(
+      candidate.embedding as number[],
+      probe,
+      options.embeddingMetric,
+      options.embeddingThreshold
+    );
+
+    if (result.isMatch) {
+      matches.push({ id: candidate.id, score: result.score });
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score);
+
+  const best = matches[0] ?? null;
+
+  return {
+    best,
+    contenders: best
+      ? matches.filter(
+          (match) => best.score - match.score <= options.ambiguityMargin
+        )
+      : [],
+  };
+};
+
+/**
+ * Digits an employee confirms an ambiguous match with: the end of their
+ * contact number, so the kiosk never has to show who the contenders are
+ */
+export const CONFIRMATION_DIGITS = 4;
+
+/**
+ * Pick the contender whose contact number ends with the confirmation digits
+ * Returns null unless exactly one contender matches
+ */
+export const pickConfirmedContender = (
+  contenders: IdentificationMatch[],
+  contactNumbers: Map<string, string>,
+  confirmationDigits: string
+): IdentificationMatch | null => {
+  if (!new RegExp(`^\\d{${CONFIRMATION_DIGITS}}$`).test(confirmationDigits)) {
+    return null;
+  }
+
+  const confirmed = contenders.filter(({ id }) =>
+    (contactNumbers.get(id) ?? '')
+      .replace(/\D/g, '')
+      .endsWith(confirmationDigits)
+  );
+
+  return confirmed.length === 1 ? confirmed[0] : null;
+};
@@ -0,0 +1,258 @@
+import type {
+  FaceVerifierProvider,
+  LivenessPrompt,
+  PlanType,
+} from '@prisma/client';
+import { config } from '../config';
+import { compareFaces, detectFaceAttributes } from './rekognition';
+import {
+  compareEmbeddings,
+  type EmbeddingMetric,
+} from './embedding';
+import { isLivenessPromptSatisfied } from './liveness';
+import { isValidEmbedding } from './validators';
+
+/**
+ * Enrolled face of an employee
+ */
+export interface FaceReference {
+  photoUrl: string;
+  embedding: unknown; // Stored as JSON, validated by verifiers that use it
+}
+
+/**
+ * Face captured at punch time
+ */
+export interface FaceProbe {
+  photoUrl: string;
+  embedding: number[];
+}
+
+export interface FaceVerificationOptions {
+  faceSimilarityThreshold: number;
+  embeddingMetric: EmbeddingMetric;
+  embeddingThreshold: number;
+}
+
+export interface FaceVerificationResult {
+  isMatch: boolean;
+  confidence: number; // Percentage, 100 = identical
+  reason?: string; // Why the probe was rejected, safe to show to the user
+}
+
+/**
+ * One frame of a liveness sequence, answering one prompt
+ */
+export interface LivenessFrame {
+  prompt: LivenessPrompt;
+  photoUrl: string;
+}
+
+export interface LivenessResult {
+  passed: boolean;
+  score: number; // Percentage
+  reason?: string;
+}
+
+export interface FaceVerifier {
+  readonly provider: FaceVerifierProvider;
+  readonly supportsLiveness: boolean; // Whether checkLiveness can ever pass
+  verify(
+    reference: FaceReference,
+    probe: FaceProbe,
+    options: FaceVerificationOptions
+  ): Promise<FaceVerificationResult>;
+  /**
+   * Check that the frames answer their prompts and each shows the enrolled
+   * face
+   */
+  checkLiveness(
+    reference: FaceReference,
+    frames: LivenessFrame[],
+    options: FaceVerificationOptions
+  ): Promise<LivenessResult>;
+}
+
+/**
+ * AWS Rekognition CompareFaces on the enrolled and captured photos
+ */
+export class RekognitionFaceVerifier implements FaceVerifier {
+  readonly provider = 'REKOGNITION' as const;
+  readonly supportsLiveness = true;
+
+  async verify(
+    reference: FaceReference,
+    probe: FaceProbe,
+    options: FaceVerificationOptions
+  ): Promise<FaceVerificationResult> {
+    const result = await compareFaces(
+      reference.photoUrl,
+      probe.photoUrl,
+      options.faceSimilarityThreshold
+    );
+
+    return {
+      isMatch: result.isMatch,
+      confidence: result.similarity || 0,
+    };
+  }
+
+  async checkLiveness(
+    reference: FaceReference,
+    frames: LivenessFrame[],
+    options: FaceVerificationOptions
+  ): Promise<LivenessResult> {
+    const faces = await Promise.all(
+      frames.map((frame) => detectFaceAttributes(frame.photoUrl))
+    );
+
+    if (faces.some((face) => face.faceCount !== 1)) {
+      return {
+        passed: false,
+        score: 0,
+        reason: 'Each liveness frame must contain exactly one face',
+      };
+    }
+
+    const satisfied = frames.filter((frame, index) =>
+      isLivenessPromptSatisfied(frame.prompt, faces[index])
+    ).length;
+    const score = (satisfied / frames.length) * 100;
+
+    if (satisfied < frames.length) {
+      return {
+        passed: false,
+        score,
+        reason: 'Liveness prompts were not followed. Please try again.',
+      };
+    }
+
+    // Every frame must show the employee, not only the first one
+    const comparisons = await Promise.all(
+      frames.map((frame) =>
+        compareFaces(
+          reference.photoUrl,
+          frame.photoUrl,
+          options.faceSimilarityThreshold
+        )
+      )
+    );
+
+    if (comparisons.some((comparison) => !comparison.isMatch)) {
+      return {
+        passed: false,
+        score: 0,
+        reason: 'Liveness frames do not match the enrolled face',
+      };
+    }
+
+    return { passed: true, score };
+  }
+}
+
+/**
+ * Embedding comparison on the server, no external calls
+ */
+export class LocalEmbeddingFaceVerifier implements FaceVerifier {
+  readonly provider = 'LOCAL' as const;
+  readonly supportsLiveness = false;
+
+  async verify(
+    reference: FaceReference,
+    probe: FaceProbe,
+    options: FaceVerificationOptions
+  ): Promise<FaceVerificationResult> {
+    if (!isValidEmbedding(reference.embedding)) {
+      throw new Error('Enrolled embedding is invalid');
+    }
+
+    const enrolled = reference.embedding as number[];
+
+    if (enrolled.length !== probe.embedding.length) {
+      return {
+        isMatch: false,
+        confidence: 0,
+        reason: 'Embedding dimensions do not match the enrolled face',
+      };
+    }
+
+    const result = compareEmbeddings(
+      enrolled,
+      probe.embedding,
+      options.embeddingMetric,
+      options.embeddingThreshold
+    );
+
+    return {
+      isMatch: result.isMatch,
+      confidence: result.score,
+    };
+  }
+
+  /**
+   * Embeddings carry no pose and nothing ties them to the challenge, so
+   * frames cannot be shown to answer the prompts: liveness never passes
+   * and tenants requiring it need Rekognition
+   */
+  async checkLiveness(): Promise<LivenessResult> {
+    return {
+      passed: false,
+      score: 0,
+      reason: 'Liveness checks are not supported by the local face verifier',
+    };
+  }
+}
+
+/**
+ * Deterministic verifier for development and CI: always matches and passes
+ */
+export class FakeFaceVerifier implements FaceVerifier {
+  readonly provider = 'FAKE' as const;
+  readonly supportsLiveness = true;
+
+  constructor(private readonly confidence: number = 99) {}
+
+  async verify(): Promise<FaceVerificationResult> {
+    return {
+      isMatch: true,
+      confidence: this.confidence,
+    };
+  }
+
+  async checkLiveness(): Promise<LivenessResult> {
+    return {
+      passed: true,
+      score: this.confidence,
+    };
+  }
+}
+
+const verifiers: Record<FaceVerifierProvider, FaceVerifier> = {
+  REKOGNITION: new RekognitionFaceVerifier(),
+  LOCAL: new LocalEmbeddingFaceVerifier(),
+  FAKE: new FakeFaceVerifier(),
+};
+
+/**
+ * Get the verifier for a provider
+ */
+export const getFaceVerifier = (provider: FaceVerifierProvider): FaceVerifier => {
+  return verifiers[provider];
+};
+
+/**
+ * Pick the verifier for a tenant
+ * Order: FACE_VERIFIER environment override, tenant setting, plan default
+ * (PAID uses Rekognition, FREE compares embeddings locally)
+ */
+export const resolveFaceVerifier = (
+  planType: PlanType,
+  tenantProvider: FaceVerifierProvider | null
+): FaceVerifier => {
+  const provider =
+    config.faceVerification.provider ??
+    tenantProvider ??
+    (planType === 'PAID' ? 'REKOGNITION' : 'LOCAL');
+
+  return getFaceVerifier(provider);
+};
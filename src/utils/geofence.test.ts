@@ -0,0 +1,221 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildGeofence,
+  distanceToGeofence,
+  isWithinGeofence,
+  validateGeoJsonBoundary,
+  type Geofence,
+  type GeoJsonPolygon,
+  type Position,
+} from './geofence';
+
+// Square of 0.01° with its south-west corner at latitude 10, longitude 20
+const square: Position[] = [
+  [20, 10],
+  [20.01, 10],
+  [20.01, 10.01],
+  [20, 10.01],
+  [20, 10],
+];
+// Hole in the middle of the square
+const courtyard: Position[] = [
+  [20.004, 10.004],
+  [20.006, 10.004],
+  [20.006, 10.006],
+  [20.004, 10.006],
+  [20.004, 10.004],
+];
+// L-shaped (concave) site: the top right quarter of the square is missing
+const lShape: Position[] = [
+  [20, 10],
+  [20.01, 10],
+  [20.01, 10.005],
+  [20.005, 10.005],
+  [20.005, 10.01],
+  [20, 10.01],
+  [20, 10],
+];
+
+const polygon = (...rings: Position[][]): Geofence => ({
+  type: 'polygon',
+  boundary: { type: 'Polygon', coordinates: rings },
+});
+
+describe('isWithinGeofence', () => {
+  it('finds points inside and outside a polygon', () => {
+    const site = polygon(square);
+
+    assert.equal(isWithinGeofence(site, 10.005, 20.005), true);
+    assert.equal(isWithinGeofence(site, 10.005, 20.02), false);
+    assert.equal(isWithinGeofence(site, 9.99, 20.005), false);
+  });
+
+  it('reads positions as [longitude, latitude]', () => {
+    // Tall, thin rectangle: 0.001° of longitude by 0.01° of latitude
+    const site = polygon([
+      [20, 10],
+      [20.001, 10],
+      [20.001, 10.01],
+      [20, 10.01],
+      [20, 10],
+    ]);
+
+    assert.equal(isWithinGeofence(site, 10.008, 20.0005), true);
+    assert.equal(isWithinGeofence(site, 10.0005, 20.008), false);
+  });
+
+  it('excludes points in a hole', () => {
+    const site = polygon(square, courtyard);
+
+    assert.equal(isWithinGeofence(site, 10.005, 20.005), false);
+    assert.equal(isWithinGeofence(site, 10.002, 20.002), true);
+  });
+
+  it('handles concave polygons', () => {
+    const site = polygon(lShape);
+
+    assert.equal(isWithinGeofence(site, 10.002, 20.008), true);
+    assert.equal(isWithinGeofence(site, 10.008, 20.002), true);
+    assert.equal(isWithinGeofence(site, 10.008, 20.008), false);
+  });
+
+  it('matches any polygon of a MultiPolygon', () => {
+    const site: Geofence = {
+      type: 'polygon',
+      boundary: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [square],
+          [square.map(([lon, lat]): Position => [lon + 1, lat])],
+        ],
+      },
+    };
+
+    assert.equal(isWithinGeofence(site, 10.005, 20.005), true);
+    assert.equal(isWithinGeofence(site, 10.005, 21.005), true);
+    assert.equal(isWithinGeofence(site, 10.005, 20.5), false);
+  });
+
+  it('checks circles against their radius', () => {
+    const site: Geofence = {
+      type: 'circle',
+      latitude: 10,
+      longitude: 20,
+      radiusMeters: 100,
+    };
+
+    // 0.0005° of latitude is about 56 m, 0.001° about 111 m
+    assert.equal(isWithinGeofence(site, 10.0005, 20), true);
+    assert.equal(isWithinGeofence(site, 10.001, 20), false);
+  });
+});
+
+describe('distanceToGeofence', () => {
+  it('is 0 inside a polygon', () => {
+    assert.equal(distanceToGeofence(polygon(square), 10.005, 20.005), 0);
+  });
+
+  it('measures to the nearest edge outside a polygon', () => {
+    // 0.001° of latitude south of the bottom edge, about 111 m
+    const distance = distanceToGeofence(polygon(square), 9.999, 20.005);
+
+    assert.ok(Math.abs(distance - 111.32) < 0.5, `got ${distance}`);
+  });
+
+  it('measures to the hole edge from inside a hole', () => {
+    // 0.001° from each courtyard edge; the side edges are nearer, as a
+    // degree of longitude is shorter at 10°N (about 109.6 m)
+    const distance = distanceToGeofence(
+      polygon(square, courtyard),
+      10.005,
+      20.005
+    );
+
+    assert.ok(Math.abs(distance - 109.63) < 0.5, `got ${distance}`);
+  });
+});
+
+describe('buildGeofence', () => {
+  const location = { latitude: 10, longitude: 20, radiusMeters: 50 };
+
+  it('prefers a valid boundary over the circle', () => {
+    const boundary: GeoJsonPolygon = { type: 'Polygon', coordinates: [square] };
+
+    assert.deepEqual(buildGeofence({ ...location, boundary }), {
+      type: 'polygon',
+      boundary,
+    });
+  });
+
+  it('falls back to the circle without a valid boundary', () => {
+    const circle = { type: 'circle', ...location };
+
+    assert.deepEqual(buildGeofence(location), circle);
+    assert.deepEqual(
+      buildGeofence({
+        ...location,
+        boundary: { type: 'Polygon', coordinates: [square.slice(0, 3)] },
+      }),
+      circle
+    );
+  });
+});
+
+describe('validateGeoJsonBoundary', () => {
+  it('accepts closed Polygon and MultiPolygon rings', () => {
+    assert.equal(
+      validateGeoJsonBoundary({ type: 'Polygon', coordinates: [square] }),
+      null
+    );
+    assert.equal(
+      validateGeoJsonBoundary({
+        type: 'MultiPolygon',
+        coordinates: [[square], [lShape]],
+      }),
+      null
+    );
+  });
+
+  it('rejects open, short or out-of-range rings', () => {
+    assert.equal(
+      validateGeoJsonBoundary({
+        type: 'Polygon',
+        coordinates: [square.slice(0, 4)],
+      }),
+      'Polygon rings must be closed (first and last positions equal)'
+    );
+    assert.equal(
+      validateGeoJsonBoundary({
+        type: 'Polygon',
+        coordinates: [square.slice(0, 3)],
+      }),
+      'Each polygon ring must have at least 4 positions'
+    );
+    assert.equal(
+      validateGeoJsonBoundary({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [10, 95],
+            [11, 95],
+            [11, 96],
+            [10, 95],
+          ],
+        ],
+      }),
+      'Latitude must be between -90 and 90'
+    );
+  });
+
+  it('rejects other geometries', () => {
+    assert.equal(
+      validateGeoJsonBoundary({ type: 'Point', coordinates: [20, 10] }),
+      'Boundary type must be Polygon or MultiPolygon'
+    );
+    assert.equal(
+      validateGeoJsonBoundary('not a geometry'),
+      'Boundary must be a GeoJSON geometry'
+    );
+  });
+});
@@ -0,0 +1,275 @@
+import { calculateDistance, isWithinRadius } from './geoLocation';
+
+/**
+ * GeoJSON position: [longitude, latitude]
+ */
+export type Position = [number, number];
+
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: Position[][]; // Outer ring followed by holes
+}
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: Position[][][];
+}
+
+export type GeoJsonBoundary = GeoJsonPolygon | GeoJsonMultiPolygon;
+
+export interface CircleGeofence {
+  type: 'circle';
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+}
+
+export interface PolygonGeofence {
+  type: 'polygon';
+  boundary: GeoJsonBoundary;
+}
+
+export type Geofence = CircleGeofence | PolygonGeofence;
+
+/**
+ * Build a geofence from a location's stored fields
+ * A GeoJSON boundary takes precedence over the centre/radius circle
+ */
+export const buildGeofence = (location: {
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  boundary?: unknown;
+}): Geofence => {
+  if (location.boundary && validateGeoJsonBoundary(location.boundary) === null) {
+    return {
+      type: 'polygon',
+      boundary: location.boundary as GeoJsonBoundary,
+    };
+  }
+
+  return {
+    type: 'circle',
+    latitude: location.latitude,
+    longitude: location.longitude,
+    radiusMeters: location.radiusMeters,
+  };
+};
+
+/**
+ * Ray casting test for a single linear ring
+ */
+const isPointInRing = (lat: number, lon: number, ring: Position[]): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lonI, latI] = ring[i];
+    const [lonJ, latJ] = ring[j];
+
+    const intersects =
+      latI > lat !== latJ > lat &&
+      lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI;
+
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+/**
+ * Check if a point is inside a polygon (outer ring minus holes)
+ */
+const isPointInPolygon = (
+  lat: number,
+  lon: number,
+  rings: Position[][]
+): boolean => {
+  const [outer, ...holes] = rings;
+
+  if (!isPointInRing(lat, lon, outer)) {
+    return false;
+  }
+
+  return !holes.some((hole) => isPointInRing(lat, lon, hole));
+};
+
+const getPolygons = (boundary: GeoJsonBoundary): Position[][][] => {
+  return boundary.type === 'Polygon'
+    ? [boundary.coordinates]
+    : boundary.coordinates;
+};
+
+/**
+ * Distance in meters from a point to the segment AB
+ * Uses a local equirectangular projection around the point, accurate for
+ * the short distances geofences deal with
+ */
+const distanceToSegment = (
+  lat: number,
+  lon: number,
+  a: Position,
+  b: Position
+): number => {
+  const metersPerDegreeLat = 111320;
+  const metersPerDegreeLon = metersPerDegreeLat * Math.cos((lat * Math.PI) / 180);
+
+  const ax = (a[0] - lon) * metersPerDegreeLon;
+  const ay = (a[1] - lat) * metersPerDegreeLat;
+  const bx = (b[0] - lon) * metersPerDegreeLon;
+  const by = (b[1] - lat) * metersPerDegreeLat;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+
+  return Math.hypot(ax + t * dx, ay + t * dy);
+};
+
+/**
+ * Check if a coordinate is inside a geofence
+ */
+export const isWithinGeofence = (
+  geofence: Geofence,
+  lat: number,
+  lon: number
+): boolean => {
+  if (geofence.type === 'circle') {
+    return isWithinRadius(
+      lat,
+      lon,
+      geofence.latitude,
+      geofence.longitude,
+      geofence.radiusMeters
+    );
+  }
+
+  return getPolygons(geofence.boundary).some((rings) =>
+    isPointInPolygon(lat, lon, rings)
+  );
+};
+
+/**
+ * Distance in meters from a coordinate to the edge of a geofence
+ * Returns 0 when the coordinate is inside
+ */
+export const distanceToGeofence = (
+  geofence: Geofence,
+  lat: number,
+  lon: number
+): number => {
+  if (isWithinGeofence(geofence, lat, lon)) {
+    return 0;
+  }
+
+  if (geofence.type === 'circle') {
+    return (
+      calculateDistance(lat, lon, geofence.latitude, geofence.longitude) -
+      geofence.radiusMeters
+    );
+  }
+
+  let minDistance = Infinity;
+
+  for (const rings of getPolygons(geofence.boundary)) {
+    for (const ring of rings) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        minDistance = Math.min(
+          minDistance,
+          distanceToSegment(lat, lon, ring[i], ring[i + 1])
+        );
+      }
+    }
+  }
+
+  return minDistance;
+};
+
+/**
+ * Validate a linear ring: closed, at least 4 positions, valid coordinates
+ */
+const validateRing = (ring: unknown): string | null => {
+  if (!Array.isArray(ring) || ring.length < 4) {
+    return 'Each polygon ring must have at least 4 positions';
+  }
+
+  for (const position of ring) {
+    if (
+      !Array.isArray(position) ||
+      position.length < 2 ||
+      typeof position[0] !== 'number' ||
+      typeof position[1] !== 'number'
+    ) {
+      return 'Positions must be [longitude, latitude] number pairs';
+    }
+    if (position[0] < -180 || position[0] > 180) {
+      return 'Longitude must be between -180 and 180';
+    }
+    if (position[1] < -90 || position[1] > 90) {
+      return 'Latitude must be between -90 and 90';
+    }
+  }
+
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) {
+    return 'Polygon rings must be closed (first and last positions equal)';
+  }
+
+  return null;
+};
+
+const validatePolygonRings = (rings: unknown): string | null => {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    return 'Polygon must have at least one ring';
+  }
+
+  for (const ring of rings) {
+    const error = validateRing(ring);
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validate a GeoJSON Polygon or MultiPolygon geometry
+ * Returns an error message, or null if valid
+ */
+export const validateGeoJsonBoundary = (value: unknown): string | null => {
+  if (!value || typeof value !== 'object') {
+    return 'Boundary must be a GeoJSON geometry';
+  }
+
+  const { type, coordinates } = value as {
+    type?: unknown;
+    coordinates?: unknown;
+  };
+
+  if (type === 'Polygon') {
+    return validatePolygonRings(coordinates);
+  }
+
+  if (type === 'MultiPolygon') {
+    if (!Array.isArray(coordinates) || coordinates.length === 0) {
+      return 'MultiPolygon must have at least one polygon';
+    }
+    for (const polygon of coordinates) {
+      const error = validatePolygonRings(polygon);
+      if (error) {
+        return error;
+      }
+    }
+    return null;
+  }
+
+  return 'Boundary type must be Polygon or MultiPolygon';
+};
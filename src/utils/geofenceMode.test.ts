@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getGeofenceOutcome } from './geofenceMode';
+
+const warehouse = { id: 'warehouse', name: 'Warehouse' };
+const office = { id: 'office', name: 'Office' };
+// Tenant without locations: its registered address stands in as the site
+const tenantAddress = { id: null, name: 'office' };
+
+describe('getGeofenceOutcome', () => {
+  describe('ON_SITE_ONLY', () => {
+    it('allows a location inside a site and ties it to that site', () => {
+      const outcome = getGeofenceOutcome('ON_SITE_ONLY', warehouse, {
+        site: office,
+        distance: 0,
+      });
+
+      assert.equal(outcome.allowed, true);
+      assert.equal(outcome.site, warehouse);
+      assert.match(outcome.message, /within the Warehouse premises/);
+    });
+
+    it('rejects a location outside every site with the distance', () => {
+      const outcome = getGeofenceOutcome('ON_SITE_ONLY', null, {
+        site: office,
+        distance: 120.2,
+      });
+
+      assert.equal(outcome.allowed, false);
+      assert.equal(outcome.site, office);
+      assert.match(outcome.message, /121 m outside the Office premises/);
+    });
+
+    it('judges against the tenant address when there are no sites', () => {
+      assert.equal(
+        getGeofenceOutcome('ON_SITE_ONLY', tenantAddress, {
+          site: tenantAddress,
+          distance: 0,
+        }).allowed,
+        true
+      );
+
+      const outside = getGeofenceOutcome('ON_SITE_ONLY', null, {
+        site: tenantAddress,
+        distance: 500,
+      });
+
+      assert.equal(outside.allowed, false);
+      assert.equal(outside.site.id, null);
+    });
+  });
+
+  describe('FIELD_ONLY', () => {
+    it('rejects a location inside a site', () => {
+      const outcome = getGeofenceOutcome('FIELD_ONLY', warehouse, {
+        site: warehouse,
+        distance: 0,
+      });
+
+      assert.equal(outcome.allowed, false);
+      assert.match(outcome.message, /within the Warehouse premises/);
+    });
+
+    it('allows a location outside every site, tied to the nearest', () => {
+      const outcome = getGeofenceOutcome('FIELD_ONLY', null, {
+        site: office,
+        distance: 2500,
+      });
+
+      assert.equal(outcome.allowed, true);
+      assert.equal(outcome.site, office);
+      assert.equal(
+        outcome.message,
+        'Location verified. You are outside office premises.'
+      );
+    });
+
+    it('allows a location away from the tenant address', () => {
+      const outcome = getGeofenceOutcome('FIELD_ONLY', null, {
+        site: tenantAddress,
+        distance: 2500,
+      });
+
+      assert.equal(outcome.allowed, true);
+      assert.equal(outcome.site.id, null);
+    });
+  });
+
+  describe('ANYWHERE', () => {
+    it('allows a location inside a site, tied to that site', () => {
+      const outcome = getGeofenceOutcome('ANYWHERE', warehouse, {
+        site: office,
+        distance: 0,
+      });
+
+      assert.equal(outcome.allowed, true);
+      assert.equal(outcome.site, warehouse);
+      assert.match(outcome.message, /within the Warehouse premises/);
+    });
+
+    it('allows a location outside every site, tied to the nearest', () => {
+      const outcome = getGeofenceOutcome('ANYWHERE', null, {
+        site: office,
+        distance: 2500,
+      });
+
+      assert.equal(outcome.allowed, true);
+      assert.equal(outcome.site, office);
+      assert.match(outcome.message, /outside office premises/);
+    });
+
+    it('allows any location when there are no sites', () => {
+      const outcome = getGeofenceOutcome('ANYWHERE', null, {
+        site: tenantAddress,
+        distance: 10000,
+      });
+
+      assert.equal(outcome.allowed, true);
+      assert.equal(outcome.site.id, null);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import type { GeofenceMode } from '@prisma/client';
+
+/**
+ * Site a location is judged against, named in the outcome message
+ */
+export interface GeofenceSite {
+  name: string;
+}
+
+export interface GeofenceOutcome<S extends GeofenceSite> {
+  allowed: boolean;
+  site: S; // Site the location token is tied to
+  message: string;
+}
+
+/**
+ * Decide whether a location check may issue a token under a geofence mode
+ * The token is tied to the site the employee is in, otherwise the nearest one
+ */
+export const getGeofenceOutcome = <S extends GeofenceSite>(
+  mode: GeofenceMode,
+  matchedSite: S | null,
+  nearest: { site: S; distance: number }
+): GeofenceOutcome<S> => {
+  const site = matchedSite ?? nearest.site;
+
+  switch (mode) {
+    case 'ON_SITE_ONLY':
+      if (matchedSite) {
+        return {
+          allowed: true,
+          site,
+          message: `Location verified. You are within the ${site.name} premises.`,
+        };
+      }
+      return {
+        allowed: false,
+        site,
+        message: `You are ${Math.ceil(nearest.distance)} m outside the ${site.name} premises. Check-in is only allowed on site.`,
+      };
+    case 'FIELD_ONLY':
+      if (matchedSite) {
+        return {
+          allowed: false,
+          site,
+          message: `You are within the ${site.name} premises. Check-in is only allowed from outside office premises.`,
+        };
+      }
+      return {
+        allowed: true,
+        site,
+        message: 'Location verified. You are outside office premises.',
+      };
+    case 'ANYWHERE':
+      return {
+        allowed: true,
+        site,
+        message: matchedSite
+          ? `Location verified. You are within the ${site.name} premises.`
+          : 'Location verified. You are outside office premises.',
+      };
+  }
+};
@@ -0,0 +1,159 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isICalendar, parseICalendarEvents } from './icalendar';
+
+const calendar = (...lines: string[]): string =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Example//Holidays//EN',
+    ...lines,
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+describe('parseICalendarEvents', () => {
+  it('reads an all-day event with an exclusive DTEND', () => {
+    const events = parseICalendarEvents(
+      calendar(
+        'BEGIN:VEVENT',
+        'UID:republic-day-2024@example.com',
+        'DTSTART;VALUE=DATE:20240126',
+        'DTEND;VALUE=DATE:20240127',
+        'SUMMARY:Republic Day',
+        'END:VEVENT'
+      )
+    );
+
+    assert.deepEqual(events, [
+      {
+        uid: 'republic-day-2024@example.com',
+        summary: 'Republic Day',
+        startDate: '2024-01-26',
+        endDate: '2024-01-26',
+        recurring: false,
+        cancelled: false,
+      },
+    ]);
+  });
+
+  it('spans multi-day events and durations', () => {
+    const [ranged, lasting] = parseICalendarEvents(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20241231',
+        'DTEND;VALUE=DATE:20250103',
+        'SUMMARY:Year end',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240415',
+        'DURATION:P1W',
+        'SUMMARY:Spring break',
+        'END:VEVENT'
+      )
+    );
+
+    assert.equal(ranged.startDate, '2024-12-31');
+    assert.equal(ranged.endDate, '2025-01-02');
+    assert.equal(lasting.endDate, '2024-04-21');
+  });
+
+  it('keeps the day of timed events and ends them on their own day', () => {
+    const [event] = parseICalendarEvents(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART:20240815T000000',
+        'DTEND:20240815T235900',
+        'SUMMARY:Independence Day',
+        'END:VEVENT'
+      )
+    );
+
+    assert.equal(event.startDate, '2024-08-15');
+    assert.equal(event.endDate, '2024-08-15');
+  });
+
+  it('unfolds lines and unescapes text', () => {
+    const [event] = parseICalendarEvents(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20241225',
+        'SUMMARY:Christmas\\, office',
+        '  closed\\; see notes\\nfor details',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n')
+    );
+
+    assert.equal(
+      event.summary,
+      'Christmas, office closed; see notes for details'
+    );
+  });
+
+  it('reads quoted parameters containing colons', () => {
+    const [event] = parseICalendarEvents(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART;TZID="Asia/Kolkata:IST";VALUE=DATE:20241002',
+        'SUMMARY:Gandhi Jayanti',
+        'END:VEVENT'
+      )
+    );
+
+    assert.equal(event.startDate, '2024-10-02');
+  });
+
+  it('flags recurring and cancelled events', () => {
+    const [recurring, cancelled] = parseICalendarEvents(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240101',
+        'RRULE:FREQ=YEARLY',
+        'SUMMARY:New Year',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240301',
+        'STATUS:CANCELLED',
+        'SUMMARY:Company day',
+        'END:VEVENT'
+      )
+    );
+
+    assert.equal(recurring.recurring, true);
+    assert.equal(recurring.cancelled, false);
+    assert.equal(cancelled.cancelled, true);
+  });
+
+  it('ignores nested alarms and events without a valid start', () => {
+    const events = parseICalendarEvents(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240501',
+        'SUMMARY:Labour Day',
+        'BEGIN:VALARM',
+        'SUMMARY:Reminder',
+        'TRIGGER:-P1D',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'SUMMARY:No start',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:2024-05-01',
+        'SUMMARY:Bad start',
+        'END:VEVENT'
+      )
+    );
+
+    assert.equal(events.length, 1);
+    assert.equal(events[0].summary, 'Labour Day');
+  });
+});
+
+describe('isICalendar', () => {
+  it('recognises a VCALENDAR document', () => {
+    assert.equal(isICalendar('\n begin:vcalendar\r\nEND:VCALENDAR'), true);
+    assert.equal(isICalendar('date,name\n2024-01-26,Republic Day'), false);
+  });
+});
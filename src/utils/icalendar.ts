@@ -0,0 +1,205 @@
+/**
+ * Minimal iCalendar (RFC 5545) reader for holiday calendars
+ * Only the VEVENT fields needed to place all-day events are read.
+ */
+
+export interface ICalendarEvent {
+  uid: string | null;
+  summary: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+  recurring: boolean; // Has an RRULE; only the first occurrence is described
+  cancelled: boolean;
+}
+
+interface ICalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Join folded lines (continuations start with a space or tab)
+ */
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+
+/**
+ * Split a content line into name, parameters and value
+ * The value starts at the first colon outside a quoted parameter value.
+ */
+const parseProperty = (line: string): ICalendarProperty | null => {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(separator + 1),
+  };
+};
+
+/**
+ * Undo TEXT value escaping
+ */
+const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? ' ' : char
+  );
+
+/**
+ * Read the calendar date of a DATE or DATE-TIME value
+ * Times are ignored: holidays are whole days in the tenant's zone.
+ */
+const parseDateValue = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  const date = new Date(`${year}-${month}-${day}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+};
+
+const addDays = (date: string, days: number): string =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+
+/**
+ * Read the days of a duration such as P1D or P2W (time parts are ignored)
+ */
+const parseDurationDays = (value: string): number => {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?/.exec(value);
+  if (!match) {
+    return 0;
+  }
+  return parseInt(match[1] || '0', 10) * 7 + parseInt(match[2] || '0', 10);
+};
+
+/**
+ * Build an event from its properties; null without a usable DTSTART
+ */
+const toEvent = (properties: ICalendarProperty[]): ICalendarEvent | null => {
+  const find = (name: string) =>
+    properties.find((property) => property.name === name);
+
+  const dtStart = find('DTSTART');
+  const startDate = dtStart ? parseDateValue(dtStart.value) : null;
+  if (!dtStart || !startDate) {
+    return null;
+  }
+
+  // An all-day DTEND is exclusive; a timed one ends on its own day
+  let endDate = startDate;
+  const dtEnd = find('DTEND');
+  const duration = find('DURATION');
+  const endValue = dtEnd ? parseDateValue(dtEnd.value) : null;
+  if (dtEnd && endValue) {
+    const isDate = dtEnd.params.VALUE === 'DATE' || !dtEnd.value.includes('T');
+    endDate = isDate ? addDays(endValue, -1) : endValue;
+  } else if (duration) {
+    endDate = addDays(startDate, parseDurationDays(duration.value) - 1);
+  }
+
+  if (endDate < startDate) {
+    endDate = startDate;
+  }
+
+  const summary = find('SUMMARY');
+  const uid = find('UID');
+  const status = find('STATUS');
+
+  return {
+    uid: uid ? uid.value.trim() : null,
+    summary: summary ? unescapeText(summary.value).trim() : '',
+    startDate,
+    endDate,
+    recurring: Boolean(find('RRULE')),
+    cancelled: status?.value.trim().toUpperCase() === 'CANCELLED',
+  };
+};
+
+/**
+ * Read the events of an iCalendar document
+ * Nested components (VALARM) are skipped, as are events without a start
+ * date.
+ */
+export const parseICalendarEvents = (text: string): ICalendarEvent[] => {
+  const events: ICalendarEvent[] = [];
+  let current: ICalendarProperty[] | null = null;
+  let depth = 0;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    const value = property.value.trim().toUpperCase();
+
+    if (property.name === 'BEGIN') {
+      if (value === 'VEVENT' && !current) {
+        current = [];
+      } else if (current) {
+        depth++;
+      }
+      continue;
+    }
+
+    if (property.name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && value === 'VEVENT') {
+        const event = toEvent(current);
+        if (event) {
+          events.push(event);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && depth === 0) {
+      current.push(property);
+    }
+  }
+
+  return events;
+};
+
+/**
+ * Check if text looks like an iCalendar document
+ */
+export const isICalendar = (text: string): boolean =>
+  /^\s*BEGIN:VCALENDAR/i.test(text);
@@ -18,6 +18,16 @@ export interface LocationTokenPayload {
   employeeId: string;
   latitude: number;
   longitude: number;
+  locationId: string | null; // Null when evaluated against the tenant's registered address
+}
+
+/**
+ * Verified location token; jti identifies the token for single use
+ */
+export interface LocationTokenClaims extends LocationTokenPayload {
+  jti: string;
+  iat: number; // Seconds since epoch
+  exp: number; // Seconds since epoch
 }
 
 /**
@@ -39,13 +49,16 @@ export const generateRefreshToken = (payload: RefreshTokenPayload): string => {
 };
 
 /**
- * Generate Location Token (short-lived JWT for check-in)
+ * Generate Location Token (short-lived, single-use JWT for check-in)
+ * @param expiresIn - Tenant-specific expiry, defaults to the global setting
  */
 export const generateLocationToken = (
-  payload: LocationTokenPayload
+  payload: LocationTokenPayload,
+  expiresIn: string = config.jwt.locationExpiry
 ): string => {
   return jwt.sign(payload, config.jwt.locationSecret, {
-    expiresIn: config.jwt.locationExpiry,
+    expiresIn,
+    jwtid: crypto.randomUUID(),
   } as jwt.SignOptions);
 };
 
@@ -73,13 +86,21 @@ export const verifyRefreshToken = (token: string): RefreshTokenPayload => {
 
 /**
  * Verify Location Token
+ * Tokens without a jti (issued before single-use tokens) are rejected
  */
-export const verifyLocationToken = (token: string): LocationTokenPayload => {
+export const verifyLocationToken = (token: string): LocationTokenClaims => {
+  let claims: LocationTokenClaims;
   try {
-    return jwt.verify(token, config.jwt.locationSecret) as LocationTokenPayload;
+    claims = jwt.verify(token, config.jwt.locationSecret) as LocationTokenClaims;
   } catch (error) {
     throw new Error('Invalid or expired location token');
   }
+
+  if (!claims.jti) {
+    throw new Error('Invalid or expired location token');
+  }
+
+  return claims;
 };
 
 /**
@@ -0,0 +1,60 @@
+import { randomBytes, randomInt } from 'crypto';
+import type { LivenessPrompt } from '@prisma/client';
+import type { FaceAttributes } from './rekognition';
+
+export const LIVENESS_PROMPTS: LivenessPrompt[] = [
+  'TURN_LEFT',
+  'TURN_RIGHT',
+  'LOOK_UP',
+  'LOOK_DOWN',
+  'BLINK',
+];
+
+// Minimum head rotation for a pose prompt, in degrees
+const POSE_THRESHOLD_DEGREES = 20;
+
+// Minimum Rekognition confidence that the eyes are closed for BLINK
+const BLINK_CONFIDENCE = 80;
+
+/**
+ * Pick distinct random prompts for a challenge
+ */
+export const pickLivenessPrompts = (count: number): LivenessPrompt[] => {
+  const pool = [...LIVENESS_PROMPTS];
+  const prompts: LivenessPrompt[] = [];
+
+  while (prompts.length < count && pool.length > 0) {
+    prompts.push(pool.splice(randomInt(pool.length), 1)[0]);
+  }
+
+  return prompts;
+};
+
+/**
+ * Generate a single-use challenge nonce
+ */
+export const generateLivenessNonce = (): string => {
+  return randomBytes(16).toString('hex');
+};
+
+/**
+ * Check if a detected face satisfies a prompt
+ * Yaw and pitch follow Rekognition's convention for the unmirrored image
+ */
+export const isLivenessPromptSatisfied = (
+  prompt: LivenessPrompt,
+  face: FaceAttributes
+): boolean => {
+  switch (prompt) {
+    case 'TURN_LEFT':
+      return face.yaw <= -POSE_THRESHOLD_DEGREES;
+    case 'TURN_RIGHT':
+      return face.yaw >= POSE_THRESHOLD_DEGREES;
+    case 'LOOK_UP':
+      return face.pitch >= POSE_THRESHOLD_DEGREES;
+    case 'LOOK_DOWN':
+      return face.pitch <= -POSE_THRESHOLD_DEGREES;
+    case 'BLINK':
+      return !face.eyesOpen && face.eyesOpenConfidence >= BLINK_CONFIDENCE;
+  }
+};
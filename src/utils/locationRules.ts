@@ -0,0 +1,121 @@
+import type { LocationCheckVerdict, LocationRuleFlag } from '@prisma/client';
+import { calculateDistance } from './geoLocation';
+
+export interface LocationSignals {
+  latitude: number;
+  longitude: number;
+  accuracy?: number; // Meters, 68% confidence radius reported by the device
+  altitude?: number;
+  isMocked?: boolean;
+  fixTimestamp?: Date;
+}
+
+/**
+ * Last accepted check of the same employee, for travel speed
+ */
+export interface PreviousLocation {
+  latitude: number;
+  longitude: number;
+  checkedAt: Date;
+}
+
+export interface LocationRuleOptions {
+  geofenceRadiusMeters: number;
+  maxTravelSpeedKmh: number;
+  maxFixAgeSeconds: number;
+}
+
+export interface LocationRuleResult {
+  verdict: LocationCheckVerdict;
+  flags: LocationRuleFlag[];
+}
+
+// Rules that reject the check outright; every other flag only marks it for review
+const REJECTING_FLAGS: LocationRuleFlag[] = ['MOCK_LOCATION', 'IMPOSSIBLE_TRAVEL'];
+
+// Jumps shorter than this are GPS jitter, not travel
+const MIN_TRAVEL_DISTANCE_METERS = 1000;
+
+// Allowed clock skew for fix timestamps ahead of the server
+const MAX_FIX_CLOCK_SKEW_SECONDS = 60;
+
+/**
+ * Count the decimal places of a coordinate as sent by the client
+ */
+const countDecimals = (value: number): number => {
+  const [, decimals = ''] = value.toString().split('.');
+  return decimals.length;
+};
+
+/**
+ * Evaluate a location check against the spoofing rules
+ * - MOCK_LOCATION: the device reports a mock location provider
+ * - IMPOSSIBLE_TRAVEL: faster than maxTravelSpeedKmh since the previous check
+ * - ROUND_COORDINATES: both coordinates have 3 decimals or fewer (~100 m),
+ *   typical of hand-entered values
+ * - POOR_ACCURACY: accuracy radius larger than the geofence
+ * - STALE_FIX: fix older than maxFixAgeSeconds, or in the future
+ */
+export const evaluateLocationRules = (
+  signals: LocationSignals,
+  previous: PreviousLocation | null,
+  options: LocationRuleOptions,
+  now: Date = new Date()
+): LocationRuleResult => {
+  const flags: LocationRuleFlag[] = [];
+
+  if (signals.isMocked) {
+    flags.push('MOCK_LOCATION');
+  }
+
+  if (previous) {
+    const distance = calculateDistance(
+      previous.latitude,
+      previous.longitude,
+      signals.latitude,
+      signals.longitude
+    );
+    const hours = (now.getTime() - previous.checkedAt.getTime()) / 3600000;
+    const speedKmh = hours > 0 ? distance / 1000 / hours : Infinity;
+
+    if (
+      distance >= MIN_TRAVEL_DISTANCE_METERS &&
+      speedKmh > options.maxTravelSpeedKmh
+    ) {
+      flags.push('IMPOSSIBLE_TRAVEL');
+    }
+  }
+
+  if (
+    countDecimals(signals.latitude) <= 3 &&
+    countDecimals(signals.longitude) <= 3
+  ) {
+    flags.push('ROUND_COORDINATES');
+  }
+
+  if (
+    signals.accuracy !== undefined &&
+    signals.accuracy > options.geofenceRadiusMeters
+  ) {
+    flags.push('POOR_ACCURACY');
+  }
+
+  if (signals.fixTimestamp) {
+    const ageSeconds = (now.getTime() - signals.fixTimestamp.getTime()) / 1000;
+    if (
+      ageSeconds > options.maxFixAgeSeconds ||
+      ageSeconds < -MAX_FIX_CLOCK_SKEW_SECONDS
+    ) {
+      flags.push('STALE_FIX');
+    }
+  }
+
+  let verdict: LocationCheckVerdict = 'ALLOW';
+  if (flags.some((flag) => REJECTING_FLAGS.includes(flag))) {
+    verdict = 'REJECT';
+  } else if (flags.length > 0) {
+    verdict = 'FLAG';
+  }
+
+  return { verdict, flags };
+};
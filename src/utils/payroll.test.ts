@@ -0,0 +1,178 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma, type PayComponent } from '@prisma/client';
+import { computePayrollItem } from './payroll';
+import type {
+  EmployeeAttendanceSummary,
+} from '../modules/attendance/attendanceSummary.service';
+
+const TZ = 'UTC';
+const FEBRUARY = { start: '2024-02-01', end: '2024-02-29' }; // 29 days
+const AFTER_FEBRUARY = new Date('2024-03-05T12:00:00Z');
+
+const summary = (
+  overrides: Partial<EmployeeAttendanceSummary> = {}
+): EmployeeAttendanceSummary => ({
+  employeeId: 'employee',
+  employeeName: 'Employee',
+  workingDays: 21,
+  presentDays: 21,
+  absentDays: 0,
+  lateDays: 0,
+  halfDays: 0,
+  leaveDays: 0,
+  unpaidLeaveDays: 0,
+  holidays: 0,
+  weeklyOffs: 8,
+  workedMinutes: 0,
+  workedHours: 0,
+  overtimeMinutes: 0,
+  ...overrides,
+});
+
+const employee = (salary: string, createdAt = '2024-01-01T00:00:00Z') => ({
+  salary: new Prisma.Decimal(salary),
+  createdAt: new Date(createdAt),
+});
+
+const component = (
+  overrides: Pick<PayComponent, 'type' | 'calculation'> & { amount: string }
+): PayComponent => ({
+  id: `${overrides.type}-${overrides.calculation}`,
+  tenantId: 'tenant',
+  name: `${overrides.type} ${overrides.calculation}`,
+  isActive: true,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+  amount: new Prisma.Decimal(overrides.amount),
+});
+
+const compute = (
+  input: {
+    summary?: EmployeeAttendanceSummary;
+    employee?: { salary: Prisma.Decimal; createdAt: Date };
+    weightedOvertimeMinutes?: number;
+    dailyThresholdMinutes?: number;
+    components?: PayComponent[];
+    now?: Date;
+  } = {}
+) =>
+  computePayrollItem(
+    input.summary ?? summary(),
+    input.employee ?? employee('2900'),
+    input.weightedOvertimeMinutes === undefined
+      ? undefined
+      : {
+          minutes: input.weightedOvertimeMinutes,
+          weightedMinutes: new Prisma.Decimal(input.weightedOvertimeMinutes),
+        },
+    input.dailyThresholdMinutes ?? 480,
+    input.components ?? [],
+    FEBRUARY,
+    TZ,
+    input.now ?? AFTER_FEBRUARY
+  );
+
+describe('computePayrollItem', () => {
+  it('pays the full salary for a month without deductions', () => {
+    const item = compute();
+
+    assert.equal(item?.periodDays, 29);
+    assert.equal(item?.payableDays, 29);
+    assert.equal((item?.basePay as Prisma.Decimal).toFixed(2), '2900.00');
+  });
+
+  it('deducts absences, unpaid leave and half of each HALF_DAY', () => {
+    const item = compute({
+      summary: summary({ absentDays: 1, unpaidLeaveDays: 0.5, halfDays: 3 }),
+    });
+
+    assert.equal(item?.payableDays, 26);
+    assert.equal((item?.basePay as Prisma.Decimal).toFixed(2), '2600.00');
+  });
+
+  it('only pays employed days up to today', () => {
+    const joinedMidMonth = compute({
+      employee: employee('2900', '2024-02-20T08:00:00Z'),
+    });
+    const inProgress = compute({ now: new Date('2024-02-10T12:00:00Z') });
+
+    assert.equal(joinedMidMonth?.employedDays, 10);
+    assert.equal(inProgress?.employedDays, 10);
+    assert.equal(
+      (inProgress?.basePay as Prisma.Decimal).toFixed(2),
+      '1000.00'
+    );
+  });
+
+  it('skips employees added after the period', () => {
+    assert.equal(
+      compute({ employee: employee('2900', '2024-03-01T00:00:00Z') }),
+      null
+    );
+  });
+
+  it('rounds amounts to cents, half up', () => {
+    // 1000 * 28 / 29 = 965.517...
+    const prorated = compute({
+      summary: summary({ absentDays: 1 }),
+      employee: employee('1000'),
+    });
+    // 12.5% of 100.04 = 12.505
+    const percent = compute({
+      employee: employee('100.04'),
+      components: [
+        component({
+          type: 'ALLOWANCE',
+          calculation: 'PERCENT_OF_BASE',
+          amount: '12.5',
+        }),
+      ],
+    });
+
+    assert.equal((prorated?.basePay as Prisma.Decimal).toFixed(2), '965.52');
+    assert.equal((percent?.allowances as Prisma.Decimal).toFixed(2), '12.51');
+    assert.equal((percent?.netPay as Prisma.Decimal).toFixed(2), '112.55');
+  });
+
+  it('pays overtime at the day rate spread over the daily threshold', () => {
+    // 2900 / (29 days * 480 minutes) per minute, 720 weighted minutes
+    const item = compute({ weightedOvertimeMinutes: 720 });
+
+    assert.equal((item?.overtimePay as Prisma.Decimal).toFixed(2), '150.00');
+  });
+
+  it('bases the overtime rate on the period, not the employed days', () => {
+    const item = compute({
+      employee: employee('2900', '2024-02-20T08:00:00Z'),
+      weightedOvertimeMinutes: 720,
+      dailyThresholdMinutes: 240,
+    });
+
+    assert.equal((item?.overtimePay as Prisma.Decimal).toFixed(2), '300.00');
+  });
+
+  it('applies components and keeps net pay at zero or above', () => {
+    const item = compute({
+      components: [
+        component({ type: 'ALLOWANCE', calculation: 'FIXED', amount: '100' }),
+        component({
+          type: 'DEDUCTION',
+          calculation: 'PERCENT_OF_BASE',
+          amount: '10',
+        }),
+      ],
+    });
+    const overDeducted = compute({
+      components: [
+        component({ type: 'DEDUCTION', calculation: 'FIXED', amount: '5000' }),
+      ],
+    });
+
+    assert.equal((item?.allowances as Prisma.Decimal).toFixed(2), '100.00');
+    assert.equal((item?.deductions as Prisma.Decimal).toFixed(2), '290.00');
+    assert.equal((item?.netPay as Prisma.Decimal).toFixed(2), '2710.00');
+    assert.equal((overDeducted?.netPay as Prisma.Decimal).toFixed(2), '0.00');
+  });
+});
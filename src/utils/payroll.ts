@@ -0,0 +1,146 @@
+import {
+  Prisma,
+  type PayComponent,
+  type PayComponentType,
+} from '@prisma/client';
+import { countDates, toDateColumn } from './calendarDate';
+import { toLocalDateString } from './timezone';
+import type {
+  EmployeeAttendanceSummary,
+} from '../modules/attendance/attendanceSummary.service';
+import type { ApprovedOvertime } from '../modules/overtime/overtime.service';
+
+/**
+ * One component's amount on an employee's payslip
+ */
+export interface PayComponentLine {
+  componentId: string;
+  name: string;
+  type: PayComponentType;
+  amount: string;
+}
+
+/**
+ * A payroll item before it is attached to a run
+ */
+export type NewPayrollItem = Omit<
+  Prisma.PayrollItemCreateManyInput,
+  'tenantId' | 'payrollRunId'
+>;
+
+const ZERO = new Prisma.Decimal(0);
+
+/**
+ * Round a currency amount to cents
+ */
+const toMoney = (value: Prisma.Decimal): Prisma.Decimal =>
+  value.toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP);
+
+/**
+ * Add up currency amounts
+ */
+export const sumAmounts = (values: Prisma.Decimal[]): Prisma.Decimal =>
+  values.reduce((total, value) => total.plus(value), ZERO);
+
+/**
+ * Compute one employee's pay from the period's attendance summary
+ * The monthly salary is pro-rated over the calendar days of the period.
+ * Days before the employee was added are not paid; absences and unpaid
+ * leave are deducted, and HALF_DAY sessions lose half a day; holidays,
+ * weekly offs and paid leave are paid.
+ * Approved overtime is paid at the day rate spread over the daily
+ * threshold, times its multiplier.
+ * Fixed components apply in full; percentages apply to the base pay.
+ * Net pay does not go below zero.
+ */
+export const computePayrollItem = (
+  summary: EmployeeAttendanceSummary,
+  employee: { salary: Prisma.Decimal; createdAt: Date },
+  overtime: ApprovedOvertime | undefined,
+  dailyThresholdMinutes: number,
+  components: PayComponent[],
+  period: { start: string; end: string },
+  timeZone: string,
+  now: Date = new Date()
+): NewPayrollItem | null => {
+  const joined = toLocalDateString(employee.createdAt, timeZone);
+  if (joined > period.end) {
+    return null;
+  }
+
+  // Absences are only known up to today, so later days are not paid yet
+  const today = toLocalDateString(now, timeZone);
+  const periodDays = countDates(
+    toDateColumn(period.start),
+    toDateColumn(period.end)
+  );
+  const employedDays = countDates(
+    toDateColumn(joined > period.start ? joined : period.start),
+    toDateColumn(today < period.end ? today : period.end)
+  );
+  const payableDays = Math.max(
+    0,
+    employedDays -
+      summary.absentDays -
+      summary.unpaidLeaveDays -
+      summary.halfDays * 0.5
+  );
+
+  const basePay = toMoney(
+    employee.salary.times(payableDays).dividedBy(periodDays)
+  );
+  const overtimePay = overtime
+    ? toMoney(
+        employee.salary
+          .times(overtime.weightedMinutes)
+          .dividedBy(periodDays * dailyThresholdMinutes)
+      )
+    : ZERO;
+
+  const lines: PayComponentLine[] = [];
+  const allowances: Prisma.Decimal[] = [];
+  const deductions: Prisma.Decimal[] = [];
+  for (const component of components) {
+    const amount =
+      component.calculation === 'PERCENT_OF_BASE'
+        ? toMoney(basePay.times(component.amount).dividedBy(100))
+        : component.amount;
+
+    (component.type === 'ALLOWANCE' ? allowances : deductions).push(amount);
+    lines.push({
+      componentId: component.id,
+      name: component.name,
+      type: component.type,
+      amount: amount.toFixed(2),
+    });
+  }
+
+  const totalAllowances = sumAmounts(allowances);
+  const totalDeductions = sumAmounts(deductions);
+
+  return {
+    employeeId: summary.employeeId,
+    employeeName: summary.employeeName,
+    monthlySalary: employee.salary,
+    periodDays,
+    employedDays,
+    workingDays: summary.workingDays,
+    presentDays: summary.presentDays,
+    paidLeaveDays: summary.leaveDays - summary.unpaidLeaveDays,
+    unpaidLeaveDays: summary.unpaidLeaveDays,
+    absentDays: summary.absentDays,
+    holidays: summary.holidays,
+    weeklyOffs: summary.weeklyOffs,
+    payableDays,
+    basePay,
+    overtimeMinutes: overtime?.minutes ?? 0,
+    overtimePay,
+    allowances: totalAllowances,
+    deductions: totalDeductions,
+    netPay: Prisma.Decimal.max(
+      ZERO,
+      basePay.plus(overtimePay).plus(totalAllowances).minus(totalDeductions)
+    ),
+    components: lines as unknown as Prisma.InputJsonValue,
+  };
+};
@@ -2,6 +2,7 @@ import {
   RekognitionClient,
   CompareFacesCommand,
   CompareFacesCommandInput,
+  DetectFacesCommand,
 } from '@aws-sdk/client-rekognition';
 import { config } from '../config';
 import axios from 'axios';
@@ -40,11 +41,13 @@ const downloadImage = async (url: string): Promise<Buffer> => {
  * Compare two faces using AWS Rekognition
  * @param sourceImageUrl - URL of the reference image (employee photo)
  * @param targetImageUrl - URL of the image to compare (check-in photo)
+ * @param similarityThreshold - Minimum similarity for a match (tenant setting)
  * @returns Comparison result with confidence score
  */
 export const compareFaces = async (
   sourceImageUrl: string,
-  targetImageUrl: string
+  targetImageUrl: string,
+  similarityThreshold: number = config.rekognition.similarityThreshold
 ): Promise<FaceComparisonResult> => {
   try {
     // Download both images
@@ -60,7 +63,7 @@ export const compareFaces = async (
       TargetImage: {
         Bytes: targetImageBuffer,
       },
-      SimilarityThreshold: config.rekognition.similarityThreshold,
+      SimilarityThreshold: similarityThreshold,
     };
 
     const command = new CompareFacesCommand(params);
@@ -76,7 +79,7 @@ export const compareFaces = async (
       const confidence = response.FaceMatches[0].Face?.Confidence || 0;
 
       return {
-        isMatch: similarity >= config.rekognition.similarityThreshold,
+        isMatch: similarity >= similarityThreshold,
         confidence,
         similarity,
       };
@@ -120,3 +123,47 @@ export const detectFaces = async (imageUrl: string): Promise<boolean> => {
     return false;
   }
 };
+
+export interface FaceAttributes {
+  faceCount: number;
+  confidence: number;
+  yaw: number; // Degrees
+  pitch: number; // Degrees
+  eyesOpen: boolean;
+  eyesOpenConfidence: number;
+}
+
+/**
+ * Detect faces with pose and eye state (used for liveness prompts)
+ * Attributes describe the most prominent face
+ */
+export const detectFaceAttributes = async (
+  imageUrl: string
+): Promise<FaceAttributes> => {
+  try {
+    const imageBuffer = await downloadImage(imageUrl);
+
+    const command = new DetectFacesCommand({
+      Image: {
+        Bytes: imageBuffer,
+      },
+      Attributes: ['ALL'],
+    });
+    const response = await rekognitionClient.send(command);
+
+    const faces = response.FaceDetails || [];
+    const face = faces[0];
+
+    return {
+      faceCount: faces.length,
+      confidence: face?.Confidence || 0,
+      yaw: face?.Pose?.Yaw || 0,
+      pitch: face?.Pose?.Pitch || 0,
+      eyesOpen: face?.EyesOpen?.Value ?? true,
+      eyesOpenConfidence: face?.EyesOpen?.Confidence || 0,
+    };
+  } catch (error) {
+    console.error('Rekognition Error:', error);
+    throw new Error('Failed to detect faces using AWS Rekognition');
+  }
+};
@@ -15,6 +15,18 @@ export interface UploadResult {
   key: string;
 }
 
+/**
+ * Public URL of an S3 object in the configured bucket
+ */
+export const getS3Url = (key: string): string =>
+  `https://${config.aws.s3Bucket}.s3.${config.aws.region}.amazonaws.com/${key}`;
+
+/**
+ * URL prefix of the frames uploaded for a liveness challenge
+ */
+export const getLivenessFrameUrlPrefix = (challengeId: string): string =>
+  getS3Url(`liveness/${challengeId}/`);
+
 /**
  * Upload file buffer to S3
  */
@@ -37,9 +49,7 @@ export const uploadToS3 = async (
 
     await s3Client.send(command);
 
-    const url = `https://${config.aws.s3Bucket}.s3.${config.aws.region}.amazonaws.com/${key}`;
-
-    return { url, key };
+    return { url: getS3Url(key), key };
   } catch (error) {
     console.error('S3 Upload Error:', error);
     throw new Error('Failed to upload file to S3');
@@ -79,3 +89,21 @@ export const uploadAttendancePhoto = async (
   );
   return result.url;
 };
+
+/**
+ * Upload a liveness frame under its challenge
+ */
+export const uploadLivenessFrame = async (
+  fileBuffer: Buffer,
+  fileName: string,
+  contentType: string,
+  challengeId: string
+): Promise<string> => {
+  const result = await uploadToS3(
+    fileBuffer,
+    fileName,
+    contentType,
+    `liveness/${challengeId}`
+  );
+  return result.url;
+};
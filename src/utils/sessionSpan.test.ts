@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getSessionEnd, sessionsOverlap } from './sessionSpan';
+
+const TZ = 'Asia/Kolkata'; // UTC+05:30
+
+describe('getSessionEnd', () => {
+  it('returns the check-out of a closed session', () => {
+    const checkOutTime = new Date('2024-02-12T12:30:00Z');
+    const end = getSessionEnd(
+      { checkInTime: new Date('2024-02-12T03:30:00Z'), checkOutTime },
+      TZ
+    );
+
+    assert.equal(end.getTime(), checkOutTime.getTime());
+  });
+
+  it('ends an open session with its own local day', () => {
+    const end = getSessionEnd(
+      { checkInTime: new Date('2024-02-12T03:30:00Z'), checkOutTime: null },
+      TZ
+    );
+
+    // Local midnight of 2024-02-13 is 2024-02-12T18:30:00Z
+    assert.equal(end.toISOString(), '2024-02-12T18:29:59.999Z');
+  });
+});
+
+describe('sessionsOverlap', () => {
+  it('ignores a stale open session from a previous day', () => {
+    const staleOpen = {
+      // 09:00 local, never checked out
+      checkInTime: new Date('2024-02-12T03:30:00Z'),
+      checkOutTime: null,
+    };
+    const manualEntryToday = {
+      checkInTime: new Date('2024-02-13T03:30:00Z'), // 09:00 local, next day
+      checkOutTime: new Date('2024-02-13T12:30:00Z'),
+    };
+
+    assert.equal(sessionsOverlap(staleOpen, manualEntryToday, TZ), false);
+    assert.equal(sessionsOverlap(manualEntryToday, staleOpen, TZ), false);
+  });
+
+  it('allows an entry starting at local midnight after an open session', () => {
+    const open = {
+      checkInTime: new Date('2024-02-12T03:30:00Z'),
+      checkOutTime: null,
+    };
+    const atMidnight = {
+      checkInTime: new Date('2024-02-12T18:30:00Z'),
+      checkOutTime: null,
+    };
+
+    assert.equal(sessionsOverlap(open, atMidnight, TZ), false);
+  });
+
+  it('detects an entry later on the same day as an open session', () => {
+    const open = {
+      checkInTime: new Date('2024-02-12T03:30:00Z'),
+      checkOutTime: null,
+    };
+    const laterToday = {
+      checkInTime: new Date('2024-02-12T10:30:00Z'),
+      checkOutTime: new Date('2024-02-12T12:30:00Z'),
+    };
+
+    assert.equal(sessionsOverlap(open, laterToday, TZ), true);
+  });
+
+  it('detects closed sessions that overlap or touch', () => {
+    const morning = {
+      checkInTime: new Date('2024-02-12T03:30:00Z'),
+      checkOutTime: new Date('2024-02-12T07:30:00Z'),
+    };
+
+    assert.equal(
+      sessionsOverlap(
+        morning,
+        {
+          checkInTime: new Date('2024-02-12T07:30:00Z'),
+          checkOutTime: new Date('2024-02-12T12:30:00Z'),
+        },
+        TZ
+      ),
+      true
+    );
+    assert.equal(
+      sessionsOverlap(
+        morning,
+        {
+          checkInTime: new Date('2024-02-12T08:30:00Z'),
+          checkOutTime: new Date('2024-02-12T12:30:00Z'),
+        },
+        TZ
+      ),
+      false
+    );
+  });
+
+  it('detects a closed session spanning into an open one', () => {
+    const overnight = {
+      checkInTime: new Date('2024-02-12T15:30:00Z'), // 21:00 local
+      checkOutTime: new Date('2024-02-13T01:30:00Z'), // 07:00 local next day
+    };
+    const openNextMorning = {
+      checkInTime: new Date('2024-02-13T00:30:00Z'), // 06:00 local
+      checkOutTime: null,
+    };
+
+    assert.equal(sessionsOverlap(overnight, openNextMorning, TZ), true);
+  });
+});
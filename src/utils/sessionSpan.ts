@@ -0,0 +1,29 @@
+import { addDaysInZone } from './timezone';
+
+/**
+ * Check-in and check-out of an attendance session, open while not checked out
+ */
+export interface SessionSpan {
+  checkInTime: Date;
+  checkOutTime: Date | null;
+}
+
+/**
+ * Last instant a session covers
+ * An open session is taken to end with its own local day, so a forgotten
+ * check-out does not block the days after it
+ */
+export const getSessionEnd = (session: SessionSpan, timeZone: string): Date =>
+  session.checkOutTime ??
+  new Date(addDaysInZone(session.checkInTime, 1, timeZone).getTime() - 1);
+
+/**
+ * Check if two sessions cover a common instant
+ */
+export const sessionsOverlap = (
+  a: SessionSpan,
+  b: SessionSpan,
+  timeZone: string
+): boolean =>
+  a.checkInTime <= getSessionEnd(b, timeZone) &&
+  b.checkInTime <= getSessionEnd(a, timeZone);
@@ -0,0 +1,102 @@
+import type { AttendanceStatus, Shift } from '@prisma/client';
+import { getZonedParts, zonedTimeToUtc } from './timezone';
+
+export type ShiftTiming = Pick<
+  Shift,
+  | 'startTime'
+  | 'endTime'
+  | 'lateGraceMinutes'
+  | 'earlyExitGraceMinutes'
+  | 'halfDayAfterMinutes'
+  | 'weeklyOffs'
+>;
+
+/**
+ * Parse an HH:mm string into minutes since midnight
+ */
+export const parseTimeOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+};
+
+/**
+ * Get the start and end of a shift on the local day containing the instant
+ * Overnight shifts (end before start) end on the following day
+ */
+export const getShiftWindow = (
+  shift: ShiftTiming,
+  day: Date,
+  timeZone: string
+): { start: Date; end: Date } => {
+  const { year, month, day: dayOfMonth } = getZonedParts(day, timeZone);
+
+  const startMinutes = parseTimeOfDay(shift.startTime);
+  const endMinutes = parseTimeOfDay(shift.endTime);
+  const endDay = endMinutes <= startMinutes ? dayOfMonth + 1 : dayOfMonth;
+
+  return {
+    start: zonedTimeToUtc(timeZone, year, month, dayOfMonth, 0, startMinutes),
+    end: zonedTimeToUtc(timeZone, year, month, endDay, 0, endMinutes),
+  };
+};
+
+/**
+ * Check if the local day containing the instant is one of the shift's weekly offs
+ */
+export const isShiftWeeklyOff = (
+  shift: ShiftTiming,
+  day: Date,
+  timeZone: string
+): boolean => {
+  return shift.weeklyOffs.includes(getZonedParts(day, timeZone).weekday);
+};
+
+/**
+ * Classify a check-in against the shift start
+ * Returns null on weekly offs, where lateness does not apply
+ */
+export const classifyCheckIn = (
+  shift: ShiftTiming,
+  checkInTime: Date,
+  timeZone: string
+): AttendanceStatus | null => {
+  if (isShiftWeeklyOff(shift, checkInTime, timeZone)) {
+    return null;
+  }
+
+  const { start } = getShiftWindow(shift, checkInTime, timeZone);
+  const minutesLate = (checkInTime.getTime() - start.getTime()) / 60000;
+
+  if (
+    shift.halfDayAfterMinutes !== null &&
+    minutesLate > shift.halfDayAfterMinutes
+  ) {
+    return 'HALF_DAY';
+  }
+
+  if (minutesLate > shift.lateGraceMinutes) {
+    return 'LATE';
+  }
+
+  return 'ON_TIME';
+};
+
+/**
+ * Check if a check-out happened before the shift end (minus grace)
+ * @param sessionStart - First check-in of the session, used to pick the shift day
+ */
+export const isEarlyDeparture = (
+  shift: ShiftTiming,
+  sessionStart: Date,
+  checkOutTime: Date,
+  timeZone: string
+): boolean => {
+  if (isShiftWeeklyOff(shift, sessionStart, timeZone)) {
+    return false;
+  }
+
+  const { end } = getShiftWindow(shift, sessionStart, timeZone);
+  const minutesEarly = (end.getTime() - checkOutTime.getTime()) / 60000;
+
+  return minutesEarly > shift.earlyExitGraceMinutes;
+};
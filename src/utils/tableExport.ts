@@ -0,0 +1,175 @@
+import type { Request, Response } from 'express';
+import ExcelJS from 'exceljs';
+import { logger } from './logger';
+import { formatInZone } from './timezone';
+
+export type ExportFormat = 'json' | 'csv' | 'xlsx';
+
+export type ExportCell = string | number | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportCell;
+  width?: number; // XLSX column width in characters
+}
+
+const CONTENT_TYPES: Record<Exclude<ExportFormat, 'json'>, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Pick the response format from the `format` query parameter, falling back
+ * to the Accept header; JSON unless a spreadsheet format is asked for
+ */
+export const resolveExportFormat = (req: Request): ExportFormat => {
+  const { format } = req.query;
+  if (format === 'csv' || format === 'xlsx' || format === 'json') {
+    return format;
+  }
+
+  const accepted = req.accepts([
+    'application/json',
+    'text/csv',
+    CONTENT_TYPES.xlsx,
+  ]);
+  if (accepted === 'text/csv') {
+    return 'csv';
+  }
+  if (accepted === CONTENT_TYPES.xlsx) {
+    return 'xlsx';
+  }
+  return 'json';
+};
+
+/**
+ * Format an instant as a tenant-local "YYYY-MM-DD HH:mm:ss" cell
+ */
+export const toLocalCell = (
+  date: Date | null | undefined,
+  timeZone: string
+): string | null =>
+  date ? formatInZone(date, timeZone).slice(0, 19).replace('T', ' ') : null;
+
+/**
+ * Quote a CSV field when needed, and neutralize values a spreadsheet would
+ * run as a formula
+ */
+const toCsvField = (cell: ExportCell): string => {
+  if (cell === null || cell === undefined) {
+    return '';
+  }
+
+  let text = String(cell);
+  if (typeof cell === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Wait until the response can take more data
+ * Fails if the client went away, which stops reading further batches.
+ */
+const waitForDrain = (res: Response): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (res.destroyed) {
+      reject(new Error('Client closed the connection'));
+      return;
+    }
+
+    if (!res.writableNeedDrain) {
+      resolve();
+      return;
+    }
+
+    const onDrain = () => {
+      res.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      res.off('drain', onDrain);
+      reject(new Error('Client closed the connection'));
+    };
+
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+  });
+
+/**
+ * Stream rows to the response as CSV or XLSX, one batch at a time
+ * The first batch is read before any header is sent, so errors raised while
+ * preparing the export still reach the caller as a normal error response.
+ * Later errors are logged and end the download early.
+ */
+export const streamExport = async <T>(
+  res: Response,
+  format: Exclude<ExportFormat, 'json'>,
+  filename: string,
+  columns: ExportColumn<T>[],
+  batches: AsyncIterable<T[]>
+): Promise<void> => {
+  const iterator = batches[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${filename}.${format}"`
+  );
+
+  try {
+    if (format === 'csv') {
+      const write = async (line: string): Promise<void> => {
+        res.write(`${line}\r\n`);
+        await waitForDrain(res);
+      };
+
+      // Byte order mark so spreadsheet apps read the file as UTF-8
+      res.write('\uFEFF');
+      await write(columns.map(({ header }) => toCsvField(header)).join(','));
+
+      while (!next.done) {
+        for (const row of next.value) {
+          await write(
+            columns.map((column) => toCsvField(column.value(row))).join(',')
+          );
+        }
+        next = await iterator.next();
+      }
+
+      res.end();
+      return;
+    }
+
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: res,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const worksheet = workbook.addWorksheet(filename.slice(0, 31));
+    worksheet.columns = columns.map(({ header, width }) => ({
+      header,
+      width: width ?? Math.max(12, header.length + 2),
+    }));
+
+    while (!next.done) {
+      for (const row of next.value) {
+        worksheet
+          .addRow(columns.map((column) => column.value(row) ?? null))
+          .commit();
+      }
+      await waitForDrain(res);
+      next = await iterator.next();
+    }
+
+    worksheet.commit();
+    await workbook.commit();
+  } catch (error) {
+    logger.error('Error streaming export', error);
+    await iterator.return?.();
+    res.destroy();
+  }
+};
@@ -0,0 +1,195 @@
+/**
+ * Time zone helpers built on Intl (IANA zone names, e.g. "Asia/Kolkata")
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Validate an IANA time zone name
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the wall-clock parts of an instant in a time zone
+ */
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Convert a wall-clock time in a time zone to a UTC instant
+ * Out-of-range values roll over (e.g. day 0 is the last day of the previous month)
+ */
+export const zonedTimeToUtc = (
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  minute: number = 0
+): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Two passes settle the offset around DST transitions
+  let offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  offset = getTimeZoneOffset(new Date(wallClock - offset * 60000), timeZone);
+
+  return new Date(wallClock - offset * 60000);
+};
+
+/**
+ * Start of the local day containing the instant
+ */
+export const startOfDayInZone = (date: Date, timeZone: string): Date => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(timeZone, year, month, day);
+};
+
+/**
+ * Start of the local day a number of days after the one containing the instant
+ */
+export const addDaysInZone = (
+  date: Date,
+  days: number,
+  timeZone: string
+): Date => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(timeZone, year, month, day + days);
+};
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant
+ */
+export const toLocalDateString = (date: Date, timeZone: string): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Format an instant as local ISO 8601 with offset, e.g. 2024-01-15T09:30:00+05:30
+ */
+export const formatInZone = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date, timeZone);
+  const offset = getTimeZoneOffset(date, timeZone);
+  const sign = offset >= 0 ? '+' : '-';
+  const absolute = Math.abs(offset);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return (
+    `${toLocalDateString(date, timeZone)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`
+  );
+};
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a report boundary in a time zone
+ * Plain dates (YYYY-MM-DD) cover the whole local day: "start" resolves to
+ * local midnight and "end" to the last millisecond of that day. Full
+ * timestamps are used as given.
+ */
+export const parseDateBoundary = (
+  value: string,
+  boundary: 'start' | 'end',
+  timeZone: string
+): Date => {
+  const match = value.match(DATE_ONLY_PATTERN);
+  if (!match) {
+    return new Date(value);
+  }
+
+  const [, year, month, day] = match.map((part) => parseInt(part, 10));
+
+  if (boundary === 'start') {
+    return zonedTimeToUtc(timeZone, year, month, day);
+  }
+
+  return new Date(zonedTimeToUtc(timeZone, year, month, day + 1).getTime() - 1);
+};
+
+/**
+ * Add "<field>Local" strings for the given date fields of a record
+ */
+export const withLocalTimestamps = <T extends object, K extends keyof T & string>(
+  record: T,
+  fields: K[],
+  timeZone: string
+): T & { [P in K as `${P}Local`]: string | null } => {
+  const local: Record<string, string | null> = {};
+  for (const field of fields) {
+    const value = record[field];
+    local[`${field}Local`] =
+      value instanceof Date ? formatInZone(value, timeZone) : null;
+  }
+  return { ...record, ...local } as T & {
+    [P in K as `${P}Local`]: string | null;
+  };
+};
@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getNonWorkingReason, matchesWeeklyOff } from './workCalendar';
+import { toDateColumn } from './calendarDate';
+
+// March 2024 has five Saturdays: 2, 9, 16, 23 and 30
+const SATURDAY = 6;
+const SUNDAY = 0;
+
+describe('matchesWeeklyOff', () => {
+  it('matches every occurrence when no weeks are given', () => {
+    const pattern = { weekday: SUNDAY, weeks: [] };
+
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-03'), pattern), true);
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-31'), pattern), true);
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-02'), pattern), false);
+  });
+
+  it('matches the nth occurrence of the weekday in the month', () => {
+    // Second and fourth Saturdays
+    const pattern = { weekday: SATURDAY, weeks: [2, 4] };
+
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-02'), pattern), false);
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-09'), pattern), true);
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-16'), pattern), false);
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-23'), pattern), true);
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-30'), pattern), false);
+  });
+
+  it('matches the last occurrence with -1', () => {
+    const pattern = { weekday: SATURDAY, weeks: [-1] };
+
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-30'), pattern), true);
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-03-23'), pattern), false);
+    // February 2024 has four Saturdays; the fourth is the last
+    assert.equal(matchesWeeklyOff(toDateColumn('2024-02-24'), pattern), true);
+  });
+});
+
+describe('getNonWorkingReason', () => {
+  const calendar = {
+    holidays: new Map([['2024-03-25', 'Holi']]),
+    weeklyOffRules: [
+      { weekday: SUNDAY, weeks: [] },
+      { weekday: SATURDAY, weeks: [2, 4] },
+    ],
+  };
+
+  it('returns null for a working day', () => {
+    assert.equal(
+      getNonWorkingReason(calendar, toDateColumn('2024-03-26')),
+      null
+    );
+    assert.equal(
+      getNonWorkingReason(calendar, toDateColumn('2024-03-16')),
+      null
+    );
+  });
+
+  it('reports tenant weekly offs', () => {
+    assert.equal(
+      getNonWorkingReason(calendar, toDateColumn('2024-03-24')),
+      'WEEKLY_OFF'
+    );
+    assert.equal(
+      getNonWorkingReason(calendar, toDateColumn('2024-03-23')),
+      'WEEKLY_OFF'
+    );
+  });
+
+  it('adds the weekly offs of the employee shift', () => {
+    const friday = toDateColumn('2024-03-29');
+
+    assert.equal(getNonWorkingReason(calendar, friday), null);
+    assert.equal(getNonWorkingReason(calendar, friday, [5]), 'WEEKLY_OFF');
+  });
+
+  it('reports holidays ahead of weekly offs', () => {
+    const sundayHoliday = {
+      ...calendar,
+      holidays: new Map([['2024-03-31', 'Easter']]),
+    };
+
+    assert.equal(
+      getNonWorkingReason(calendar, toDateColumn('2024-03-25')),
+      'HOLIDAY'
+    );
+    assert.equal(
+      getNonWorkingReason(sundayHoliday, toDateColumn('2024-03-31')),
+      'HOLIDAY'
+    );
+  });
+});
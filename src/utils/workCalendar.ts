@@ -0,0 +1,67 @@
+import { fromDateColumn, getDateColumnWeekday } from './calendarDate';
+
+export type NonWorkingReason = 'HOLIDAY' | 'WEEKLY_OFF';
+
+export interface WeeklyOffPattern {
+  weekday: number; // 0 = Sunday
+  weeks: number[]; // Occurrences in the month (1-5, -1 for the last), empty for all
+}
+
+/**
+ * A tenant's non-working days: holidays by YYYY-MM-DD and weekly off rules
+ */
+export interface WorkCalendar {
+  holidays: Map<string, string>;
+  weeklyOffRules: WeeklyOffPattern[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check if a DATE column value falls on a weekly off pattern
+ * The nth occurrence of a weekday is the one in days 7n-6 to 7n of the month.
+ */
+export const matchesWeeklyOff = (
+  date: Date,
+  pattern: WeeklyOffPattern
+): boolean => {
+  if (getDateColumnWeekday(date) !== pattern.weekday) {
+    return false;
+  }
+
+  if (pattern.weeks.length === 0) {
+    return true;
+  }
+
+  const occurrence = Math.ceil(date.getUTCDate() / 7);
+  const isLast =
+    new Date(date.getTime() + 7 * DAY_MS).getUTCMonth() !== date.getUTCMonth();
+
+  return (
+    pattern.weeks.includes(occurrence) || (isLast && pattern.weeks.includes(-1))
+  );
+};
+
+/**
+ * Why a DATE column value is not a working day, or null if it is one
+ * @param shiftWeeklyOffs - Weekly offs of the employee's shift, on top of
+ * the tenant's own
+ */
+export const getNonWorkingReason = (
+  calendar: WorkCalendar,
+  date: Date,
+  shiftWeeklyOffs: number[] = []
+): NonWorkingReason | null => {
+  if (calendar.holidays.has(fromDateColumn(date))) {
+    return 'HOLIDAY';
+  }
+
+  if (
+    shiftWeeklyOffs.includes(getDateColumnWeekday(date)) ||
+    calendar.weeklyOffRules.some((rule) => matchesWeeklyOff(date, rule))
+  ) {
+    return 'WEEKLY_OFF';
+  }
+
+  return null;
+};